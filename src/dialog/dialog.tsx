@@ -0,0 +1,10 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { ExplorerDialogView } from '../taskpane/components/ExplorerDialogView';
+import '../taskpane/taskpane.css';
+
+/* global document, Office */
+
+Office.onReady(() => {
+  ReactDOM.render(<ExplorerDialogView />, document.getElementById('container'));
+});
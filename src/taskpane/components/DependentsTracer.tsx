@@ -1,5 +1,7 @@
 import * as React from 'react';
-import { ExcelHelper, CellInfo } from '../../utils/excelHelper';
+import { ExcelHelper, CellInfo, PrecedentInfo } from '../../utils/excelHelper';
+import { FormulaTokenizer } from '../../utils/formulaTokenizer';
+import { ReferenceGrammar } from '../../utils/referenceGrammar';
 
 /* global Excel */
 
@@ -9,6 +11,7 @@ export interface DependentsTracerState {
   results: CellInfo[];
   groupedResults: Map<string, CellInfo[]>;
   selectedGroup: string | null;
+  expandRanges: boolean; // List each cell in use of range precedents
   highlightColors: {
     selected: string;
     precedents: string;
@@ -26,6 +29,7 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
       results: [],
       groupedResults: new Map(),
       selectedGroup: null,
+      expandRanges: false,
       highlightColors: {
         selected: '#FFB6C1',  // Pink
         precedents: '#ADD8E6', // Light blue
@@ -62,9 +66,7 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
 
     try {
       await Excel.run(async (context) => {
-        const [sheetPart, addressPart] = selectedRange.includes('!')
-          ? selectedRange.split('!')
-          : [null, selectedRange];
+        const { sheet: sheetPart, address: addressPart } = ReferenceGrammar.split(selectedRange);
 
         const sheet = sheetPart
           ? context.workbook.worksheets.getItem(sheetPart)
@@ -121,9 +123,7 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
 
     try {
       await Excel.run(async (context) => {
-        const [sheetPart, addressPart] = selectedRange.includes('!')
-          ? selectedRange.split('!')
-          : [null, selectedRange];
+        const { sheet: sheetPart, address: addressPart } = ReferenceGrammar.split(selectedRange);
 
         const sheet = sheetPart
           ? context.workbook.worksheets.getItem(sheetPart)
@@ -135,14 +135,15 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
         const precedents = await ExcelHelper.getDirectPrecedents(
           context,
           addressPart,
-          sheet.name
+          sheet.name,
+          { expandRanges: this.state.expandRanges }
         );
 
-        // Convert precedents to CellInfo format
-        const precedentCells: CellInfo[] = precedents.map(p => ({
+        // Convert precedents to CellInfo format; expanded ranges are followed by their cells
+        const precedentCells: CellInfo[] = precedents.flatMap(p => [p, ...(p.cells || [])]).map(p => ({
           address: p.address,
           formula: '',
-          value: p.value,
+          value: this.precedentValue(p),
           sheet: p.sheet,
           workbook: p.workbook
         }));
@@ -155,8 +156,8 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
           sheet.name
         );
 
-        // Highlight precedents
-        for (const precedent of precedents) {
+        // Highlight precedents; those in other workbooks are only listed
+        for (const precedent of precedents.filter(p => p.workbook === 'Current Workbook')) {
           await ExcelHelper.highlightRange(
             context,
             precedent.address,
@@ -178,11 +179,34 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
     }
   };
 
+  /**
+   * Value to list for a precedent; ranges of several cells show a summary
+   */
+  precedentValue = (precedent: PrecedentInfo): any => {
+    const { summary } = precedent;
+    if (!summary) {
+      return precedent.value;
+    }
+
+    const parts = [`${summary.rows}×${summary.columns} range`, `${summary.nonEmpty} in use`];
+    if (summary.count > 0) {
+      parts.push(`sum ${summary.sum}`, `min ${summary.min}`, `max ${summary.max}`);
+    }
+    if (summary.errors > 0) {
+      parts.push(`${summary.errors} ${summary.errors === 1 ? 'error' : 'errors'}`);
+    }
+    if (summary.preview.length > 0) {
+      parts.push(`first: ${summary.preview.join(', ')}${summary.nonEmpty > summary.preview.length ? ', …' : ''}`);
+    }
+    return parts.join(', ');
+  };
+
   groupByFormula = (cells: CellInfo[]): Map<string, CellInfo[]> => {
     const grouped = new Map<string, CellInfo[]>();
 
     for (const cell of cells) {
-      const key = cell.formula || 'No Formula';
+      // Legacy array formulas are listed the way Excel shows them, in braces
+      const key = !cell.formula ? 'No Formula' : cell.isArrayFormula ? `{${cell.formula}}` : cell.formula;
       
       if (!grouped.has(key)) {
         grouped.set(key, []);
@@ -242,7 +266,7 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
   };
 
   render() {
-    const { selectedRange, traceMode, results, groupedResults, selectedGroup, highlightColors } = this.state;
+    const { selectedRange, traceMode, results, groupedResults, selectedGroup, expandRanges, highlightColors } = this.state;
 
     return (
       <div className="dependents-tracer">
@@ -279,6 +303,14 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
           <button className="btn btn-secondary" onClick={this.clearHighlights}>
             Clear Highlights
           </button>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={expandRanges}
+              onChange={(e) => this.setState({ expandRanges: e.target.checked })}
+            />
+            List each cell of range precedents
+          </label>
         </div>
 
         <div className="highlight-legend">
@@ -321,6 +353,9 @@ export class DependentsTracer extends React.Component<{}, DependentsTracerState>
                   
                   {groupKey !== 'No Formula' && (
                     <div className="group-formula">
+                      {FormulaTokenizer.isArrayFormula(groupKey) && (
+                        <span className="array-formula-badge" title="Legacy array formula entered with Ctrl+Shift+Enter">CSE</span>
+                      )}
                       <code>{groupKey}</code>
                     </div>
                   )}
@@ -0,0 +1,176 @@
+import * as React from 'react';
+import { ExplorerDialog, ExplorerDialogRow, ExplorerDialogSnapshot } from '../../utils/explorerDialog';
+
+/* global document */
+
+interface ExplorerDialogViewState {
+  snapshot: ExplorerDialogSnapshot | null;
+  collapsedPaths: Set<string>; // Rows whose children are hidden in the window
+}
+
+/**
+ * Formula Explorer shown in the pop-out window. It only displays what the
+ * taskpane sends and reports clicks back; the taskpane talks to Excel.
+ */
+export class ExplorerDialogView extends React.Component<{}, ExplorerDialogViewState> {
+  constructor(props: {}) {
+    super(props);
+
+    this.state = {
+      snapshot: null,
+      collapsedPaths: new Set()
+    };
+  }
+
+  componentDidMount() {
+    document.addEventListener('keydown', this.handleKeyDown);
+
+    // The taskpane answers 'ready' with a snapshot, so only ask once the handler is in place
+    ExplorerDialog.listen(message => {
+      if (message.type === 'snapshot') {
+        this.receiveSnapshot(message.snapshot);
+      }
+    })
+      .then(() => ExplorerDialog.post({ type: 'ready' }))
+      .catch(error => console.error('Error listening to the taskpane:', error));
+  }
+
+  componentWillUnmount() {
+    document.removeEventListener('keydown', this.handleKeyDown);
+  }
+
+  receiveSnapshot = (snapshot: ExplorerDialogSnapshot) => {
+    const previous = this.state.snapshot;
+    const sameFormula = !!previous && previous.explorerIndex === snapshot.explorerIndex && previous.formula === snapshot.formula;
+
+    // Collapsed rows only carry over while the same formula is shown
+    this.setState({ snapshot, collapsedPaths: sameFormula ? this.state.collapsedPaths : new Set() });
+  };
+
+  handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape' && this.state.snapshot?.closeOnEscape) {
+      event.preventDefault();
+      ExplorerDialog.post({ type: 'close', key: 'Escape' });
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      ExplorerDialog.post({ type: 'close', key: 'Enter' });
+    }
+  };
+
+  toggleCollapsed = (path: string) => {
+    const collapsedPaths = new Set(this.state.collapsedPaths);
+    if (collapsedPaths.has(path)) {
+      collapsedPaths.delete(path);
+    } else {
+      collapsedPaths.add(path);
+    }
+    this.setState({ collapsedPaths });
+  };
+
+  isHidden = (row: ExplorerDialogRow): boolean => {
+    for (const path of this.state.collapsedPaths) {
+      if (row.path.startsWith(`${path}-`)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  renderRow = (row: ExplorerDialogRow, selectedPath: string | null): JSX.Element => {
+    const isCollapsed = this.state.collapsedPaths.has(row.path);
+
+    return (
+      <tr
+        key={row.path}
+        className={`formula-row ${row.path === selectedPath ? 'selected' : ''} ${row.active ? 'active-branch' : ''} ${row.inactive ? 'inactive-branch' : ''}`}
+        onClick={() => ExplorerDialog.post({ type: 'select', path: row.path })}
+      >
+        <td className="element-cell" style={{ paddingLeft: `${row.depth * 20 + 8}px` }}>
+          <span
+            className={`tree-icon ${row.hasChildren ? 'expandable' : ''}`}
+            onClick={row.hasChildren ? (e) => { e.stopPropagation(); this.toggleCollapsed(row.path); } : undefined}
+          >
+            {row.hasChildren ? (isCollapsed ? '⊞' : '⊟') : ''}
+          </span>
+          <span className="element-icon">{row.icon}</span>
+          <span className="element-value" title={row.tooltip}>{row.label}</span>
+        </td>
+        <td className="info-cell">{row.info}</td>
+        <td className="value-cell">{row.value}</td>
+        <td className="location-cell">
+          {row.drillable ? (
+            <span
+              className="location-link"
+              title="Explore this cell's formula"
+              onClick={(e) => { e.stopPropagation(); ExplorerDialog.post({ type: 'drill', path: row.path }); }}
+            >
+              {row.location}
+            </span>
+          ) : row.location}
+        </td>
+      </tr>
+    );
+  };
+
+  render() {
+    const { snapshot } = this.state;
+
+    if (!snapshot) {
+      return (
+        <div className="formula-explorer">
+          <div className="empty-state">
+            <p>Waiting for the Formula Explorer…</p>
+          </div>
+        </div>
+      );
+    }
+
+    const { breadcrumbs, explorerIndex, formula, rows, selectedPath } = snapshot;
+
+    return (
+      <div className="formula-explorer-modern explorer-dialog">
+        <div className="explorer-breadcrumbs">
+          <button className="btn-more" onClick={() => ExplorerDialog.post({ type: 'level', index: explorerIndex - 1 })} disabled={explorerIndex === 0} title="Back">◀</button>
+          <button className="btn-more" onClick={() => ExplorerDialog.post({ type: 'level', index: explorerIndex + 1 })} disabled={explorerIndex >= breadcrumbs.length - 1} title="Forward">▶</button>
+          <span className="breadcrumb-trail">
+            {breadcrumbs.map((crumb, index) => (
+              <React.Fragment key={index}>
+                {index > 0 && <span className="breadcrumb-separator">›</span>}
+                <span
+                  className={`breadcrumb ${index === explorerIndex ? 'current' : ''} ${index > explorerIndex ? 'ahead' : ''}`}
+                  onClick={() => index !== explorerIndex && ExplorerDialog.post({ type: 'level', index })}
+                >
+                  {crumb}
+                </span>
+              </React.Fragment>
+            ))}
+          </span>
+        </div>
+
+        <div className="explorer-table-container">
+          <table className="explorer-table">
+            <thead>
+              <tr>
+                <th className="col-element">Element</th>
+                <th className="col-info">Info</th>
+                <th className="col-value">Value</th>
+                <th className="col-location">Location</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length > 0 ? rows.filter(row => !this.isHidden(row)).map(row => this.renderRow(row, selectedPath)) : (
+                <tr><td colSpan={4} className="no-formula-row">No formula to display</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="formula-bottom-bar">
+          <div className="formula-display-bar">
+            <code className="formula-code-bottom">{formula || '(No formula)'}</code>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,258 @@
+import * as React from 'react';
+import { ExcelHelper, SavedFill } from '../../utils/excelHelper';
+import { FormulaHighlighter, ReferenceHighlight } from '../../utils/formulaHighlighter';
+import { FormulaAutocomplete, AutocompleteItems, AutocompleteSuggestion } from '../../utils/formulaAutocomplete';
+import { FormulaLocale, FormulaLocaleSettings } from '../../utils/formulaLocale';
+
+/* global Excel */
+
+export interface FormulaEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  locale: FormulaLocaleSettings;
+  hostSheet: string; // Sheet of the cell being edited; unqualified references point there
+  inputRef?: React.RefObject<HTMLTextAreaElement>;
+}
+
+interface FormulaEditorState {
+  cursor: number;
+  items: AutocompleteItems;
+  suggestions: AutocompleteSuggestion[];
+  suggestionStart: number; // Offset of the typed prefix a suggestion replaces
+  suggestionIndex: number;
+}
+
+/**
+ * Formula text box that colors tokens, autocompletes names, shows the
+ * signature of the function being typed and fills each referenced range
+ * on the worksheet in the reference's color until the editor closes
+ */
+export class FormulaEditor extends React.Component<FormulaEditorProps, FormulaEditorState> {
+  private highlightRef: React.RefObject<HTMLPreElement>;
+  private savedFills: SavedFill[] = [];
+  private filledKey = '';
+  private fillQueue: Promise<void> = Promise.resolve();
+  private fillTimer: number | undefined;
+  private pendingCursor: number | null = null;
+
+  constructor(props: FormulaEditorProps) {
+    super(props);
+
+    this.state = {
+      cursor: props.value.length,
+      items: { sheets: [], tables: [], names: [] },
+      suggestions: [],
+      suggestionStart: 0,
+      suggestionIndex: 0
+    };
+
+    this.highlightRef = React.createRef();
+  }
+
+  componentDidMount() {
+    this.loadItems();
+    this.updateFills();
+  }
+
+  componentDidUpdate(prevProps: FormulaEditorProps) {
+    if (prevProps.value === this.props.value) {
+      return;
+    }
+
+    const input = this.props.inputRef?.current;
+    if (this.pendingCursor !== null && input) {
+      input.setSelectionRange(this.pendingCursor, this.pendingCursor);
+      this.pendingCursor = null;
+    }
+
+    // Wait for a pause in typing before touching the worksheet
+    window.clearTimeout(this.fillTimer);
+    this.fillTimer = window.setTimeout(this.updateFills, 300);
+  }
+
+  componentWillUnmount() {
+    window.clearTimeout(this.fillTimer);
+    this.queueFills([]);
+  }
+
+  loadItems = async () => {
+    try {
+      await Excel.run(async (context) => {
+        const items = await FormulaAutocomplete.loadItems(context, this.props.hostSheet);
+        this.setState({ items }, this.updateFills);
+      });
+    } catch (error) {
+      console.error('Error loading autocomplete names:', error);
+    }
+  };
+
+  /**
+   * Fill the ranges the formula refers to. References to sheets that do not
+   * exist (yet) are skipped.
+   */
+  updateFills = () => {
+    const { value, locale, hostSheet } = this.props;
+    const sheets = new Set([hostSheet, ...this.state.items.sheets].map(sheet => sheet.toUpperCase()));
+    this.queueFills(
+      FormulaHighlighter.referenceHighlights(value, hostSheet, locale).filter(h => sheets.has(h.sheet.toUpperCase()))
+    );
+  };
+
+  /**
+   * Swap the worksheet fills for a new set of highlights, one change at a time
+   */
+  queueFills = (highlights: ReferenceHighlight[]) => {
+    const key = highlights.map(h => `${h.sheet}!${h.address}=${h.fill}`).join('|');
+    if (key === this.filledKey) {
+      return;
+    }
+    this.filledKey = key;
+
+    this.fillQueue = this.fillQueue.then(async () => {
+      try {
+        await Excel.run(async (context) => {
+          await ExcelHelper.restoreFills(context, this.savedFills);
+          this.savedFills = [];
+          this.savedFills = await ExcelHelper.saveFills(context, highlights);
+
+          for (const highlight of highlights) {
+            await ExcelHelper.highlightRange(context, highlight.address, highlight.fill, highlight.sheet);
+          }
+        });
+      } catch (error) {
+        console.error('Error highlighting references:', error);
+      }
+    });
+  };
+
+  handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = event.target;
+    const result = FormulaAutocomplete.suggest(value, selectionStart, this.state.items, this.props.locale);
+
+    this.setState({
+      cursor: selectionStart,
+      suggestions: result ? result.suggestions : [],
+      suggestionStart: result ? result.start : 0,
+      suggestionIndex: 0
+    });
+    this.props.onChange(value);
+  };
+
+  handleSelect = (event: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const cursor = event.currentTarget.selectionStart;
+    if (cursor !== this.state.cursor) {
+      // Moving the cursor away closes the suggestion list
+      this.setState({ cursor, suggestions: [] });
+    }
+  };
+
+  handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { suggestions, suggestionIndex } = this.state;
+    if (suggestions.length === 0) {
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        const delta = event.key === 'ArrowDown' ? 1 : -1;
+        this.setState({ suggestionIndex: (suggestionIndex + delta + suggestions.length) % suggestions.length });
+        break;
+      }
+      case 'Enter':
+      case 'Tab':
+        this.acceptSuggestion(suggestions[suggestionIndex]);
+        break;
+      case 'Escape':
+        this.setState({ suggestions: [] });
+        break;
+      default:
+        return;
+    }
+
+    // Keep the keys away from the Explorer's Enter / Escape shortcuts
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    if (this.highlightRef.current) {
+      this.highlightRef.current.scrollTop = event.currentTarget.scrollTop;
+    }
+  };
+
+  acceptSuggestion = (suggestion: AutocompleteSuggestion) => {
+    const { value } = this.props;
+    const { suggestionStart, cursor } = this.state;
+
+    this.pendingCursor = suggestionStart + suggestion.insert.length;
+    this.setState({ cursor: this.pendingCursor, suggestions: [] });
+    this.props.onChange(value.substring(0, suggestionStart) + suggestion.insert + value.substring(cursor));
+    this.props.inputRef?.current?.focus();
+  };
+
+  renderSignature(): React.ReactNode {
+    const { value, locale } = this.props;
+    const context = FormulaAutocomplete.functionAt(value, this.state.cursor, locale);
+    if (!context) {
+      return null;
+    }
+
+    const { signature, argument } = context;
+    const name = FormulaLocale.localizeFunctionName(signature.name, locale);
+    return (
+      <div className="formula-signature" title={signature.description}>
+        {name}{signature.syntax.substring(signature.name.length)}
+        {argument && <> — <strong>{argument.name}</strong></>}
+      </div>
+    );
+  }
+
+  render() {
+    const { value, locale, inputRef } = this.props;
+    const { suggestions, suggestionIndex } = this.state;
+
+    return (
+      <div className="formula-editor">
+        <div className="formula-editor-field">
+          <pre ref={this.highlightRef} className="formula-editor-highlight" aria-hidden="true">
+            {FormulaHighlighter.highlight(value, locale).map((segment, index) => (
+              <span key={index} className={`token-${segment.kind}`} style={segment.color ? { color: segment.color } : undefined}>
+                {segment.text}
+              </span>
+            ))}
+            {/* A trailing newline needs content after it to take up a line */}
+            {value.endsWith('\n') ? ' ' : ''}
+          </pre>
+          <textarea
+            ref={inputRef}
+            className="formula-editor-input"
+            value={value}
+            onChange={this.handleChange}
+            onSelect={this.handleSelect}
+            onKeyDown={this.handleKeyDown}
+            onScroll={this.handleScroll}
+            rows={Math.min(12, Math.max(2, value.split('\n').length))}
+            spellCheck={false}
+          />
+          {suggestions.length > 0 && (
+            <ul className="formula-suggestions">
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={`${suggestion.kind}-${suggestion.label}`}
+                  className={`formula-suggestion ${index === suggestionIndex ? 'active' : ''}`}
+                  title={suggestion.detail}
+                  onMouseDown={(e) => { e.preventDefault(); this.acceptSuggestion(suggestion); }}
+                >
+                  <span className="suggestion-label">{suggestion.label}</span>
+                  <span className="suggestion-kind">{suggestion.kind}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {this.renderSignature()}
+      </div>
+    );
+  }
+}
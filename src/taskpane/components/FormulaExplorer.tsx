@@ -1,22 +1,57 @@
 import * as React from 'react';
-import { FormulaParser, FormulaNode } from '../../utils/formulaParser';
+import { FormulaParser, FormulaNode, FormulaDiagnostic } from '../../utils/formulaParser';
 import { ExcelHelper, CellInfo, PrecedentInfo } from '../../utils/excelHelper';
+import { FormulaEvaluator } from '../../utils/formulaEvaluator';
+import { FunctionCatalog } from '../../utils/functionCatalog';
+import { FormulaLocale, FormulaLocaleSettings } from '../../utils/formulaLocale';
+import { ReferenceNotation } from '../../utils/referenceNotation';
+import { ReferenceGrammar } from '../../utils/referenceGrammar';
+import { FormulaSerializer } from '../../utils/formulaSerializer';
+import { FormulaTokenizer, ReferenceStyle } from '../../utils/formulaTokenizer';
+import { FormulaStepper, EvaluationStep } from '../../utils/formulaStepper';
 import { KeyboardShortcutManager } from '../../utils/keyboardShortcuts';
+import { ExplorerDialog, ExplorerDialogMessage, ExplorerDialogRow } from '../../utils/explorerDialog';
+import { ExplorerOptionsManager } from '../../utils/explorerOptions';
+import { FormulaEditor } from './FormulaEditor';
 
 /* global Excel */
 
+export interface ExplorerLevel {
+  sheet: string;
+  address: string;
+}
+
+/**
+ * How a cell came to be explored: a new cell, selected or drilled into from
+ * one of the current formula's precedents, or a return to a level already on
+ * the trail
+ */
+export type ExplorerNavigation = 'explore' | 'revisit';
+
 export interface FormulaExplorerState {
   currentCell: CellInfo | null;
   formulaTree: FormulaNode | null;
+  diagnostics: FormulaDiagnostic[];
   selectedNode: FormulaNode | null;
+  collapsedNodes: Set<FormulaNode>; // Tree rows whose children are hidden
   selectedPrecedents: PrecedentInfo[];
   isEditing: boolean;
   editedFormula: string;
-  explorerWindows: number;
+  editingNode: FormulaNode | null; // Tree row being edited in place
+  nodeText: string; // Text typed for the edited row, in the user's locale
+  explorerWindows: ExplorerLevel[]; // Breadcrumb trail: KeyboardShortcutManager's navigation history
+  explorerIndex: number; // Level on the trail being explored; later levels can be revisited with Forward
+  evaluationSteps: EvaluationStep[] | null; // Non-null while stepping through the formula
+  evaluationIndex: number; // 0 shows the original formula, n shows it after n steps
+  locale: FormulaLocaleSettings; // Used for function names and the edit box
+  referenceStyle: ReferenceStyle; // Notation references are displayed in
+  isDialogOpen: boolean; // The Explorer is also shown in a pop-out window
 }
 
 export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
   private formulaInputRef: React.RefObject<HTMLTextAreaElement>;
+  private treeContainerRef: React.RefObject<HTMLDivElement>;
+  private stopListeningToHistory: (() => void) | null = null;
 
   constructor(props: {}) {
     super(props);
@@ -24,30 +59,100 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
     this.state = {
       currentCell: null,
       formulaTree: null,
+      diagnostics: [],
       selectedNode: null,
+      collapsedNodes: new Set(),
       selectedPrecedents: [],
       isEditing: false,
       editedFormula: '',
-      explorerWindows: 0
+      editingNode: null,
+      nodeText: '',
+      explorerWindows: KeyboardShortcutManager.getHistory(),
+      explorerIndex: Math.max(KeyboardShortcutManager.getCurrentHistoryIndex(), 0),
+      evaluationSteps: null,
+      evaluationIndex: 0,
+      locale: FormulaLocale.INVARIANT,
+      referenceStyle: 'A1',
+      isDialogOpen: false
     };
 
     this.formulaInputRef = React.createRef();
+    this.treeContainerRef = React.createRef();
   }
 
   componentDidMount() {
+    this.stopListeningToHistory = KeyboardShortcutManager.onHistoryChange(this.handleHistoryChange);
     this.loadCurrentCell();
   }
 
-  loadCurrentCell = async () => {
+  componentDidUpdate(_prevProps: {}, prevState: FormulaExplorerState) {
+    const { formulaTree, selectedNode, explorerIndex, referenceStyle, isDialogOpen } = this.state;
+    if (
+      isDialogOpen &&
+      (formulaTree !== prevState.formulaTree ||
+        selectedNode !== prevState.selectedNode ||
+        explorerIndex !== prevState.explorerIndex ||
+        referenceStyle !== prevState.referenceStyle)
+    ) {
+      this.sendDialogSnapshot();
+    }
+  }
+
+  componentWillUnmount() {
+    this.stopListeningToHistory?.();
+    ExplorerDialog.close();
+  }
+
+  /**
+   * Follow the shared navigation history: Back, Forward, the breadcrumbs
+   * and Ctrl+Backspace all move along it, so a move explores the cell it
+   * selected
+   */
+  handleHistoryChange = (moved: boolean) => {
+    if (moved) {
+      this.loadCurrentCell('revisit');
+    } else {
+      this.setState({
+        explorerWindows: KeyboardShortcutManager.getHistory(),
+        explorerIndex: Math.max(KeyboardShortcutManager.getCurrentHistoryIndex(), 0)
+      });
+    }
+  };
+
+  /**
+   * Explore the selected cell. Exploring a new cell adds it to the
+   * navigation history, which is the breadcrumb trail; revisiting a cell
+   * already on it leaves the history as it is.
+   */
+  loadCurrentCell = async (navigation: ExplorerNavigation = 'explore') => {
     try {
       await Excel.run(async (context) => {
         const cellInfo = await ExcelHelper.getSelectedCellInfo(context);
-        
-        // Add to navigation history
-        KeyboardShortcutManager.addToHistory(cellInfo.sheet, cellInfo.address);
+        const locale = await FormulaLocale.detect(context);
+
+        if (navigation === 'explore') {
+          KeyboardShortcutManager.addToHistory(cellInfo.sheet, cellInfo.address);
+        }
+        const explorerWindows = KeyboardShortcutManager.getHistory();
+        const explorerIndex = Math.max(KeyboardShortcutManager.getCurrentHistoryIndex(), 0);
 
         // Parse formula
-        const formulaTree = FormulaParser.parse(cellInfo.formula);
+        const { tree: formulaTree, diagnostics } = FormulaParser.parse(cellInfo.formula);
+
+        // Expand named LAMBDAs and resolve table references to real ranges
+        if (formulaTree) {
+          await ExcelHelper.expandNamedLambdas(context, formulaTree, cellInfo.sheet);
+          await ExcelHelper.resolveReferenceLocations(context, formulaTree, cellInfo.sheet, cellInfo.address);
+
+          // Evaluate every sub-expression from the referenced cells' values
+          const referenceValues = await ExcelHelper.loadReferenceValues(context, formulaTree, cellInfo.sheet);
+          if (FormulaEvaluator.evaluate(formulaTree, referenceValues) === undefined) {
+            formulaTree.calculatedValue = cellInfo.value;
+          }
+
+          // Mark active IF/IFS/CHOOSE/SWITCH branches and lookup targets
+          FormulaParser.annotateFunctions(formulaTree, cellInfo.sheet);
+        }
 
         // Load precedents
         const precedents = await ExcelHelper.getDirectPrecedents(
@@ -59,9 +164,17 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
         this.setState({
           currentCell: cellInfo,
           formulaTree,
+          diagnostics,
           selectedNode: formulaTree,
+          collapsedNodes: new Set(),
           selectedPrecedents: precedents,
-          editedFormula: cellInfo.formula
+          editedFormula: FormulaLocale.toLocal(cellInfo.formula, locale),
+          editingNode: null,
+          evaluationSteps: null,
+          evaluationIndex: 0,
+          locale,
+          explorerWindows,
+          explorerIndex
         });
       });
     } catch (error) {
@@ -76,16 +189,21 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
 
     this.setState({ selectedNode: node });
 
-    // If it's a reference, navigate to it
-    if (node.type === 'reference' && node.address) {
+    // If it's a reference or a lookup with a known target, navigate to it
+    const target = node.type === 'reference' ? node.address : node.targetLocation;
+    if (target) {
       try {
         await Excel.run(async (context) => {
           const currentCell = this.state.currentCell;
           if (currentCell) {
-            await ExcelHelper.navigateToCell(context, node.address!, currentCell.sheet);
+            // The areas of a FILTER target each carry the same sheet
+            const areas = ReferenceGrammar.splitAreas(target).map(area => ExcelHelper.parseReference(area, currentCell.sheet));
+            const sheetName = areas[0].sheetName;
+            const address = areas.map(area => area.address).join(',');
+            await ExcelHelper.navigateToCell(context, address, sheetName);
             
-            // Highlight the precedent
-            await ExcelHelper.highlightRange(context, node.address!, '#ADD8E6', currentCell.sheet);
+            // Highlight the precedent or lookup result
+            await ExcelHelper.highlightRange(context, address, node.type === 'reference' ? '#ADD8E6' : '#C3E6CB', sheetName);
           }
         });
       } catch (error) {
@@ -94,6 +212,289 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
     }
   };
 
+  /**
+   * Children of a tree row; calls to named LAMBDAs also show their definition
+   */
+  childNodes = (node: FormulaNode): FormulaNode[] => {
+    return node.definition ? [...(node.children || []), node.definition] : node.children || [];
+  };
+
+  /**
+   * Rows currently shown, top to bottom, with their parent row
+   */
+  visibleNodes = (): { node: FormulaNode; parent: FormulaNode | null }[] => {
+    const { formulaTree, collapsedNodes } = this.state;
+    const rows: { node: FormulaNode; parent: FormulaNode | null }[] = [];
+    const visit = (node: FormulaNode, parent: FormulaNode | null) => {
+      rows.push({ node, parent });
+      if (!collapsedNodes.has(node)) {
+        this.childNodes(node).forEach(child => visit(child, node));
+      }
+    };
+
+    if (formulaTree) {
+      visit(formulaTree, null);
+    }
+    return rows;
+  };
+
+  toggleCollapsed = (node: FormulaNode, collapsed: boolean) => {
+    const collapsedNodes = new Set(this.state.collapsedNodes);
+    if (collapsed) {
+      collapsedNodes.add(node);
+    } else {
+      collapsedNodes.delete(node);
+    }
+    this.setState({ collapsedNodes });
+  };
+
+  /**
+   * Show the tree down to a depth (0 is the formula itself); null expands everything
+   */
+  collapseToDepth = (maxDepth: number | null) => {
+    const { formulaTree, selectedNode } = this.state;
+    const collapsedNodes = new Set<FormulaNode>();
+    let selectionHidden = false;
+
+    const visit = (node: FormulaNode, depth: number, hidden: boolean) => {
+      if (hidden && node === selectedNode) {
+        selectionHidden = true;
+      }
+      const children = this.childNodes(node);
+      const collapse = maxDepth !== null && depth >= maxDepth && children.length > 0;
+      if (collapse) {
+        collapsedNodes.add(node);
+      }
+      children.forEach(child => visit(child, depth + 1, hidden || collapse));
+    };
+
+    if (formulaTree) {
+      visit(formulaTree, 0, false);
+    }
+    this.setState({ collapsedNodes, selectedNode: selectionHidden ? formulaTree : selectedNode });
+  };
+
+  /**
+   * Arrow keys move through the tree: up and down between rows, left to
+   * collapse or go to the parent, right to expand or go to the first child.
+   * Enter drills into the selected reference.
+   */
+  handleTreeKeyDown = (event: React.KeyboardEvent) => {
+    // Leave keys alone in controls inside the tree, such as the Levels menu
+    const target = event.target as HTMLElement;
+    if (target !== event.currentTarget && !target.classList.contains('formula-row')) {
+      return;
+    }
+
+    const { selectedNode, collapsedNodes } = this.state;
+    const rows = this.visibleNodes();
+    const index = rows.findIndex(row => row.node === selectedNode);
+    const current = index >= 0 ? rows[index] : null;
+    const hasChildren = !!current && this.childNodes(current.node).length > 0;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        this.moveSelection(rows[Math.min(rows.length - 1, index + 1)]?.node);
+        break;
+      case 'ArrowUp':
+        this.moveSelection(rows[Math.max(0, index - 1)]?.node);
+        break;
+      case 'ArrowLeft':
+        if (current && hasChildren && !collapsedNodes.has(current.node)) {
+          this.toggleCollapsed(current.node, true);
+        } else if (current?.parent) {
+          this.moveSelection(current.parent);
+        }
+        break;
+      case 'ArrowRight':
+        if (current && hasChildren && collapsedNodes.has(current.node)) {
+          this.toggleCollapsed(current.node, false);
+        } else if (current && hasChildren) {
+          this.moveSelection(this.childNodes(current.node)[0]);
+        }
+        break;
+      case 'Enter':
+        if (current) {
+          this.drillInto(current.node);
+        }
+        break;
+      default:
+        return;
+    }
+
+    // Keep the keys away from the formula bar's shortcuts
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  moveSelection = (node: FormulaNode | undefined) => {
+    if (!node) {
+      return;
+    }
+
+    this.setState({ selectedNode: node }, () => {
+      this.treeContainerRef.current?.querySelector('.formula-row.selected')?.scrollIntoView({ block: 'nearest' });
+    });
+  };
+
+  /**
+   * Select the cell a reference or lookup points to and explore its formula
+   * as a new level of the breadcrumb trail. Ranges drill into their first cell.
+   */
+  drillInto = async (node: FormulaNode) => {
+    const { currentCell } = this.state;
+    const target = node.type === 'reference' ? node.address : node.targetLocation;
+    if (!currentCell || !target) {
+      return;
+    }
+
+    try {
+      await Excel.run(async (context) => {
+        const { sheetName, address } = ExcelHelper.parseReference(ReferenceGrammar.splitAreas(target)[0], currentCell.sheet);
+        await ExcelHelper.navigateToCell(context, address.split(':')[0], sheetName);
+      });
+      await this.loadCurrentCell('explore');
+    } catch (error) {
+      console.error('Error drilling into reference:', error);
+    }
+  };
+
+  /**
+   * Go back or forward along the breadcrumb trail. The move goes through
+   * the shared navigation history, whose listener explores the cell.
+   */
+  goToLevel = async (index: number) => {
+    try {
+      await Excel.run(async (context) => {
+        await KeyboardShortcutManager.navigateTo(context, index);
+      });
+    } catch (error) {
+      console.error('Error returning to explorer level:', error);
+    }
+  };
+
+  /**
+   * Show the Explorer in a resizable window next to the taskpane
+   */
+  openDialog = async () => {
+    if (ExplorerDialog.isOpen()) {
+      return;
+    }
+
+    try {
+      await ExplorerDialog.open(this.handleDialogMessage, () => this.setState({ isDialogOpen: false }));
+      this.setState({ isDialogOpen: true });
+    } catch (error) {
+      console.error('Error opening explorer dialog:', error);
+    }
+  };
+
+  handleDialogMessage = async (message: ExplorerDialogMessage) => {
+    switch (message.type) {
+      case 'ready':
+        this.sendDialogSnapshot();
+        break;
+      case 'select': {
+        const node = this.nodeAtPath(message.path);
+        if (node) {
+          await this.selectNode(node);
+        }
+        break;
+      }
+      case 'drill': {
+        const node = this.nodeAtPath(message.path);
+        if (node) {
+          await this.drillInto(node);
+        }
+        break;
+      }
+      case 'level':
+        await this.goToLevel(message.index);
+        break;
+      case 'close':
+        await this.closeDialog(message.key === 'Enter' && ExplorerOptionsManager.getOptions().autoNavigateBack);
+        break;
+    }
+  };
+
+  /**
+   * Close the pop-out window and select the explored cell again, leaving
+   * whichever precedent was last selected from the window, unless the
+   * selection is to be kept
+   */
+  closeDialog = async (keepSelection: boolean = false) => {
+    ExplorerDialog.close();
+    this.setState({ isDialogOpen: false });
+
+    const { currentCell } = this.state;
+    if (!currentCell || keepSelection) {
+      return;
+    }
+
+    try {
+      await Excel.run(async (context) => {
+        await ExcelHelper.navigateToCell(context, currentCell.address, currentCell.sheet);
+      });
+    } catch (error) {
+      console.error('Error navigating back to explored cell:', error);
+    }
+  };
+
+  sendDialogSnapshot = () => {
+    const { currentCell, formulaTree, selectedNode, explorerWindows, explorerIndex } = this.state;
+    const rows: ExplorerDialogRow[] = [];
+    let selectedPath: string | null = null;
+
+    const visit = (node: FormulaNode, depth: number, path: string, inInactiveBranch: boolean) => {
+      const isInactive = inInactiveBranch || node.isActive === false;
+      if (node === selectedNode) {
+        selectedPath = path;
+      }
+      rows.push({
+        path,
+        depth,
+        icon: this.nodeIcon(node),
+        label: this.nodeLabel(node),
+        tooltip: this.nodeTooltip(node),
+        info: this.nodeInfo(node),
+        value: FormulaEvaluator.formatValue(node.calculatedValue),
+        location: this.nodeLocation(node),
+        drillable: this.isDrillable(node),
+        hasChildren: this.childNodes(node).length > 0,
+        active: !!node.isActive && !inInactiveBranch,
+        inactive: isInactive
+      });
+      node.children?.forEach((child, childIndex) => visit(child, depth + 1, `${path}-${childIndex}`, isInactive));
+      if (node.definition) {
+        visit(node.definition, depth + 1, `${path}-definition`, isInactive);
+      }
+    };
+
+    if (formulaTree) {
+      visit(formulaTree, 0, '0', false);
+    }
+
+    ExplorerDialog.send({
+      breadcrumbs: explorerWindows.map(level => `${level.sheet}!${level.address}`),
+      explorerIndex,
+      formula: currentCell?.formula || '',
+      rows,
+      selectedPath,
+      closeOnEscape: ExplorerOptionsManager.getOptions().closeOnEscape
+    });
+  };
+
+  /**
+   * Find a tree row from its path, e.g. "0-2-definition-1"
+   */
+  nodeAtPath = (path: string): FormulaNode | null => {
+    let node = this.state.formulaTree;
+    for (const step of path.split('-').slice(1)) {
+      node = !node ? null : step === 'definition' ? node.definition || null : node.children?.[Number(step)] || null;
+    }
+    return node;
+  };
+
   startEditing = () => {
     this.setState({ isEditing: true }, () => {
       if (this.formulaInputRef.current) {
@@ -103,26 +504,42 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
     });
   };
 
-  handleFormulaChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
-    this.setState({ editedFormula: event.target.value });
+  handleFormulaChange = (editedFormula: string) => {
+    this.setState({ editedFormula });
+  };
+
+  /**
+   * Indent the edited formula, one argument per line for long calls. A
+   * formula that does not parse is left as typed.
+   */
+  formatEdit = () => {
+    const { editedFormula, locale } = this.state;
+    const { tree, arrayFormula } = FormulaParser.parse(editedFormula, { locale });
+    if (!tree || !FormulaTokenizer.isFormula(editedFormula)) {
+      return;
+    }
+
+    const formatted = FormulaLocale.toLocal(FormulaSerializer.format(tree), locale);
+    this.setState({ editedFormula: arrayFormula ? `{${formatted}}` : formatted });
   };
 
   applyEdit = async () => {
-    const { currentCell, editedFormula } = this.state;
+    const { currentCell, editedFormula, locale } = this.state;
     
-    if (!currentCell) return;
+    // Legacy array formulas would be written back as dynamic arrays
+    if (!currentCell || currentCell.isArrayFormula) return;
 
     try {
       await Excel.run(async (context) => {
         await ExcelHelper.updateCellFormula(
           context,
           currentCell.address,
-          editedFormula,
+          FormulaLocale.toInvariant(editedFormula, locale),
           currentCell.sheet
         );
 
         // Reload the cell
-        await this.loadCurrentCell();
+        await this.loadCurrentCell('revisit');
         
         this.setState({ isEditing: false });
       });
@@ -134,10 +551,172 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
   cancelEdit = () => {
     this.setState({
       isEditing: false,
-      editedFormula: this.state.currentCell?.formula || ''
+      editedFormula: FormulaLocale.toLocal(this.state.currentCell?.formula || '', this.state.locale)
+    });
+  };
+
+  /**
+   * Edit a single argument or reference of the formula. Bindings and the
+   * expanded definitions of named LAMBDAs are not part of the formula text,
+   * and legacy array formulas can only be edited in Excel.
+   */
+  startNodeEdit = (node: FormulaNode) => {
+    const { formulaTree, currentCell, evaluationSteps, locale } = this.state;
+    if (!formulaTree || !currentCell || !FormulaTokenizer.isFormula(currentCell.formula) || currentCell.isArrayFormula || evaluationSteps || node.type === 'binding' ||
+        !FormulaSerializer.replaceNode(formulaTree, node, node)) {
+      return;
+    }
+
+    this.setState({
+      editingNode: node,
+      selectedNode: node,
+      nodeText: FormulaLocale.toLocal('=' + FormulaSerializer.serializeNode(node), locale).substring(1)
+    });
+  };
+
+  handleNodeTextChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ nodeText: event.target.value });
+  };
+
+  handleNodeEditKeyDown = (event: React.KeyboardEvent) => {
+    // Keep Enter and Escape away from the formula bar's shortcuts
+    event.stopPropagation();
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.applyNodeEdit();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      this.cancelNodeEdit();
+    }
+  };
+
+  /**
+   * Regenerate the cell's formula from the tree with the edited node
+   * replaced by what was typed. An empty text omits an optional argument;
+   * operands and required arguments cannot be left empty.
+   */
+  rebuildFormula = (): { formula: string | null; message: string | null } => {
+    const { formulaTree, editingNode, nodeText, locale } = this.state;
+    if (!formulaTree || !editingNode) {
+      return { formula: null, message: null };
+    }
+
+    let replacement: FormulaNode;
+    let message: string | null = null;
+    if (nodeText.trim()) {
+      const { tree, diagnostics } = FormulaParser.parse(`=${nodeText}`, { locale });
+      if (!tree) {
+        return { formula: null, message: diagnostics[0].message };
+      }
+      replacement = tree;
+      message = diagnostics.length > 0 ? diagnostics[0].message : null;
+    } else if (editingNode === formulaTree) {
+      return { formula: null, message: 'The formula cannot be empty' };
+    } else {
+      const parent = this.findParent(formulaTree, editingNode);
+      if (parent?.type !== 'function') {
+        return { formula: null, message: 'An operand cannot be empty' };
+      }
+      const index = parent.children!.indexOf(editingNode);
+      if (index < (FunctionCatalog.get(parent.value)?.minArgs ?? 0)) {
+        return { formula: null, message: `Argument ${index + 1} of ${parent.value} is required` };
+      }
+      replacement = { type: 'literal', value: '' };
+    }
+
+    const rebuilt = FormulaSerializer.replaceNode(formulaTree, editingNode, replacement);
+    if (!rebuilt) {
+      return { formula: null, message };
+    }
+
+    // Whatever the edit, only a formula that still parses can be written back
+    const formula = FormulaSerializer.serialize(rebuilt);
+    const { tree, diagnostics } = FormulaParser.parse(formula);
+    return tree ? { formula, message } : { formula: null, message: diagnostics[0].message };
+  };
+
+  /**
+   * The node whose children include the given node, if any
+   */
+  findParent = (root: FormulaNode, target: FormulaNode): FormulaNode | null => {
+    for (const child of root.children || []) {
+      if (child === target) {
+        return root;
+      }
+      const parent = this.findParent(child, target);
+      if (parent) {
+        return parent;
+      }
+    }
+    return null;
+  };
+
+  applyNodeEdit = async () => {
+    const { currentCell } = this.state;
+    const { formula } = this.rebuildFormula();
+
+    if (!currentCell || !formula) return;
+
+    try {
+      await Excel.run(async (context) => {
+        await ExcelHelper.updateCellFormula(context, currentCell.address, formula, currentCell.sheet);
+
+        // Reload the cell
+        await this.loadCurrentCell('revisit');
+      });
+    } catch (error) {
+      console.error('Error updating formula:', error);
+    }
+  };
+
+  cancelNodeEdit = () => {
+    this.setState({ editingNode: null });
+  };
+
+  startEvaluation = () => {
+    const { currentCell, formulaTree } = this.state;
+    if (!currentCell || !formulaTree) {
+      return;
+    }
+
+    this.setState({
+      evaluationSteps: FormulaStepper.buildSteps(currentCell.formula, formulaTree),
+      evaluationIndex: 0
     });
   };
 
+  stepEvaluation = (delta: number) => {
+    const { evaluationSteps, evaluationIndex } = this.state;
+    if (!evaluationSteps) {
+      return;
+    }
+
+    const index = Math.max(0, Math.min(evaluationSteps.length, evaluationIndex + delta));
+    this.setState({
+      evaluationIndex: index,
+      selectedNode: index > 0 ? evaluationSteps[index - 1].node : this.state.selectedNode
+    });
+  };
+
+  stopEvaluation = () => {
+    this.setState({ evaluationSteps: null, evaluationIndex: 0 });
+  };
+
+  toggleReferenceStyle = () => {
+    this.setState({ referenceStyle: this.state.referenceStyle === 'A1' ? 'R1C1' : 'A1' });
+  };
+
+  /**
+   * Reference text in the notation the user picked
+   */
+  displayReference = (node: FormulaNode): string => {
+    const { currentCell, referenceStyle } = this.state;
+    if (referenceStyle === 'R1C1' && currentCell && node.referenceKind === 'a1') {
+      return ReferenceNotation.referenceToR1C1(node.value, currentCell.address);
+    }
+    return node.value;
+  };
+
   handleKeyDown = (event: React.KeyboardEvent) => {
     if (event.key === 'Enter' && !event.shiftKey) {
       event.preventDefault();
@@ -151,67 +730,288 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
     }
   };
 
-  renderFormulaNodeRow = (node: FormulaNode, depth: number = 0, index: string = '0'): JSX.Element[] => {
-    const { selectedNode } = this.state;
+  renderFormulaNodeRow = (
+    node: FormulaNode,
+    depth: number = 0,
+    index: string = '0',
+    inInactiveBranch: boolean = false
+  ): JSX.Element[] => {
+    const { selectedNode, collapsedNodes, evaluationSteps, evaluationIndex, editingNode, nodeText } = this.state;
     const isSelected = selectedNode === node;
-    const isActive = node.isActive;
+    const isActive = node.isActive && !inInactiveBranch;
+    const isInactive = inInactiveBranch || node.isActive === false;
+    const isCurrentStep = !!evaluationSteps && evaluationIndex > 0 && evaluationSteps[evaluationIndex - 1].node === node;
+    const isLinkedBinding = !!selectedNode && selectedNode.binding === node;
+    const hasChildren = this.childNodes(node).length > 0;
+    const isCollapsed = collapsedNodes.has(node);
     const rows: JSX.Element[] = [];
 
     // Render current node
     rows.push(
       <tr
         key={`row-${index}`}
-        className={`formula-row ${isSelected ? 'selected' : ''} ${isActive ? 'active-branch' : ''}`}
+        className={`formula-row ${isSelected ? 'selected' : ''} ${isActive ? 'active-branch' : ''} ${isInactive ? 'inactive-branch' : ''} ${isCurrentStep ? 'evaluation-step' : ''} ${isLinkedBinding ? 'linked-binding' : ''}`}
         onClick={(e) => { e.stopPropagation(); this.selectNode(node, e); }}
+        onDoubleClick={(e) => { e.stopPropagation(); this.startNodeEdit(node); }}
       >
         {/* Element Column */}
         <td className="element-cell" style={{ paddingLeft: `${depth * 20 + 8}px` }}>
-          <span className="tree-icon">
-            {node.children && node.children.length > 0 ? '⊟' : ''}
+          <span
+            className={`tree-icon ${hasChildren ? 'expandable' : ''}`}
+            onClick={hasChildren ? (e) => { e.stopPropagation(); this.toggleCollapsed(node, !isCollapsed); } : undefined}
+          >
+            {hasChildren ? (isCollapsed ? '⊞' : '⊟') : ''}
           </span>
           <span className={`element-icon element-icon-${node.type}`}>
-            {node.type === 'function' ? '⚡' : node.type === 'reference' ? '📍' : '•'}
+            {this.nodeIcon(node)}
           </span>
-          <span className="element-value">{node.value}</span>
+          {editingNode === node ? (
+            <input
+              className="node-edit-input"
+              value={nodeText}
+              onChange={this.handleNodeTextChange}
+              onKeyDown={this.handleNodeEditKeyDown}
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+              autoFocus
+            />
+          ) : (
+            <span className="element-value" title={this.nodeTooltip(node)}>
+              {node.rows ? this.renderArrayGrid(node.rows) : this.nodeLabel(node)}
+            </span>
+          )}
         </td>
 
         {/* Info Column */}
         <td className="info-cell">
-          {node.argumentName || (node.type === 'operator' ? 'operator' : '')}
+          {this.nodeInfo(node)}
         </td>
 
         {/* Value Column */}
         <td className="value-cell">
-          {node.calculatedValue !== undefined ? String(node.calculatedValue) : ''}
+          {FormulaEvaluator.formatValue(node.calculatedValue)}
         </td>
 
         {/* Location Column */}
         <td className="location-cell">
-          {node.location || (node.address ? node.address : '')}
+          {node.targetNotFound ? (
+            <span className="location-not-found">{this.nodeLocation(node)}</span>
+          ) : this.isDrillable(node) ? (
+            this.renderDrillLink(node, this.nodeLocation(node))
+          ) : this.nodeLocation(node)}
         </td>
       </tr>
     );
 
+    if (isCollapsed) {
+      return rows;
+    }
+
     // Render children
     if (node.children && node.children.length > 0) {
       node.children.forEach((child, childIndex) => {
-        const childRows = this.renderFormulaNodeRow(child, depth + 1, `${index}-${childIndex}`);
+        const childRows = this.renderFormulaNodeRow(child, depth + 1, `${index}-${childIndex}`, isInactive);
         rows.push(...childRows);
       });
     }
 
+    // Calls to named LAMBDAs expand into their definition
+    if (node.definition) {
+      rows.push(...this.renderFormulaNodeRow(node.definition, depth + 1, `${index}-definition`, isInactive));
+    }
+
     return rows;
   };
 
+  /**
+   * Array constant as a small grid of its values
+   */
+  renderArrayGrid = (rows: FormulaNode[][]): React.ReactNode => {
+    return (
+      <table className="array-grid">
+        <tbody>
+          {rows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((value, colIndex) => <td key={colIndex}>{FormulaLocale.toLocal(`=${value.value}`, this.state.locale).substring(1)}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  nodeIcon = (node: FormulaNode): string => {
+    return node.type === 'function' ? '⚡' : node.type === 'binding' ? '≔' : node.referenceKind === 'variable' ? '𝑥' : node.type === 'reference' ? '📍' : node.type === 'array' ? '▦' : '•';
+  };
+
+  nodeLabel = (node: FormulaNode): string => {
+    return node.type === 'function' ? FormulaLocale.localizeFunctionName(node.value, this.state.locale) : node.type === 'reference' ? this.displayReference(node) : node.value;
+  };
+
+  nodeTooltip = (node: FormulaNode): string | undefined => {
+    const signature = node.type === 'function' ? FunctionCatalog.get(node.value) : undefined;
+    return signature ? `${signature.syntax}\n${signature.description}` : undefined;
+  };
+
+  nodeInfo = (node: FormulaNode): string => {
+    const signature = node.type === 'function' ? FunctionCatalog.get(node.value) : undefined;
+    if (node.argumentName) {
+      return node.argumentName;
+    }
+    if (node.rows) {
+      return `${node.rows.length}×${node.rows[0].length} array`;
+    }
+    return node.type === 'operator' ? 'operator' : signature ? signature.returnType : '';
+  };
+
+  nodeLocation = (node: FormulaNode): string => {
+    if (node.targetNotFound) {
+      return '→ not found';
+    }
+    if (node.targetLocation) {
+      return `→ ${node.targetLocation}`;
+    }
+    if (node.binding) {
+      return `${node.binding.argumentName?.startsWith('parameter') ? 'LAMBDA' : 'LET'} ${node.binding.value}`;
+    }
+    return node.location || node.address || '';
+  };
+
+  /**
+   * References and lookups with a known target can be explored as a new level
+   */
+  isDrillable = (node: FormulaNode): boolean => {
+    return !node.targetNotFound && (!!node.targetLocation || (node.type === 'reference' && !!node.address && !node.binding));
+  };
+
+  /**
+   * Location that explores the referenced cell as a new breadcrumb level
+   */
+  renderDrillLink = (node: FormulaNode, text: string): React.ReactNode => {
+    return (
+      <span
+        className="location-link"
+        onClick={(e) => { e.stopPropagation(); this.drillInto(node); }}
+        title="Explore this precedent"
+      >
+        {text}
+      </span>
+    );
+  };
+
+  /**
+   * Breadcrumb trail of the cells drilled into, with Back and Forward
+   */
+  renderBreadcrumbs = (): React.ReactNode => {
+    const { explorerWindows, explorerIndex, isDialogOpen } = this.state;
+
+    return (
+      <div className="explorer-breadcrumbs">
+        <button className="btn-more" onClick={() => this.goToLevel(explorerIndex - 1)} disabled={explorerIndex === 0} title="Back">◀</button>
+        <button className="btn-more" onClick={() => this.goToLevel(explorerIndex + 1)} disabled={explorerIndex >= explorerWindows.length - 1} title="Forward">▶</button>
+        <span className="breadcrumb-trail">
+          {explorerWindows.map((level, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && <span className="breadcrumb-separator">›</span>}
+              <span
+                className={`breadcrumb ${index === explorerIndex ? 'current' : ''} ${index > explorerIndex ? 'ahead' : ''}`}
+                onClick={() => this.goToLevel(index)}
+              >
+                {level.sheet}!{level.address}
+              </span>
+            </React.Fragment>
+          ))}
+        </span>
+        <button className="btn-more btn-pop-out" onClick={this.openDialog} disabled={isDialogOpen} title="Open the Explorer in a window">⧉</button>
+      </div>
+    );
+  };
+
+  /**
+   * Render the formula text, underlining the selected node's source span or
+   * marking the position of the first parse error
+   */
+  renderFormulaText = (formula: string): React.ReactNode => {
+    const { selectedNode, diagnostics } = this.state;
+    const error = diagnostics.find(d => d.severity === 'error');
+
+    let start: number | undefined;
+    let end: number | undefined;
+    let className = 'formula-span-selected';
+
+    if (error) {
+      start = error.start;
+      end = Math.max(error.end, error.start + 1);
+      className = 'formula-span-error';
+    } else if (selectedNode && selectedNode.start !== undefined && selectedNode.end !== undefined) {
+      start = selectedNode.start;
+      end = selectedNode.end;
+    }
+
+    if (start === undefined || end === undefined || end <= start) {
+      return formula;
+    }
+
+    // Errors at the very end of the formula get a visible placeholder
+    const marked = formula.substring(start, end) || ' ';
+
+    return (
+      <>
+        {formula.substring(0, start)}
+        <span className={className} title={error ? error.message : undefined}>{marked}</span>
+        {formula.substring(end)}
+      </>
+    );
+  };
+
+  /**
+   * Render the partially reduced formula for the current evaluation step,
+   * highlighting the value that was just substituted
+   */
+  renderEvaluationStep = (steps: EvaluationStep[], index: number): React.ReactNode => {
+    const formula = this.state.currentCell?.formula || '';
+    if (index === 0) {
+      return formula;
+    }
+
+    const { text, valueStart, valueEnd } = steps[index - 1];
+    return (
+      <>
+        {text.substring(0, valueStart)}
+        <span className="formula-span-step">{text.substring(valueStart, valueEnd)}</span>
+        {text.substring(valueEnd)}
+      </>
+    );
+  };
+
+  /**
+   * Preview of the formula rebuilt from the edited row, with OK / Cancel
+   */
+  renderNodeEditPreview = (): React.ReactNode => {
+    const { currentCell, locale } = this.state;
+    const { formula, message } = this.rebuildFormula();
+
+    return (
+      <div className="formula-display-bar">
+        <code className="formula-code-bottom">
+          {formula ? FormulaLocale.toLocal(formula, locale) : currentCell?.formula}
+          {message && <span className="node-edit-message">{message}</span>}
+        </code>
+        <button className="btn-ok" onClick={this.applyNodeEdit} disabled={!formula}>OK</button>
+        <button className="btn-cancel" onClick={this.cancelNodeEdit}>Cancel</button>
+      </div>
+    );
+  };
+
   render() {
-    const { currentCell, formulaTree, isEditing, editedFormula, selectedPrecedents } = this.state;
+    const { currentCell, formulaTree, diagnostics, isEditing, editedFormula, editingNode, selectedPrecedents, evaluationSteps, evaluationIndex, referenceStyle, locale } = this.state;
 
     if (!currentCell) {
       return (
         <div className="formula-explorer">
           <div className="empty-state">
             <p>Select a cell to explore its formula</p>
-            <button className="btn btn-primary" onClick={this.loadCurrentCell}>
+            <button className="btn btn-primary" onClick={() => this.loadCurrentCell()}>
               Load Selected Cell
             </button>
           </div>
@@ -221,19 +1021,39 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
 
     return (
       <div className="formula-explorer-modern" onKeyDown={this.handleKeyDown}>
+        {this.renderBreadcrumbs()}
+
         {/* Formula Explorer Table - Main View */}
-        <div className="explorer-table-container">
+        <div className="explorer-table-container" ref={this.treeContainerRef} tabIndex={0} onKeyDown={this.handleTreeKeyDown}>
           <table className="explorer-table">
             <thead>
               <tr>
-                <th className="col-element">Element</th>
+                <th className="col-element">
+                  Element
+                  {formulaTree && (
+                    <select
+                      className="tree-depth-select"
+                      defaultValue=""
+                      onChange={(e) => { this.collapseToDepth(e.target.value === 'all' ? null : Number(e.target.value)); e.target.value = ''; }}
+                      title="Expand all or collapse to a depth"
+                    >
+                      <option value="" disabled>Levels</option>
+                      <option value="all">Expand all</option>
+                      {[1, 2, 3, 4, 5].map(depth => (
+                        <option key={depth} value={depth}>{depth} {depth === 1 ? 'level' : 'levels'}</option>
+                      ))}
+                    </select>
+                  )}
+                </th>
                 <th className="col-info">Info</th>
                 <th className="col-value">Value</th>
                 <th className="col-location">Location</th>
               </tr>
             </thead>
             <tbody>
-              {formulaTree ? this.renderFormulaNodeRow(formulaTree) : (
+              {formulaTree ? this.renderFormulaNodeRow(formulaTree) : diagnostics.length > 0 ? (
+                <tr><td colSpan={4} className="no-formula-row">Could not parse formula: {diagnostics[0].message}</td></tr>
+              ) : (
                 <tr><td colSpan={4} className="no-formula-row">No formula to display</td></tr>
               )}
             </tbody>
@@ -244,19 +1064,54 @@ export class FormulaExplorer extends React.Component<{}, FormulaExplorerState> {
         <div className="formula-bottom-bar">
           {isEditing ? (
             <div className="formula-editor-inline">
-              <textarea
-                ref={this.formulaInputRef}
-                className="formula-input-bottom"
+              <FormulaEditor
+                inputRef={this.formulaInputRef}
                 value={editedFormula}
                 onChange={this.handleFormulaChange}
-                rows={2}
+                locale={locale}
+                hostSheet={currentCell.sheet}
               />
-              <button className="btn-ok" onClick={this.applyEdit}>OK</button>
+              <button className="btn-format" onClick={this.formatEdit} title="Indent the formula over several lines">Format</button>
+              <button
+                className="btn-ok"
+                onClick={this.applyEdit}
+                disabled={currentCell.isArrayFormula}
+                title={currentCell.isArrayFormula ? 'Legacy array formulas can only be edited in Excel with Ctrl+Shift+Enter' : undefined}
+              >
+                OK
+              </button>
               <button className="btn-cancel" onClick={this.cancelEdit}>Cancel</button>
             </div>
+          ) : editingNode ? (
+            this.renderNodeEditPreview()
+          ) : evaluationSteps ? (
+            <div className="formula-display-bar">
+              <code className="formula-code-bottom">
+                {this.renderEvaluationStep(evaluationSteps, evaluationIndex)}
+              </code>
+              <span className="evaluation-progress">{evaluationIndex}/{evaluationSteps.length}</span>
+              <button className="btn-more" onClick={() => this.stepEvaluation(-1)} disabled={evaluationIndex === 0} title="Previous step">◀ Back</button>
+              <button className="btn-more" onClick={() => this.stepEvaluation(1)} disabled={evaluationIndex === evaluationSteps.length} title="Evaluate the next step">Step ▶</button>
+              <button className="btn-more" onClick={this.stopEvaluation} title="Close Evaluate Formula">✕</button>
+            </div>
           ) : (
             <div className="formula-display-bar">
-              <code className="formula-code-bottom">{currentCell.formula || '(No formula)'}</code>
+              {currentCell.isArrayFormula && (
+                <span className="array-formula-badge" title="Legacy array formula entered with Ctrl+Shift+Enter">CSE</span>
+              )}
+              <code className="formula-code-bottom">
+                {!currentCell.formula ? '(No formula)' : referenceStyle === 'R1C1' && formulaTree
+                  ? ReferenceNotation.toR1C1(currentCell.formula, currentCell.address)
+                  : this.renderFormulaText(currentCell.formula)}
+              </code>
+              {formulaTree && FormulaTokenizer.isFormula(currentCell.formula) && (
+                <button className="btn-more" onClick={this.startEvaluation} title="Evaluate the formula step by step">Evaluate</button>
+              )}
+              {formulaTree && FormulaTokenizer.isFormula(currentCell.formula) && (
+                <button className="btn-more" onClick={this.toggleReferenceStyle} title="Switch between A1 and R1C1 notation">
+                  {referenceStyle === 'A1' ? 'R1C1' : 'A1'}
+                </button>
+              )}
               <button className="btn-more" onClick={this.startEditing} title="Edit and expand formula">More ▼</button>
             </div>
           )}
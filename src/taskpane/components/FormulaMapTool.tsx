@@ -127,13 +127,14 @@ export class FormulaMapTool extends React.Component<{}, FormulaMapToolState> {
     this.setState({ colors: FormulaMapper.getDefaultColors() });
   };
 
-  getStatistics = (): { total: number; unique: number; copied: number; external: number; noRefs: number } => {
+  getStatistics = (): { total: number; unique: number; copied: number; external: number; noRefs: number; arrays: number } => {
     const { results } = this.state;
     let total = 0;
     let unique = 0;
     let copied = 0;
     let external = 0;
     let noRefs = 0;
+    let arrays = 0;
 
     for (const cellInfos of results.values()) {
       total += cellInfos.length;
@@ -145,6 +146,7 @@ export class FormulaMapTool extends React.Component<{}, FormulaMapToolState> {
         
         if (cell.hasExternalRef) external++;
         if (cell.hasNoReferences) noRefs++;
+        if (cell.isArrayFormula) arrays++;
       }
 
       for (const count of formulaGroups.values()) {
@@ -153,7 +155,7 @@ export class FormulaMapTool extends React.Component<{}, FormulaMapToolState> {
       }
     }
 
-    return { total, unique, copied, external, noRefs };
+    return { total, unique, copied, external, noRefs, arrays };
   };
 
   render() {
@@ -363,6 +365,12 @@ export class FormulaMapTool extends React.Component<{}, FormulaMapToolState> {
                 <span className="stat-value">{stats.noRefs}</span>
                 <span className="stat-label">No References</span>
               </div>
+              {stats.arrays > 0 && (
+                <div className="stat-item" title="Legacy array formulas entered with Ctrl+Shift+Enter">
+                  <span className="stat-value">{stats.arrays}</span>
+                  <span className="stat-label">Array Formulas (CSE)</span>
+                </div>
+              )}
             </div>
           </div>
         )}
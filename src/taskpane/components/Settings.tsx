@@ -1,12 +1,10 @@
 import * as React from 'react';
 import { KeyboardShortcutManager, ShortcutConfig } from '../../utils/keyboardShortcuts';
+import { ExplorerOptionsManager, ExplorerOptions } from '../../utils/explorerOptions';
 
 export interface SettingsState {
   shortcuts: ShortcutConfig;
-  explorerOptions: {
-    closeOnEscape: boolean;
-    autoNavigateBack: boolean;
-  };
+  explorerOptions: ExplorerOptions;
 }
 
 export class Settings extends React.Component<{}, SettingsState> {
@@ -15,10 +13,7 @@ export class Settings extends React.Component<{}, SettingsState> {
 
     this.state = {
       shortcuts: KeyboardShortcutManager.getConfig(),
-      explorerOptions: {
-        closeOnEscape: true,
-        autoNavigateBack: true
-      }
+      explorerOptions: ExplorerOptionsManager.getOptions()
     };
   }
 
@@ -53,6 +48,20 @@ export class Settings extends React.Component<{}, SettingsState> {
     });
   };
 
+  updateExplorerOption = (key: keyof ExplorerOptions, value: boolean) => {
+    this.setState(
+      prevState => ({
+        explorerOptions: {
+          ...prevState.explorerOptions,
+          [key]: value
+        }
+      }),
+      () => {
+        ExplorerOptionsManager.updateOptions(this.state.explorerOptions);
+      }
+    );
+  };
+
   clearNavigationHistory = () => {
     KeyboardShortcutManager.clearHistory();
     alert('Navigation history cleared');
@@ -171,14 +180,7 @@ export class Settings extends React.Component<{}, SettingsState> {
             <input
               type="checkbox"
               checked={explorerOptions.closeOnEscape}
-              onChange={(e) =>
-                this.setState({
-                  explorerOptions: {
-                    ...explorerOptions,
-                    closeOnEscape: e.target.checked
-                  }
-                })
-              }
+              onChange={(e) => this.updateExplorerOption('closeOnEscape', e.target.checked)}
             />
             Close window on Escape (and navigate back automatically)
           </label>
@@ -187,14 +189,7 @@ export class Settings extends React.Component<{}, SettingsState> {
             <input
               type="checkbox"
               checked={explorerOptions.autoNavigateBack}
-              onChange={(e) =>
-                this.setState({
-                  explorerOptions: {
-                    ...explorerOptions,
-                    autoNavigateBack: e.target.checked
-                  }
-                })
-              }
+              onChange={(e) => this.updateExplorerOption('autoNavigateBack', e.target.checked)}
             />
             Keep selection on Enter (don't navigate back)
           </label>
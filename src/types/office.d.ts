@@ -120,5 +120,10 @@ declare namespace Office {
         };
       };
     };
+    ui: {
+      displayDialogAsync(startAddress: string, options: DialogOptions, callback: (result: AsyncResult<Dialog>) => void): void;
+      messageParent(message: string): void;
+      addHandlerAsync(eventType: EventType, handler: (args: DialogParentMessageReceivedEventArgs) => void, callback?: (result: AsyncResult<void>) => void): void;
+    };
   };
 }
@@ -0,0 +1,41 @@
+import { ArrayFormulaCandidate, ExcelHelper } from '../excelHelper';
+
+function cell(row: number, col: number, formula: string, options: Partial<ArrayFormulaCandidate> = {}): ArrayFormulaCandidate {
+  return { row, col, formula, value: 0, savedAsArray: true, spills: false, ...options };
+}
+
+describe('ExcelHelper.findArrayFormulaCells', () => {
+  it('finds a block entered as one array formula', () => {
+    const formula = '=A1:A2*B1:B2';
+    expect(ExcelHelper.findArrayFormulaCells([cell(0, 0, formula), cell(1, 0, formula)])).toEqual(new Set(['0,0', '1,0']));
+  });
+
+  it('leaves out a single-cell dynamic array formula that returns one value', () => {
+    expect(ExcelHelper.findArrayFormulaCells([cell(0, 0, '=SUM(FILTER(A1:A9,B1:B9>0))')])).toEqual(new Set());
+  });
+
+  it('leaves out neighbouring dynamic array formulas with different text', () => {
+    const cells = [cell(0, 0, '=SUM(FILTER(A1:A9,B1:B9>0))'), cell(1, 0, '=SUM(FILTER(A2:A10,B2:B10>0))')];
+    expect(ExcelHelper.findArrayFormulaCells(cells)).toEqual(new Set());
+  });
+
+  it('leaves out formulas that spill, are blocked from spilling or are not saved as arrays', () => {
+    const formula = '=SORT(A1:A9)';
+    expect(ExcelHelper.findArrayFormulaCells([cell(0, 0, formula, { spills: true }), cell(0, 1, formula, { spills: true })])).toEqual(new Set());
+    expect(ExcelHelper.findArrayFormulaCells([cell(0, 0, formula, { value: '#SPILL!' }), cell(0, 1, formula, { value: '#SPILL!' })])).toEqual(new Set());
+    expect(ExcelHelper.findArrayFormulaCells([cell(0, 0, '=A1', { savedAsArray: false }), cell(0, 1, '=A1', { savedAsArray: false })])).toEqual(new Set());
+  });
+
+  it('only joins cells that touch', () => {
+    const formula = '=A1:B1*2';
+    expect(ExcelHelper.findArrayFormulaCells([cell(0, 0, formula), cell(1, 1, formula)])).toEqual(new Set());
+  });
+});
+
+describe('ExcelHelper.extractCellReferences', () => {
+  it('finds references behind the implicit intersection operator', () => {
+    expect(ExcelHelper.extractCellReferences('=@A1:A3')).toEqual(['A1:A3']);
+    expect(ExcelHelper.extractCellReferences('=@Table1[Col]+1')).toEqual(['Table1[Col]']);
+    expect(ExcelHelper.extractCellReferences('=@MYUDF(B2)')).toEqual(['B2']);
+  });
+});
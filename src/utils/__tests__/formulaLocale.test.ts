@@ -0,0 +1,24 @@
+import { FormulaLocale, FormulaLocaleSettings } from '../formulaLocale';
+import { FormulaTokenizer } from '../formulaTokenizer';
+
+describe('FormulaLocale', () => {
+  const german = FormulaLocale.forCulture('de-DE', ',');
+
+  it('localizes the languages it has function names for', () => {
+    expect(FormulaLocale.toLocal('=SUM(A1,1.5)', german)).toBe('=SUMME(A1;1,5)');
+    expect(FormulaLocale.toInvariant('=WENN(A1>0,5;WAHR;FALSCH)', german)).toBe('=IF(A1>0.5,TRUE,FALSE)');
+  });
+
+  it('leaves cultures without function names invariant', () => {
+    expect(FormulaLocale.forCulture('es-ES', ',')).toBe(FormulaLocale.INVARIANT);
+    expect(FormulaLocale.forCulture('en-GB', '.')).toBe(FormulaLocale.INVARIANT);
+  });
+
+  it('ends a word in an array constant at the column separator', () => {
+    expect(FormulaLocale.toInvariant('={WAHR.FALSCH;1.2}', german)).toBe('={TRUE,FALSE;1,2}');
+
+    const backslash: FormulaLocaleSettings = { ...FormulaLocale.INVARIANT, name: 'xx-XX', decimalSeparator: ',', listSeparator: ';', arrayColumnSeparator: '\\' };
+    const tokens = FormulaTokenizer.tokenize('={TRUE\\FALSE\\1}', { locale: backslash });
+    expect(tokens.map(token => token.type)).toEqual(['array-open', 'boolean', 'separator', 'boolean', 'separator', 'number', 'array-close']);
+  });
+});
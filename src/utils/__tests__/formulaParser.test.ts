@@ -0,0 +1,42 @@
+import { FormulaNode, FormulaParser } from '../formulaParser';
+
+/**
+ * Parse a formula, give its top-level arguments the values a call would
+ * see and work out the call's target on the given sheet
+ */
+function annotate(formula: string, values: any[], sheetName: string = 'Data'): FormulaNode {
+  const { tree } = FormulaParser.parse(formula);
+  if (!tree) {
+    throw new Error(`Could not parse ${formula}`);
+  }
+  tree.children!.forEach((child, index) => {
+    child.calculatedValue = values[index];
+  });
+  FormulaParser.annotateFunctions(tree, sheetName);
+  return tree;
+}
+
+describe('FormulaParser target locations', () => {
+  it('quotes the sheet of a lookup target', () => {
+    expect(annotate("=INDEX('My Sheet'!A1:A3,2)", [[[1], [2], [3]], 2]).targetLocation).toBe("'My Sheet'!A2");
+    expect(annotate('=INDEX(A1:A3,2)', [[[1], [2], [3]], 2]).targetLocation).toBe('Data!A2');
+  });
+
+  it('qualifies every area FILTER keeps with the sheet', () => {
+    const tree = annotate("=FILTER('Q1 data'!A1:A5,{TRUE;FALSE;TRUE;TRUE;FALSE})", [[[1], [2], [3], [4], [5]], [[true], [false], [true], [true], [false]]]);
+    expect(tree.targetLocation).toBe("'Q1 data'!A1,'Q1 data'!A3:A4");
+  });
+
+  it('marks INDIRECT text that is not a reference as not found without logging', () => {
+    const log = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const tree = annotate('=INDIRECT(A1)', ['total "sales']);
+    expect(tree.targetLocation).toBeUndefined();
+    expect(tree.targetNotFound).toBe(true);
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it('points INDIRECT at the reference its text holds', () => {
+    expect(annotate('=INDIRECT(A1)', ["'Q1 data'!B2"]).targetLocation).toBe("'Q1 data'!B2");
+  });
+});
@@ -0,0 +1,149 @@
+import { FormulaNode, FormulaParser } from '../formulaParser';
+import { FormulaSerializer } from '../formulaSerializer';
+import { FormulaEvaluator } from '../formulaEvaluator';
+
+/**
+ * The parts of a tree that give it its meaning: offsets into the formula
+ * text, computed values and links back to bindings are left out
+ */
+function shape(node: FormulaNode): object {
+  return {
+    type: node.type,
+    value: node.value,
+    referenceKind: node.referenceKind,
+    children: node.children?.map(shape),
+    rows: node.rows?.map(row => row.map(shape)),
+    definition: node.definition && shape(node.definition)
+  };
+}
+
+function parse(formula: string): FormulaNode {
+  const { tree } = FormulaParser.parse(formula);
+  if (!tree) {
+    throw new Error(`Could not parse ${formula}`);
+  }
+  return tree;
+}
+
+const references = new Map<string, any[][]>([
+  ['A1', [[4]]],
+  ['B1', [[-2]]],
+  ['B2', [[10]]],
+  ['C3', [[5]]],
+  ['A1:B2', [[4, -2], [3, 10]]]
+]);
+
+const formulas: Record<string, string[]> = {
+  'operator precedence': [
+    '=1+2*3',
+    '=(1+2)*3',
+    '=1-2-3',
+    '=1-(2-3)',
+    '=2^3^2',
+    '=(2^3)^2',
+    '=A1=B1',
+    '="a"&"b"&1',
+    '=(A1+B1)&"x"',
+    '=A1*(B1+C3)/(B2-1)'
+  ],
+  'unary and percent': [
+    '=-A1',
+    '=-2^2',
+    '=-(A1+B1)',
+    '=--A1',
+    '=50%*A1',
+    '=A1%%',
+    '=-A1%',
+    '=(A1+B1)%'
+  ],
+  'implicit intersection': [
+    '=@A1:B2',
+    '=@A1:B2+1',
+    '=-@A1',
+    '=@Table1[Amount]',
+    '=@MYUDF(A1)',
+    '=SUM(@{1,2;3,4},B1)'
+  ],
+  'unions and intersections': [
+    '=SUM((A1,B2))',
+    '=SUM((A1:B2,C3),B1)',
+    '=A1:B2 B1:B2',
+    '=SUM(A:A B1:B9)',
+    '=SUM((A1,B1) B1)'
+  ],
+  'LET and LAMBDA bindings': [
+    '=LET(x,1,y,x+1,x*y)',
+    '=LET(x,A1,LET(y,x*2,y+x))',
+    '=LAMBDA(a,b,a+b)',
+    '=LET(f,LAMBDA(n,n*2),f(A1))',
+    '=LAMBDA(x,x+1)(3)',
+    '=LAMBDA(a,b,a*b)(A1,B1)+1',
+    '=LET(y,2,LAMBDA(x,x+y)(A1))'
+  ],
+  'array constants': [
+    '={1,2;3,4}',
+    '={1,-2;"a",TRUE}',
+    '=SUM({1,2,3}*A1)',
+    '=INDEX({"x";"y"},2)'
+  ],
+  'functions': [
+    '=IF(A1>0,"yes",IF(A1<0,"no","zero"))',
+    '=SUM(A1:B2)/COUNT(A1:B2)',
+    '=IFERROR(1/0,B1)'
+  ]
+};
+
+describe('FormulaSerializer', () => {
+  for (const [group, cases] of Object.entries(formulas)) {
+    describe(group, () => {
+      it.each(cases)('serializes %s back to the same tree', formula => {
+        const tree = parse(formula);
+        expect(shape(parse(FormulaSerializer.serialize(tree)))).toEqual(shape(tree));
+      });
+
+      it.each(cases)('formats %s without changing the tree or its value', formula => {
+        const tree = parse(formula);
+        const formatted = parse(FormulaSerializer.format(tree, { width: 10 }));
+        expect(shape(formatted)).toEqual(shape(tree));
+        expect(FormulaEvaluator.evaluate(formatted, references)).toEqual(FormulaEvaluator.evaluate(tree, references));
+      });
+    });
+  }
+
+  it('writes canonical text', () => {
+    expect(FormulaSerializer.serialize(parse('= ( 1 + 2 ) * sum( A1 , 3 )'))).toBe('=(1+2)*SUM(A1,3)');
+    expect(FormulaSerializer.serialize(parse('=((A1))+(B1*C3)'))).toBe('=A1+B1*C3');
+  });
+
+  it('binds the arguments of a LAMBDA called where it is written', () => {
+    const tree = parse('=LAMBDA(x,y,x*10+y)(A1,2)');
+    const parameters = tree.definition!.children!.filter(child => child.type === 'binding');
+    expect(parameters.map(parameter => [parameter.value, parameter.children?.[0]?.value])).toEqual([['x', 'A1'], ['y', '2']]);
+    expect(FormulaEvaluator.evaluate(tree, references)).toBe(42);
+    expect(FormulaSerializer.serialize(tree)).toBe('=LAMBDA(x,y,x*10+y)(A1,2)');
+  });
+
+  it('keeps the operand of unary plus as it is', () => {
+    expect(FormulaEvaluator.evaluate(parse('=+"abc"'), references)).toBe('abc');
+    expect(FormulaEvaluator.evaluate(parse('=-+"2"'), references)).toBe(-2);
+  });
+
+  it('reduces an array to its first value with @ but leaves ranges to Excel', () => {
+    expect(FormulaEvaluator.evaluate(parse('=@{7,8;9,10}'), references)).toBe(7);
+    expect(FormulaEvaluator.evaluate(parse('=@A1'), references)).toBe(4);
+    expect(FormulaEvaluator.evaluate(parse('=@A1:B2'), references)).toBeUndefined();
+  });
+
+  it('splits long calls over indented lines', () => {
+    const formatted = FormulaSerializer.format(parse('=IF(A1>0,SUM(A1:B2),0)'), { width: 10 });
+    expect(formatted.split('\n').length).toBeGreaterThan(1);
+  });
+
+  it('replaces a node and keeps the rest of the tree', () => {
+    const tree = parse('=A1+B1*2');
+    const target = tree.children![1].children![0];
+    const replaced = FormulaSerializer.replaceNode(tree, target, parse('=C3'));
+    expect(FormulaSerializer.serialize(replaced!)).toBe('=A1+C3*2');
+    expect(FormulaSerializer.serialize(tree)).toBe('=A1+B1*2');
+  });
+});
@@ -0,0 +1,67 @@
+import { KeyboardShortcutManager } from '../keyboardShortcuts';
+
+/**
+ * A request context that records the cells navigation selects
+ */
+function mockContext(selected: string[]): Excel.RequestContext {
+  return {
+    workbook: {
+      worksheets: {
+        getItem: (sheet: string) => ({
+          getRange: (address: string) => ({
+            select: () => selected.push(`${sheet}!${address}`)
+          })
+        })
+      }
+    },
+    sync: async () => undefined
+  } as unknown as Excel.RequestContext;
+}
+
+describe('KeyboardShortcutManager navigation history', () => {
+  beforeEach(() => {
+    KeyboardShortcutManager.clearHistory();
+  });
+
+  it('goes back and forward over a drill sequence', async () => {
+    const selected: string[] = [];
+    const context = mockContext(selected);
+    KeyboardShortcutManager.addToHistory('Data', 'A1');
+    KeyboardShortcutManager.addToHistory('Data', 'B1');
+    KeyboardShortcutManager.addToHistory('Inputs', 'C1');
+
+    expect(await KeyboardShortcutManager.navigateBack(context)).toBe(true);
+    expect(await KeyboardShortcutManager.navigateBack(context)).toBe(true);
+    expect(await KeyboardShortcutManager.navigateBack(context)).toBe(false);
+    expect(await KeyboardShortcutManager.navigateForward(context)).toBe(true);
+    expect(selected).toEqual(['Data!B1', 'Data!A1', 'Data!B1']);
+    expect(KeyboardShortcutManager.getCurrentHistoryIndex()).toBe(1);
+
+    // Drilling somewhere new from a revisited level drops the levels after it
+    KeyboardShortcutManager.addToHistory('Data', 'D1');
+    expect(KeyboardShortcutManager.getHistory()).toEqual([
+      { sheet: 'Data', address: 'A1' },
+      { sheet: 'Data', address: 'B1' },
+      { sheet: 'Data', address: 'D1' }
+    ]);
+    expect(await KeyboardShortcutManager.navigateForward(context)).toBe(false);
+  });
+
+  it('does not add the current location again', () => {
+    KeyboardShortcutManager.addToHistory('Data', 'A1');
+    KeyboardShortcutManager.addToHistory('Data', 'A1');
+    expect(KeyboardShortcutManager.getHistory()).toHaveLength(1);
+    expect(KeyboardShortcutManager.getCurrentHistoryIndex()).toBe(0);
+  });
+
+  it('tells listeners whether the current location moved', async () => {
+    const changes: boolean[] = [];
+    const stop = KeyboardShortcutManager.onHistoryChange(moved => changes.push(moved));
+    KeyboardShortcutManager.addToHistory('Data', 'A1');
+    KeyboardShortcutManager.addToHistory('Data', 'B1');
+    await KeyboardShortcutManager.navigateTo(mockContext([]), 0);
+    stop();
+    KeyboardShortcutManager.addToHistory('Data', 'C1');
+    expect(changes).toEqual([false, false, true]);
+  });
+});
@@ -0,0 +1,304 @@
+import { RangeRef, RangeRefHelper } from '../rangeRef';
+
+function parse(text: string): RangeRef {
+  const ref = RangeRefHelper.parse(text);
+  if (!ref) {
+    throw new Error(`Could not parse ${text}`);
+  }
+  return ref;
+}
+
+function format(ref: RangeRef | null): string | null {
+  return ref ? RangeRefHelper.format(ref) : null;
+}
+
+describe('RangeRefHelper', () => {
+  describe('columns', () => {
+    it.each([
+      ['A', 1],
+      ['Z', 26],
+      ['AA', 27],
+      ['AZ', 52],
+      ['BA', 53],
+      ['ZZ', 702],
+      ['AAA', 703],
+      ['XFD', 16384]
+    ])('converts %s and %i', (letters, number) => {
+      expect(RangeRefHelper.columnToNumber(letters)).toBe(number);
+      expect(RangeRefHelper.columnToNumber(letters.toLowerCase())).toBe(number);
+      expect(RangeRefHelper.numberToColumn(number)).toBe(letters);
+    });
+
+    it('writes cell addresses', () => {
+      expect(RangeRefHelper.cellAddress(1, 1)).toBe('A1');
+      expect(RangeRefHelper.cellAddress(1048576, 16384)).toBe('XFD1048576');
+    });
+  });
+
+  describe('parse', () => {
+    it('reads single cells', () => {
+      expect(parse('B3')).toEqual({
+        sheet: null,
+        startRow: 3,
+        startCol: 2,
+        endRow: 3,
+        endCol: 2,
+        kind: 'cells',
+        absolute: { startRow: false, startCol: false, endRow: false, endCol: false }
+      });
+    });
+
+    it('reads ranges and lower-case letters', () => {
+      expect(parse('a1:c5')).toMatchObject({ startRow: 1, startCol: 1, endRow: 5, endCol: 3, kind: 'cells' });
+    });
+
+    it('keeps $ anchors on each part', () => {
+      expect(parse('$A1:B$2').absolute).toEqual({ startRow: false, startCol: true, endRow: true, endCol: false });
+      expect(parse('$A$1').absolute).toEqual({ startRow: true, startCol: true, endRow: true, endCol: true });
+    });
+
+    it('puts reversed corners in order, keeping each anchor with its row or column', () => {
+      const ref = parse('$C$5:A1');
+      expect(ref).toMatchObject({ startRow: 1, startCol: 1, endRow: 5, endCol: 3 });
+      expect(ref.absolute).toEqual({ startRow: false, startCol: false, endRow: true, endCol: true });
+      expect(parse('C1:A5')).toMatchObject({ startRow: 1, startCol: 1, endRow: 5, endCol: 3 });
+    });
+
+    it('reads whole columns', () => {
+      expect(parse('A:A')).toMatchObject({ startRow: 1, startCol: 1, endRow: 1048576, endCol: 1, kind: 'columns' });
+      expect(parse('$C:B')).toMatchObject({ startCol: 2, endCol: 3, kind: 'columns' });
+      expect(parse('$C:B').absolute).toEqual({ startRow: false, startCol: false, endRow: false, endCol: true });
+    });
+
+    it('reads whole rows', () => {
+      expect(parse('3:5')).toMatchObject({ startRow: 3, startCol: 1, endRow: 5, endCol: 16384, kind: 'rows' });
+      expect(parse('$2:$2').absolute).toEqual({ startRow: true, startCol: false, endRow: true, endCol: false });
+    });
+
+    it('reads sheet prefixes', () => {
+      expect(parse('Sheet1!A1').sheet).toBe('Sheet1');
+      expect(parse("'Q1 Data'!B2:C3").sheet).toBe('Q1 Data');
+      expect(parse("'Bob''s'!A1").sheet).toBe("Bob's");
+      expect(parse('P&L 2024!B5').sheet).toBe('P&L 2024');
+    });
+
+    it('accepts the last row and column of the sheet', () => {
+      expect(parse('XFD1048576')).toMatchObject({ startRow: 1048576, startCol: 16384 });
+      expect(parse('XFD:XFD').endCol).toBe(16384);
+      expect(parse('1048576:1048576').endRow).toBe(1048576);
+    });
+
+    it.each([
+      'XFE1',
+      'A1048577',
+      'A0',
+      '0:1',
+      '1:1048577',
+      'A',
+      '1',
+      'A1:B2:C3',
+      'ABCD1',
+      'A1:',
+      'Sales',
+      '',
+      '[Book.xlsx]Sheet1!A1',
+      "'C:\\Reports\\[Q1.xlsx]Data'!A1",
+      'Jan:Dec!A1'
+    ])('rejects %p', text => {
+      expect(RangeRefHelper.parse(text)).toBeNull();
+    });
+  });
+
+  describe('format', () => {
+    it.each([
+      'A1',
+      '$A$1',
+      'A1:C5',
+      '$A1:B$2',
+      'A:A',
+      '$B:$D',
+      '3:5',
+      '$1:$1',
+      'Sheet1!A1:B2',
+      "'Q1 Data'!$A:$A",
+      "'Bob''s'!3:3",
+      'XFD1048576'
+    ])('writes %s back as it was read', text => {
+      expect(format(parse(text))).toBe(text);
+    });
+
+    it('quotes sheets that need it', () => {
+      expect(format(parse('P&L 2024!B5'))).toBe("'P&L 2024'!B5");
+      expect(format(RangeRefHelper.cell(1, 1, 'A1'))).toBe("'A1'!A1");
+    });
+
+    it('leaves the sheet out when asked', () => {
+      expect(RangeRefHelper.format(parse("'Q1 Data'!B2"), false)).toBe('B2');
+    });
+
+    it('writes a one-cell range as a cell', () => {
+      expect(format(parse('B2:B2'))).toBe('B2');
+      expect(format(parse('$B$2:B2'))).toBe('$B$2:B2');
+    });
+  });
+
+  describe('addressToCoords', () => {
+    it('gives the top-left cell', () => {
+      expect(RangeRefHelper.addressToCoords('C4')).toEqual({ row: 4, col: 3 });
+      expect(RangeRefHelper.addressToCoords("'Q1 Data'!$C$4:D9")).toEqual({ row: 4, col: 3 });
+      expect(RangeRefHelper.addressToCoords('D9:C4')).toEqual({ row: 4, col: 3 });
+    });
+
+    it('handles whole columns and rows', () => {
+      expect(RangeRefHelper.addressToCoords('A:A')).toEqual({ row: 1, col: 1 });
+      expect(RangeRefHelper.addressToCoords('C:E')).toEqual({ row: 1, col: 3 });
+      expect(RangeRefHelper.addressToCoords('3:5')).toEqual({ row: 3, col: 1 });
+    });
+
+    it('throws for text that is not an address', () => {
+      expect(() => RangeRefHelper.addressToCoords('Sales')).toThrow('Invalid cell address: Sales');
+      expect(() => RangeRefHelper.addressToCoords('XFE1')).toThrow();
+    });
+  });
+
+  describe('sizes', () => {
+    it('counts rows, columns and cells', () => {
+      const ref = parse('B2:D5');
+      expect(RangeRefHelper.rowCount(ref)).toBe(4);
+      expect(RangeRefHelper.columnCount(ref)).toBe(3);
+      expect(RangeRefHelper.cellCount(ref)).toBe(12);
+      expect(RangeRefHelper.cellCount(parse('A:A'))).toBe(1048576);
+    });
+
+    it('knows single cells', () => {
+      expect(RangeRefHelper.isCell(parse('A1'))).toBe(true);
+      expect(RangeRefHelper.isCell(parse('A1:A2'))).toBe(false);
+    });
+
+    it('lists cell addresses row by row', () => {
+      expect(RangeRefHelper.cellAddresses(parse('A1:B2'))).toEqual(['A1', 'B1', 'A2', 'B2']);
+    });
+  });
+
+  describe('contains', () => {
+    it('checks that every cell is inside', () => {
+      expect(RangeRefHelper.contains(parse('A1:C5'), parse('B2'))).toBe(true);
+      expect(RangeRefHelper.contains(parse('A1:C5'), parse('A1:C5'))).toBe(true);
+      expect(RangeRefHelper.contains(parse('A1:C5'), parse('B2:D2'))).toBe(false);
+      expect(RangeRefHelper.contains(parse('B:B'), parse('B1048576'))).toBe(true);
+      expect(RangeRefHelper.contains(parse('2:2'), parse('XFD2'))).toBe(true);
+    });
+
+    it('compares sheets without regard to case, and treats no sheet as any sheet', () => {
+      expect(RangeRefHelper.contains(parse('Sheet1!A1:C5'), parse('SHEET1!B2'))).toBe(true);
+      expect(RangeRefHelper.contains(parse('Sheet1!A1:C5'), parse('B2'))).toBe(true);
+      expect(RangeRefHelper.contains(parse('Sheet1!A1:C5'), parse('Sheet2!B2'))).toBe(false);
+    });
+
+    it('reads addresses for isInRange', () => {
+      expect(RangeRefHelper.isInRange('A1:C5', '$B$2')).toBe(true);
+      expect(RangeRefHelper.isInRange('A1', 'A1')).toBe(true);
+      expect(RangeRefHelper.isInRange('A1:C5', 'D1')).toBe(false);
+      expect(RangeRefHelper.isInRange('A1:C5', 'Sales')).toBe(false);
+    });
+  });
+
+  describe('intersect', () => {
+    it('gives the shared cells', () => {
+      expect(format(RangeRefHelper.intersect(parse('A1:C5'), parse('B3:E9')))).toBe('B3:C5');
+      expect(format(RangeRefHelper.intersect(parse('A1:C5'), parse('C5:D6')))).toBe('C5');
+    });
+
+    it('returns null for disjoint ranges', () => {
+      expect(RangeRefHelper.intersect(parse('A1:B2'), parse('C3:D4'))).toBeNull();
+      expect(RangeRefHelper.intersect(parse('A1:B2'), parse('A3:B4'))).toBeNull();
+      expect(RangeRefHelper.intersect(parse('A:A'), parse('B:B'))).toBeNull();
+      expect(RangeRefHelper.intersect(parse('Sheet1!A1'), parse('Sheet2!A1'))).toBeNull();
+    });
+
+    it('keeps whole columns and rows when both are', () => {
+      expect(format(RangeRefHelper.intersect(parse('A:C'), parse('B:D')))).toBe('B:C');
+      expect(format(RangeRefHelper.intersect(parse('1:3'), parse('2:5')))).toBe('2:3');
+      expect(format(RangeRefHelper.intersect(parse('A:C'), parse('2:3')))).toBe('A2:C3');
+      expect(format(RangeRefHelper.intersect(parse('B:B'), parse('A1:C5')))).toBe('B1:B5');
+    });
+
+    it('takes the sheet from whichever range has one', () => {
+      expect(format(RangeRefHelper.intersect(parse('B2'), parse('Data!A1:C3')))).toBe('Data!B2');
+    });
+  });
+
+  describe('union', () => {
+    it('gives the bounding range', () => {
+      expect(format(RangeRefHelper.union(parse('A1:C5'), parse('B3:E9')))).toBe('A1:E9');
+      expect(format(RangeRefHelper.union(parse('A1'), parse('C3')))).toBe('A1:C3');
+      expect(format(RangeRefHelper.union(parse('A:A'), parse('C:C')))).toBe('A:C');
+      expect(format(RangeRefHelper.union(parse('A:A'), parse('C3')))).toBe('A1:C1048576');
+    });
+
+    it('returns null across sheets', () => {
+      expect(RangeRefHelper.union(parse('Sheet1!A1'), parse('Sheet2!B2'))).toBeNull();
+    });
+  });
+
+  describe('offset', () => {
+    it('moves a range and keeps its anchors', () => {
+      expect(format(RangeRefHelper.offset(parse('A1:C5'), 2, 1))).toBe('B3:D7');
+      expect(format(RangeRefHelper.offset(parse('$B$2'), -1, -1))).toBe('$A$1');
+      expect(format(RangeRefHelper.offset(parse('Data!B2'), 0, 0))).toBe('Data!B2');
+    });
+
+    it('returns null off the sheet', () => {
+      expect(RangeRefHelper.offset(parse('A1:C5'), -1, 0)).toBeNull();
+      expect(RangeRefHelper.offset(parse('A1'), 0, -1)).toBeNull();
+      expect(RangeRefHelper.offset(parse('XFD1'), 0, 1)).toBeNull();
+      expect(RangeRefHelper.offset(parse('A1048576'), 1, 0)).toBeNull();
+    });
+
+    it('moves whole columns sideways and whole rows up and down only', () => {
+      expect(format(RangeRefHelper.offset(parse('B:B'), 0, 2))).toBe('D:D');
+      expect(format(RangeRefHelper.offset(parse('2:3'), 3, 0))).toBe('5:6');
+      expect(RangeRefHelper.offset(parse('B:B'), 1, 0)).toBeNull();
+      expect(RangeRefHelper.offset(parse('2:3'), 0, 1)).toBeNull();
+    });
+  });
+
+  describe('resize', () => {
+    it('keeps the top-left cell', () => {
+      expect(format(RangeRefHelper.resize(parse('B2'), 3, 2))).toBe('B2:C4');
+      expect(format(RangeRefHelper.resize(parse('B2:F9'), 1, 1))).toBe('B2');
+    });
+
+    it('returns null for sizes below one or past the sheet', () => {
+      expect(RangeRefHelper.resize(parse('A1'), 0, 1)).toBeNull();
+      expect(RangeRefHelper.resize(parse('A1'), 1, -2)).toBeNull();
+      expect(RangeRefHelper.resize(parse('XFD1'), 1, 2)).toBeNull();
+      expect(RangeRefHelper.resize(parse('A1048576'), 2, 1)).toBeNull();
+    });
+
+    it('keeps whole columns only while they span every row', () => {
+      expect(format(RangeRefHelper.resize(parse('B:B'), 1048576, 2))).toBe('B:C');
+      expect(format(RangeRefHelper.resize(parse('B:B'), 3, 1))).toBe('B1:B3');
+      expect(format(RangeRefHelper.resize(parse('2:2'), 1, 4))).toBe('A2:D2');
+    });
+  });
+
+  describe('cellAt', () => {
+    it('picks a cell by position like INDEX', () => {
+      expect(format(RangeRefHelper.cellAt(parse('Data!B2:D5'), 2, 3))).toBe('Data!D3');
+      expect(format(RangeRefHelper.cellAt(parse('B2:D5'), 1, 1))).toBe('B2');
+    });
+
+    it('returns null outside the range', () => {
+      expect(RangeRefHelper.cellAt(parse('B2:D5'), 5, 1)).toBeNull();
+      expect(RangeRefHelper.cellAt(parse('B2:D5'), 1, 4)).toBeNull();
+      expect(RangeRefHelper.cellAt(parse('B2:D5'), 0, 1)).toBeNull();
+    });
+  });
+
+  describe('fromBounds', () => {
+    it('puts corners in order', () => {
+      expect(format(RangeRefHelper.fromBounds(5, 3, 1, 1, 'Data'))).toBe('Data!A1:C5');
+    });
+  });
+});
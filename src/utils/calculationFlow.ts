@@ -2,6 +2,11 @@
  * Calculation Flow - Analyze data flow and dependencies in spreadsheets
  */
 
+import { ExcelHelper, ReferenceLookups } from './excelHelper';
+import { FormulaTokenizer } from './formulaTokenizer';
+import { ReferenceGrammar } from './referenceGrammar';
+import { RangeRef, RangeRefHelper } from './rangeRef';
+
 export interface FlowAnalysisResult {
   inputs: CellGroup[];
   calculations: CellGroup[];
@@ -91,6 +96,11 @@ export class CalculationFlowAnalyzer {
       sheets = [scope.sheetName!];
     }
 
+    // Collect every formula and its references first, so that tables and
+    // names are loaded once for the whole scope
+    const formulaCells: { sheetName: string; cellAddress: string; formula: string; references: string[] }[] = [];
+    const spilledCells: { sheetName: string; cellAddress: string; anchor: string }[] = [];
+
     for (const sheetName of sheets) {
       const sheet = context.workbook.worksheets.getItem(sheetName);
       let range: Excel.Range;
@@ -105,29 +115,62 @@ export class CalculationFlowAnalyzer {
       await context.sync();
 
       const formulas = range.formulas as string[][];
-      const baseAddress = range.address.split('!')[1].split(':')[0];
-      const baseCoords = this.addressToCoords(baseAddress);
+      const area = RangeRefHelper.parse(range.address) as RangeRef;
 
       for (let row = 0; row < range.rowCount; row++) {
         for (let col = 0; col < range.columnCount; col++) {
           const formula = formulas[row][col];
           
-          if (!formula || !formula.startsWith('=')) {
+          if (!FormulaTokenizer.isFormula(formula)) {
             continue;
           }
 
-          const cellAddress = this.getAddress(baseCoords.row + row, baseCoords.col + col);
-          const fullAddress = `${sheetName}!${cellAddress}`;
+          const cellAddress = RangeRefHelper.cellAddress(area.startRow + row, area.startCol + col);
+          const references = ExcelHelper.extractCellReferences(formula);
 
-          const precedents = this.extractPrecedents(formula, sheetName);
-          
-          dependencies.set(fullAddress, {
-            precedents,
-            dependents: [],
-            formula
-          });
+          formulaCells.push({ sheetName, cellAddress, formula, references });
         }
       }
+
+      // Cells a dynamic array spills into hold no formula of their own
+      for (const spill of await ExcelHelper.loadSpillRanges(context, range)) {
+        const spillArea = RangeRefHelper.parse(spill.address) as RangeRef;
+        for (const cellAddress of RangeRefHelper.cellAddresses(spillArea)) {
+          if (cellAddress !== spill.anchor) {
+            spilledCells.push({ sheetName, cellAddress, anchor: spill.anchor });
+          }
+        }
+      }
+    }
+
+    // Spill references (E2#) are qualified with the sheet of the formula using them
+    const lookups = await ExcelHelper.loadReferenceLookups(
+      context,
+      formulaCells.flatMap(cell => cell.references.map(ref =>
+        ExcelHelper.getReferenceKind(ref) === 'spill' && !ref.includes('!')
+          ? `${ReferenceGrammar.quoteSheet(cell.sheetName)}!${ref}`
+          : ref
+      ))
+    );
+
+    for (const { sheetName, cellAddress, formula, references } of formulaCells) {
+      const precedents = this.extractPrecedents(references, sheetName, cellAddress, lookups);
+
+      dependencies.set(`${sheetName}!${cellAddress}`, {
+        precedents,
+        dependents: [],
+        formula
+      });
+    }
+
+    // Spilled cells are outputs of the formula they spill from
+    for (const { sheetName, cellAddress, anchor } of spilledCells) {
+      const anchorInfo = dependencies.get(`${sheetName}!${anchor}`);
+      dependencies.set(`${sheetName}!${cellAddress}`, {
+        precedents: [`${sheetName}!${anchor}`],
+        dependents: [],
+        formula: anchorInfo ? anchorInfo.formula : ''
+      });
     }
 
     // Build reverse dependencies (dependents)
@@ -274,7 +317,7 @@ export class CalculationFlowAnalyzer {
 
     for (const group of allGroups) {
       for (const cellAddress of group.cells) {
-        const [sheetName, address] = cellAddress.split('!');
+        const [sheetName, address] = this.splitAddress(cellAddress);
         const sheet = context.workbook.worksheets.getItem(sheetName);
         const range = sheet.getRange(address);
         range.format.fill.color = group.color;
@@ -318,30 +361,48 @@ export class CalculationFlowAnalyzer {
   }
 
   /**
-   * Extract precedents from a formula
+   * Resolve a formula's references to precedent addresses. Table references
+   * and names are followed to the cells behind them, and 3D references give
+   * one precedent per sheet of their span.
    */
-  private static extractPrecedents(formula: string, currentSheet: string): string[] {
+  private static extractPrecedents(
+    references: string[],
+    currentSheet: string,
+    hostAddress: string,
+    lookups: ReferenceLookups
+  ): string[] {
     const precedents: string[] = [];
-    const pattern = /(\[.*?\])?(\w+!)?(\$?[A-Z]+\$?\d+(?::\$?[A-Z]+\$?\d+)?)/gi;
-    
-    let match;
-    while ((match = pattern.exec(formula)) !== null) {
-      const workbook = match[1] || '';
-      const sheet = match[2] ? match[2].replace('!', '') : currentSheet;
-      const address = match[3];
-
-      // For ranges, we'll just use the whole range as one precedent
-      precedents.push(`${sheet}!${address}`);
+
+    for (const reference of references) {
+      for (const resolved of ExcelHelper.resolveReferences(reference, currentSheet, lookups, hostAddress)) {
+        // Whole-column and whole-row references are not tracked as precedents
+        const address = resolved.address.replace(/\$/g, '');
+        if (!/[A-Z]+\d+/i.test(address)) {
+          continue;
+        }
+
+        // For ranges, we'll just use the whole range as one precedent
+        precedents.push(`${resolved.sheetName}!${address}`);
+      }
     }
 
     return precedents;
   }
 
+  /**
+   * Split a Sheet!A1 key into sheet and address. Keys hold sheet names
+   * unquoted, and only the address is sure not to contain a "!".
+   */
+  private static splitAddress(key: string): [string, string] {
+    const bang = key.lastIndexOf('!');
+    return [key.substring(0, bang), key.substring(bang + 1)];
+  }
+
   /**
    * Check if an address is in scope
    */
   private static isInScope(address: string, scope: AnalysisScope): boolean {
-    const [sheetName, cellAddress] = address.split('!');
+    const [sheetName, cellAddress] = this.splitAddress(address);
 
     if (scope.type === 'workbook') {
       return true;
@@ -353,7 +414,7 @@ export class CalculationFlowAnalyzer {
 
     if (scope.type === 'range') {
       return sheetName === scope.sheetName && 
-             this.isAddressInRange(cellAddress, scope.rangeAddress!);
+             RangeRefHelper.isInRange(scope.rangeAddress!, cellAddress);
     }
 
     return false;
@@ -363,85 +424,19 @@ export class CalculationFlowAnalyzer {
    * Check if an address is in the focus area
    */
   private static isInFocusArea(address: string, focusArea: { sheetName?: string; rangeAddress?: string }): boolean {
-    const [sheetName, cellAddress] = address.split('!');
+    const [sheetName, cellAddress] = this.splitAddress(address);
 
     if (focusArea.sheetName && sheetName !== focusArea.sheetName) {
       return false;
     }
 
     if (focusArea.rangeAddress) {
-      return this.isAddressInRange(cellAddress, focusArea.rangeAddress);
+      return RangeRefHelper.isInRange(focusArea.rangeAddress, cellAddress);
     }
 
     return true;
   }
 
-  /**
-   * Check if a cell address is within a range
-   */
-  private static isAddressInRange(cellAddress: string, rangeAddress: string): boolean {
-    if (!rangeAddress.includes(':')) {
-      return cellAddress === rangeAddress;
-    }
-
-    const [start, end] = rangeAddress.split(':');
-    const startCoords = this.addressToCoords(start);
-    const endCoords = this.addressToCoords(end);
-    const cellCoords = this.addressToCoords(cellAddress);
-
-    return cellCoords.row >= startCoords.row &&
-           cellCoords.row <= endCoords.row &&
-           cellCoords.col >= startCoords.col &&
-           cellCoords.col <= endCoords.col;
-  }
-
-  /**
-   * Convert cell address to coordinates
-   */
-  private static addressToCoords(address: string): { row: number; col: number } {
-    const match = address.match(/([A-Z]+)(\d+)/i);
-    if (!match) {
-      throw new Error(`Invalid cell address: ${address}`);
-    }
-
-    const col = this.columnToNumber(match[1]);
-    const row = parseInt(match[2], 10);
-
-    return { row, col };
-  }
-
-  /**
-   * Convert column letter to number
-   */
-  private static columnToNumber(column: string): number {
-    let num = 0;
-    for (let i = 0; i < column.length; i++) {
-      num = num * 26 + (column.charCodeAt(i) - 64);
-    }
-    return num;
-  }
-
-  /**
-   * Get cell address from coordinates
-   */
-  private static getAddress(row: number, col: number): string {
-    const columnLetter = this.numberToColumn(col);
-    return `${columnLetter}${row}`;
-  }
-
-  /**
-   * Convert column number to letter
-   */
-  private static numberToColumn(num: number): string {
-    let column = '';
-    while (num > 0) {
-      const remainder = (num - 1) % 26;
-      column = String.fromCharCode(65 + remainder) + column;
-      num = Math.floor((num - 1) / 26);
-    }
-    return column;
-  }
-
   /**
    * Get default colors
    */
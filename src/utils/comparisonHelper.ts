@@ -2,6 +2,9 @@
  * Comparison Helper - Utilities for comparing workbooks, worksheets, and ranges
  */
 
+import { FormulaTokenizer } from './formulaTokenizer';
+import { RangeRefHelper } from './rangeRef';
+
 export interface ComparisonResult {
   differences: DifferenceBlock[];
   totalDifferences: number;
@@ -116,14 +119,14 @@ export class ComparisonHelper {
           currentBlock.endCol = Math.max(currentBlock.endCol, col);
 
           currentBlock.referenceCells.push({
-            address: this.getAddress(row, col),
+            address: RangeRefHelper.cellAddress(row + 1, col + 1),
             formula: refFormula,
             value: refValue,
             isDifferent: true
           });
 
           currentBlock.comparatorCells.push({
-            address: this.getAddress(row, col),
+            address: RangeRefHelper.cellAddress(row + 1, col + 1),
             formula: compFormula,
             value: compValue,
             isDifferent: true
@@ -165,16 +168,23 @@ export class ComparisonHelper {
   }
 
   /**
-   * Normalize a formula by replacing cell references with placeholders
+   * Normalize a formula by replacing cell references with placeholders.
+   * A legacy array formula keeps its braces, so it never matches the same
+   * formula entered normally.
    */
   private static normalizeFormula(formula: string): string {
-    if (!formula || !formula.startsWith('=')) {
+    if (!FormulaTokenizer.isFormula(formula)) {
       return formula;
     }
 
     // Replace cell references with REF
-    const pattern = /(\[.*?\])?(\w+!)?(\$?[A-Z]+\$?\d+(?::\$?[A-Z]+\$?\d+)?)/gi;
-    return formula.replace(pattern, 'REF');
+    try {
+      const tokens = FormulaTokenizer.tokenize(formula);
+      const normalized = '=' + tokens.map(token => token.type === 'reference' ? 'REF' : token.value).join('');
+      return FormulaTokenizer.isArrayFormula(formula) ? `{${normalized}}` : normalized;
+    } catch (error) {
+      return formula;
+    }
   }
 
   /**
@@ -210,27 +220,6 @@ export class ComparisonHelper {
     );
   }
 
-  /**
-   * Get cell address from row and column indices
-   */
-  private static getAddress(row: number, col: number): string {
-    const columnLetter = this.numberToColumn(col + 1);
-    return `${columnLetter}${row + 1}`;
-  }
-
-  /**
-   * Convert column number to letter
-   */
-  private static numberToColumn(num: number): string {
-    let column = '';
-    while (num > 0) {
-      const remainder = (num - 1) % 26;
-      column = String.fromCharCode(65 + remainder) + column;
-      num = Math.floor((num - 1) / 26);
-    }
-    return column;
-  }
-
   /**
    * Detect alignment issues (inserted/deleted rows and columns)
    */
@@ -2,28 +2,91 @@
  * Excel Helper - Utilities for interacting with Excel API
  */
 
+import { FormulaTokenizer, FormulaTokenizeOptions } from './formulaTokenizer';
+import { FormulaParser, FormulaNode } from './formulaParser';
+import { StructuredReferenceHelper, TableInfo } from './structuredReferences';
+import { NamedRangeHelper, NamedRangeInfo } from './namedRanges';
+import { FormulaEvaluator } from './formulaEvaluator';
+import { ReferenceGrammar } from './referenceGrammar';
+import { RangeRef, RangeRefHelper } from './rangeRef';
+import { RangeBatch, RangeRequest } from './rangeBatch';
+
 export interface CellInfo {
   address: string;
   formula: string;
   value: any;
   sheet: string;
   workbook: string;
+  isArrayFormula?: boolean; // Legacy array formula entered with Ctrl+Shift+Enter
 }
 
 export interface PrecedentInfo {
   address: string;
   sheet: string;
   workbook: string;
+  value: any; // For ranges of more than one cell: null, see summary
+  summary?: RangeSummary;
+  cells?: PrecedentInfo[]; // With expandRanges: the range's cells that are in use, row by row
+}
+
+export interface RangeSummary {
+  rows: number; // Whole columns and rows count every row or column of the sheet
+  columns: number;
+  nonEmpty: number; // Cells in use; whole columns and rows are only read as far as the used range
+  count: number; // Cells holding a number
+  sum: number;
+  min: number | null; // null when no cell holds a number
+  max: number | null;
+  errors: number; // Cells holding an error such as #N/A
+  preview: any[]; // The first values in use, row by row
+}
+
+export interface PrecedentOptions {
+  expandRanges?: boolean; // List the cells of range precedents that are in use
+  previewSize?: number; // Values kept in RangeSummary.preview
+}
+
+export type ReferenceKind = 'a1' | 'structured' | 'name' | 'spill';
+
+export interface ReferenceLookups {
+  tables: TableInfo[];
+  names: NamedRangeInfo[];
+  spills: Map<string, string>; // Sheet!A1 of a spilling formula to the Sheet!A1:B5 it spills into
+  sheets: string[]; // Worksheet names in tab order, for 3D references
+}
+
+export interface SpillRange {
+  anchor: string; // A1 address of the formula that spills
+  address: string; // A1:B5 extent of the spilled array, including the anchor
+}
+
+export interface ArrayFormulaCandidate {
+  row: number;
+  col: number;
+  formula: string;
   value: any;
+  savedAsArray: boolean; // Range.savedAsArray of the cell
+  spills: boolean; // The cell's formula spills, or it could not be told
+}
+
+export interface SavedFill {
+  sheet: string;
+  address: string;
+  colors: string[][]; // Fill color of each cell; #FFFFFF for cells without a fill
 }
 
 export class ExcelHelper {
+  // Cells listed per range precedent by expandRanges; the summary still covers them all
+  private static MAX_EXPANDED_CELLS = 500;
+
   /**
    * Get information about the currently selected cell
    */
   static async getSelectedCellInfo(context: Excel.RequestContext): Promise<CellInfo> {
     const range = context.workbook.getSelectedRange();
     range.load(['address', 'formulas', 'values', 'worksheet']);
+    const cell = range.getCell(0, 0);
+    cell.load(['rowIndex', 'columnIndex']);
     
     await context.sync();
 
@@ -36,22 +99,29 @@ export class ExcelHelper {
     const addressParts = range.address.split('!');
     const cellAddress = addressParts.length > 1 ? addressParts[1] : range.address;
 
+    const formula = range.formulas[0][0] as string;
     return {
       address: cellAddress,
-      formula: range.formulas[0][0] as string,
+      formula,
       value: range.values[0][0],
       sheet: worksheet.name,
-      workbook: 'Current Workbook'
+      workbook: 'Current Workbook',
+      isArrayFormula: FormulaTokenizer.isFormula(formula) && await this.isArrayFormulaCell(context, worksheet, cell.rowIndex, cell.columnIndex)
     };
   }
 
   /**
-   * Get direct precedents of a cell
+   * Get direct precedents of a cell. Ranges of more than one cell come with
+   * a summary of their values, and with options.expandRanges also list
+   * their cells that are in use. The precedents' values are read in one
+   * sync; the tables, names and spills needed to resolve references are
+   * loaded before that, one round trip for each kind the formula uses.
    */
   static async getDirectPrecedents(
     context: Excel.RequestContext,
     address: string,
-    sheetName?: string
+    sheetName?: string,
+    options: PrecedentOptions = {}
   ): Promise<PrecedentInfo[]> {
     const precedents: PrecedentInfo[] = [];
     
@@ -62,38 +132,92 @@ export class ExcelHelper {
       
       const range = sheet.getRange(address);
       range.load(['formulas', 'address']);
+      const spillParent = range.getSpillParentOrNullObject();
+      spillParent.load(['address', 'values']);
+      sheet.load('name');
       
       await context.sync();
 
       const formula = range.formulas[0][0] as string;
       
-      if (!formula || !formula.startsWith('=')) {
+      if (!FormulaTokenizer.isFormula(formula)) {
+        // A spilled cell is an output of the formula it spilled from
+        if (!spillParent.isNullObject) {
+          precedents.push({
+            address: spillParent.address.split('!')[1],
+            sheet: sheet.name,
+            workbook: 'Current Workbook',
+            value: spillParent.values[0][0]
+          });
+        }
         return precedents;
       }
 
       // Extract cell references from formula
       const references = this.extractCellReferences(formula);
+      const lookups = await this.loadReferenceLookups(context, references, sheet.name);
+      const pending: { precedent: PrecedentInfo; request: RangeRequest }[] = [];
       
       for (const ref of references) {
-        try {
-          const { sheetName: refSheet, address: refAddress } = this.parseReference(ref, sheet.name);
-          const refRange = refSheet 
-            ? context.workbook.worksheets.getItem(refSheet).getRange(refAddress)
-            : sheet.getRange(refAddress);
-          
-          refRange.load(['values', 'address']);
-          await context.sync();
-
+        // Other workbooks cannot be read from here, but are still precedents
+        if (ReferenceGrammar.isExternal(ref)) {
+          const parts = ReferenceGrammar.split(ref);
           precedents.push({
+            address: parts.address,
+            sheet: parts.sheet || '',
+            workbook: parts.workbook!,
+            value: null
+          });
+          continue;
+        }
+
+        // Constant names and names that refer to nothing have no cells to list
+        const resolved = this.resolveReferences(ref, sheet.name, lookups, address);
+        if (resolved.length === 0) {
+          continue;
+        }
+
+        for (const { sheetName: refSheet, address: refAddress } of resolved) {
+          const precedent: PrecedentInfo = {
             address: refAddress,
             sheet: refSheet || sheet.name,
             workbook: 'Current Workbook',
-            value: refRange.values[0][0]
-          });
-        } catch (error) {
-          console.error(`Error loading precedent ${ref}:`, error);
+            value: null
+          };
+          precedents.push(precedent);
+          pending.push({ precedent, request: { sheet: precedent.sheet, address: refAddress } });
         }
       }
+
+      // Read every precedent in one round trip
+      const ranges = await RangeBatch.load(
+        context,
+        pending.map(({ request }) => request),
+        request => this.getUsedPart(context.workbook.worksheets.getItem(request.sheet), request.address),
+        ['values', 'valueTypes']
+      );
+
+      pending.forEach(({ precedent }, index) => {
+        const range = ranges[index];
+        if (!range) {
+          console.error(`Error loading precedent ${precedent.sheet}!${precedent.address}`);
+          precedents.splice(precedents.indexOf(precedent), 1);
+          return;
+        }
+
+        // A whole column or row outside the used range comes back as a null object
+        const values = range.isNullObject ? [] : range.values;
+        const valueTypes = range.isNullObject ? [] : range.valueTypes;
+        const area = RangeRefHelper.parse(precedent.address);
+        if (area && !RangeRefHelper.isCell(area)) {
+          precedent.summary = this.summarizeRange(area, values, valueTypes, options.previewSize);
+          if (options.expandRanges) {
+            precedent.cells = this.expandRange(precedent, area, values);
+          }
+        } else {
+          precedent.value = range.values[0][0];
+        }
+      });
     } catch (error) {
       console.error('Error getting precedents:', error);
     }
@@ -121,33 +245,69 @@ export class ExcelHelper {
       
       await context.sync();
 
-      const targetAddress = address.toUpperCase();
+      const target = RangeRefHelper.parse(address);
+      const usedArea = RangeRefHelper.parse(usedRange.address) as RangeRef;
+      const formulas = usedRange.formulas as string[][];
+
+      // Extract every formula's references first so that tables and names are loaded once
+      const cellReferences = formulas.map(r => r.map(f =>
+        typeof f === 'string' && FormulaTokenizer.isFormula(f) ? this.extractCellReferences(f) : []
+      ));
+      const lookups = await this.loadReferenceLookups(context, cellReferences.flat(2), sheet.name);
+      const arrayCells = await this.loadArrayFormulaCells(context, usedRange);
       
       // Scan all cells for references to the target
       for (let row = 0; row < usedRange.rowCount; row++) {
         for (let col = 0; col < usedRange.columnCount; col++) {
-          const formula = usedRange.formulas[row][col] as string;
+          const formula = formulas[row][col];
           
-          if (formula && formula.startsWith('=')) {
-            const references = this.extractCellReferences(formula);
+          if (typeof formula === 'string' && FormulaTokenizer.isFormula(formula)) {
+            const references = cellReferences[row][col];
+            const cellAddress = RangeRefHelper.cellAddress(usedArea.startRow + row, usedArea.startCol + col);
             
-            for (const ref of references) {
-              const { address: refAddress } = this.parseReference(ref, sheet.name);
-              
-              if (refAddress.toUpperCase() === targetAddress || 
-                  this.isInRange(targetAddress, refAddress)) {
-                const cellAddress = this.getCellAddress(usedRange.address, row, col);
-                
-                dependents.push({
-                  address: cellAddress,
-                  formula: formula,
-                  value: usedRange.values[row][col],
-                  sheet: sheet.name,
-                  workbook: 'Current Workbook'
-                });
-                break;
-              }
+            // A reference depends on the target if it shares any of its cells;
+            // a 3D reference only if its span includes this sheet
+            const isDependent = !!target && references.some(ref =>
+              this.resolveReferences(ref, sheet.name, lookups, cellAddress).some(resolved => {
+                const refArea = RangeRefHelper.parse(resolved.address);
+                return resolved.sheetName === sheet.name && !!refArea && RangeRefHelper.intersect(target, refArea) !== null;
+              })
+            );
+
+            if (isDependent) {
+              dependents.push({
+                address: cellAddress,
+                formula: formula,
+                value: usedRange.values[row][col],
+                sheet: sheet.name,
+                workbook: 'Current Workbook',
+                isArrayFormula: arrayCells.has(`${row},${col}`)
+              });
+            }
+          }
+        }
+      }
+
+      // Cells spilled from a formula in the target are its outputs
+      for (const spill of await this.loadSpillRanges(context, usedRange)) {
+        const anchor = RangeRefHelper.parse(spill.anchor) as RangeRef;
+        const area = RangeRefHelper.parse(spill.address) as RangeRef;
+        if (!target || !RangeRefHelper.contains(target, anchor)) {
+          continue;
+        }
+
+        for (let row = area.startRow; row <= area.endRow; row++) {
+          for (let col = area.startCol; col <= area.endCol; col++) {
+            if (row === anchor.startRow && col === anchor.startCol) {
+              continue;
             }
+            dependents.push({
+              address: RangeRefHelper.cellAddress(row, col),
+              formula: formulas[anchor.startRow - usedArea.startRow][anchor.startCol - usedArea.startCol],
+              value: usedRange.values[row - usedArea.startRow]?.[col - usedArea.startCol],
+              sheet: sheet.name,
+              workbook: 'Current Workbook'
+            });
           }
         }
       }
@@ -159,118 +319,550 @@ export class ExcelHelper {
   }
 
   /**
-   * Extract cell references from a formula
+   * Extract cell references from a formula, written in the invariant A1 form
+   * unless options say otherwise
    */
-  static extractCellReferences(formula: string): string[] {
-    const references: string[] = [];
-    
-    // Pattern to match cell references: A1, $A$1, Sheet1!A1, [Book1]Sheet1!A1, A1:B10
-    const pattern = /(\[.*?\])?(\w+!)?(\$?[A-Z]+\$?\d+(?::\$?[A-Z]+\$?\d+)?|\$?[A-Z]+:\$?[A-Z]+|\$?\d+:\$?\d+)/gi;
-    
-    let match;
-    while ((match = pattern.exec(formula)) !== null) {
-      references.push(match[0]);
-    }
+  static extractCellReferences(formula: string, options: FormulaTokenizeOptions = {}): string[] {
+    // A1 references (A1, $A$1, Sheet1!A1, [Book1]Sheet1!A1, A1:B10),
+    // structured references (Sales[Amount], [@Qty]) and defined names
+    // (Revenue, Sheet1!TaxRate) as written in the formula. LET and LAMBDA
+    // variables are not references.
+    try {
+      const { tree } = FormulaParser.parse(formula, options);
+      if (tree) {
+        const references: string[] = [];
+        FormulaParser.forEachNode(tree, node => {
+          if (node.type === 'reference' && node.referenceKind !== 'variable') {
+            references.push(node.value);
+          }
+        });
+        return references;
+      }
 
-    return references;
+      return FormulaTokenizer.tokenize(formula, options)
+        .filter(token => token.type === 'reference' || token.type === 'name')
+        .map(token => token.value);
+    } catch (error) {
+      console.error(`Error extracting references from ${formula}:`, error);
+      return [];
+    }
   }
 
   /**
-   * Parse a cell reference into sheet name and address
+   * Classify a reference returned by extractCellReferences
    */
-  static parseReference(reference: string, defaultSheet: string): { sheetName: string; address: string } {
-    const parts = reference.split('!');
-    
-    if (parts.length === 2) {
-      let sheetName = parts[0];
-      // Remove workbook reference if present
-      if (sheetName.includes(']')) {
-        sheetName = sheetName.substring(sheetName.indexOf(']') + 1);
-      }
-      // Remove quotes if present
-      sheetName = sheetName.replace(/^'|'$/g, '');
-      
-      return {
-        sheetName: sheetName,
-        address: parts[1]
-      };
+  static getReferenceKind(reference: string): ReferenceKind {
+    if (StructuredReferenceHelper.isStructuredReference(reference)) {
+      return 'structured';
+    }
+    if (reference.endsWith('#')) {
+      return 'spill';
     }
 
+    const { address } = ReferenceGrammar.split(reference);
+    const a1Pattern = /^(\$?[A-Z]{1,3}\$?\d+(?::\$?[A-Z]{1,3}\$?\d+)?|\$?[A-Z]{1,3}:\$?[A-Z]{1,3}|\$?\d+:\$?\d+)$/i;
+    return a1Pattern.test(address) ? 'a1' : 'name';
+  }
+
+  /**
+   * Load the tables, names and spill extents needed to resolve the given
+   * references. Unqualified spill references are taken to be on defaultSheet.
+   */
+  static async loadReferenceLookups(
+    context: Excel.RequestContext,
+    references: string[],
+    defaultSheet: string = ''
+  ): Promise<ReferenceLookups> {
+    const kinds = new Set(references.map(ref => this.getReferenceKind(ref)));
+    const anchors = references
+      .filter(ref => this.getReferenceKind(ref) === 'spill')
+      .map(ref => this.parseReference(ref.slice(0, -1), defaultSheet))
+      .filter(anchor => anchor.sheetName);
+
     return {
-      sheetName: defaultSheet,
-      address: reference
+      tables: kinds.has('structured') ? await StructuredReferenceHelper.loadTables(context) : [],
+      names: kinds.has('name') ? await NamedRangeHelper.loadNames(context) : [],
+      spills: anchors.length > 0 ? await this.loadSpillExtents(context, anchors) : new Map(),
+      sheets: references.some(ref => ReferenceGrammar.is3D(ref)) ? await this.loadSheetNames(context) : []
     };
   }
 
   /**
-   * Check if an address is within a range
+   * Worksheet names in the order their tabs appear
+   */
+  static async loadSheetNames(context: Excel.RequestContext): Promise<string[]> {
+    const worksheets = context.workbook.worksheets;
+    worksheets.load('items/name,items/position');
+    await context.sync();
+
+    return worksheets.items
+      .slice()
+      .sort((a, b) => a.position - b.position)
+      .map(sheet => sheet.name);
+  }
+
+  /**
+   * Load the current extent of the arrays spilled from the given cells, keyed
+   * by Sheet!A1 of the spilling cell. Cells that do not spill are left out.
+   */
+  static async loadSpillExtents(
+    context: Excel.RequestContext,
+    anchors: { sheetName: string; address: string }[]
+  ): Promise<Map<string, string>> {
+    const extents = new Map<string, string>();
+    const loaded = anchors.map(({ sheetName, address }) => {
+      const key = `${sheetName}!${address.replace(/\$/g, '').toUpperCase()}`;
+      const range = context.workbook.worksheets.getItem(sheetName)
+        .getRange(address)
+        .getSpillingToRangeOrNullObject();
+      range.load('address');
+      return { key, sheetName, range };
+    });
+
+    try {
+      await context.sync();
+    } catch (error) {
+      console.error('Error loading spill ranges:', error);
+      return extents;
+    }
+
+    for (const { key, sheetName, range } of loaded) {
+      if (!range.isNullObject) {
+        extents.set(key, `${sheetName}!${range.address.split('!')[1]}`);
+      }
+    }
+
+    return extents;
+  }
+
+  /**
+   * Find every array that spills from a formula inside a loaded range (which
+   * needs its formulas and address loaded), batched through RangeBatch
+   */
+  static async loadSpillRanges(context: Excel.RequestContext, range: Excel.Range): Promise<SpillRange[]> {
+    const cells = this.formulaCells(range);
+    const spills = await RangeBatch.load(context, cells, ({ row, col }) => range.getCell(row, col).getSpillingToRangeOrNullObject(), ['address']);
+
+    return spills
+      .filter((spill): spill is Excel.Range => !!spill && !spill.isNullObject && spill.address.includes(':'))
+      .map(spill => {
+        const address = spill.address.split('!')[1];
+        return { anchor: address.split(':')[0], address };
+      });
+  }
+
+  /**
+   * Find the cells of a loaded range (which needs its formulas and values
+   * loaded) that hold a legacy array formula entered with Ctrl+Shift+Enter,
+   * batched through RangeBatch. Keys are row,col in the range.
+   */
+  static async loadArrayFormulaCells(context: Excel.RequestContext, range: Excel.Range): Promise<Set<string>> {
+    const cells = this.formulaCells(range);
+    const arrays = await RangeBatch.load(context, cells, ({ row, col }) => range.getCell(row, col), ['savedAsArray']);
+    const spills = await RangeBatch.load(context, cells, ({ row, col }) => range.getCell(row, col).getSpillingToRangeOrNullObject(), ['address']);
+
+    return this.findArrayFormulaCells(cells.map(({ row, col }, index) => ({
+      row,
+      col,
+      formula: range.formulas[row][col],
+      value: range.values[row][col],
+      savedAsArray: arrays[index]?.savedAsArray === true,
+      spills: !spills[index]?.isNullObject
+    })));
+  }
+
+  /**
+   * Pick the legacy array formulas out of formula cells. Range.formulas
+   * returns them without braces, and Excel saves dynamic array formulas as
+   * arrays too, even on a single cell such as =SUM(FILTER(...)). So a cell
+   * only counts when it is part of a block entered as one array: it is saved
+   * as an array, does not spill, and a neighbouring cell of the block holds
+   * the very same formula text. A legacy array formula on a single cell
+   * cannot be told apart this way and is not reported.
+   */
+  static findArrayFormulaCells(candidates: ArrayFormulaCandidate[]): Set<string> {
+    // A dynamic array blocked by #SPILL! spills nowhere either
+    const entered = new Map<string, string>();
+    for (const cell of candidates) {
+      if (cell.savedAsArray && !cell.spills && cell.value !== '#SPILL!') {
+        entered.set(`${cell.row},${cell.col}`, cell.formula);
+      }
+    }
+
+    const arrays = new Set<string>();
+    for (const [key, formula] of entered) {
+      const [row, col] = key.split(',').map(Number);
+      const neighbours = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+      if (neighbours.some(([r, c]) => entered.get(`${r},${c}`) === formula)) {
+        arrays.add(key);
+      }
+    }
+    return arrays;
+  }
+
+  /**
+   * Whether one cell holds a legacy array formula, judged from the cells
+   * around it the way loadArrayFormulaCells judges a whole range
+   */
+  private static async isArrayFormulaCell(
+    context: Excel.RequestContext,
+    sheet: Excel.Worksheet,
+    row: number,
+    col: number
+  ): Promise<boolean> {
+    const top = Math.max(row - 1, 0);
+    const left = Math.max(col - 1, 0);
+    const bottom = Math.min(row + 1, RangeRefHelper.MAX_ROWS - 1);
+    const right = Math.min(col + 1, RangeRefHelper.MAX_COLS - 1);
+    const around = sheet.getRangeByIndexes(top, left, bottom - top + 1, right - left + 1);
+    around.load(['formulas', 'values']);
+    await context.sync();
+
+    return (await this.loadArrayFormulaCells(context, around)).has(`${row - top},${col - left}`);
+  }
+
+  /**
+   * Positions of the formulas in a range with its formulas loaded
+   */
+  private static formulaCells(range: Excel.Range): { row: number; col: number }[] {
+    const cells: { row: number; col: number }[] = [];
+    (range.formulas as string[][]).forEach((row, r) => row.forEach((formula, c) => {
+      if (typeof formula === 'string' && formula.startsWith('=')) {
+        cells.push({ row: r, col: c });
+      }
+    }));
+    return cells;
+  }
+
+  /**
+   * Find the spilled array a cell belongs to, if any
+   */
+  static findSpill(spills: SpillRange[], address: string): SpillRange | null {
+    return spills.find(spill => RangeRefHelper.isInRange(spill.address, address)) || null;
+  }
+
+  /**
+   * Resolve a reference to its sheet and address. Structured references are
+   * looked up in the workbook's tables relative to the host cell, and names
+   * are followed to the range they refer to. Returns null when the reference
+   * cannot be resolved or does not refer to cells of a single sheet of this
+   * workbook (see resolveReferences for 3D references).
    */
-  static isInRange(rangeAddress: string, cellAddress: string): boolean {
-    if (!rangeAddress.includes(':')) {
-      return rangeAddress.toUpperCase() === cellAddress.toUpperCase();
+  static resolveReference(
+    reference: string,
+    defaultSheet: string,
+    lookups: ReferenceLookups = { tables: [], names: [], spills: new Map(), sheets: [] },
+    hostAddress?: string
+  ): { sheetName: string; address: string } | null {
+    if (ReferenceGrammar.isExternal(reference) || ReferenceGrammar.is3D(reference)) {
+      return null;
     }
 
-    const [start, end] = rangeAddress.split(':');
-    const startCoords = this.addressToCoords(start);
-    const endCoords = this.addressToCoords(end);
-    const cellCoords = this.addressToCoords(cellAddress);
+    switch (this.getReferenceKind(reference)) {
+      case 'structured': {
+        const host = hostAddress
+          ? { sheet: defaultSheet, ...RangeRefHelper.addressToCoords(hostAddress) }
+          : undefined;
+        const resolved = StructuredReferenceHelper.resolve(reference, lookups.tables, host);
+        return resolved ? this.parseReference(resolved, defaultSheet) : null;
+      }
+
+      case 'name': {
+        const name = NamedRangeHelper.find(lookups.names, reference, defaultSheet);
+        return name && name.address ? this.parseReference(name.address, defaultSheet) : null;
+      }
 
-    return cellCoords.row >= startCoords.row &&
-           cellCoords.row <= endCoords.row &&
-           cellCoords.col >= startCoords.col &&
-           cellCoords.col <= endCoords.col;
+      case 'spill': {
+        // E2# refers to whatever E2 currently spills into
+        const anchor = this.parseReference(reference.slice(0, -1), defaultSheet);
+        const extent = lookups.spills.get(`${anchor.sheetName}!${anchor.address.replace(/\$/g, '').toUpperCase()}`);
+        return extent ? this.parseReference(extent, defaultSheet) : null;
+      }
+
+      default:
+        return this.parseReference(reference, defaultSheet);
+    }
   }
 
   /**
-   * Convert cell address to row/column coordinates
+   * Resolve a reference to every sheet and address it covers: one for most
+   * references, one per sheet of the span for 3D references such as
+   * Jan:Dec!B5 (which need lookups.sheets). External references resolve to
+   * nothing.
    */
-  static addressToCoords(address: string): { row: number; col: number } {
-    const match = address.match(/([A-Z]+)(\d+)/i);
-    if (!match) {
-      throw new Error(`Invalid cell address: ${address}`);
+  static resolveReferences(
+    reference: string,
+    defaultSheet: string,
+    lookups: ReferenceLookups = { tables: [], names: [], spills: new Map(), sheets: [] },
+    hostAddress?: string
+  ): { sheetName: string; address: string }[] {
+    const parts = ReferenceGrammar.split(reference);
+    if (parts.workbook === null && parts.sheet && parts.lastSheet) {
+      return ReferenceGrammar.sheetsInSpan(parts.sheet, parts.lastSheet, lookups.sheets)
+        .map(sheetName => ({ sheetName, address: parts.address }));
     }
 
-    const col = this.columnToNumber(match[1]);
-    const row = parseInt(match[2], 10);
+    const resolved = this.resolveReference(reference, defaultSheet, lookups, hostAddress);
+    return resolved ? [resolved] : [];
+  }
+
+  /**
+   * Fill in the address and location of every reference node in a formula
+   * tree, resolving structured references through the workbook's tables and
+   * names through the workbook's defined names
+   */
+  static async resolveReferenceLocations(
+    context: Excel.RequestContext,
+    tree: FormulaNode,
+    sheetName: string,
+    hostAddress: string
+  ): Promise<void> {
+    const references: FormulaNode[] = [];
+    FormulaParser.forEachNode(tree, node => {
+      if (node.type === 'reference') {
+        references.push(node);
+      }
+    });
+
+    const unresolved = references.filter(node => node.referenceKind !== 'a1' && node.referenceKind !== 'variable');
+    if (unresolved.length === 0) {
+      return;
+    }
+
+    const lookups = await this.loadReferenceLookups(context, unresolved.map(node => node.value), sheetName);
+    const singleCellNames: { node: FormulaNode; request: RangeRequest }[] = [];
+
+    for (const node of unresolved) {
+      if (node.referenceKind === 'name') {
+        const name = NamedRangeHelper.find(lookups.names, node.value, sheetName);
+        if (!name) {
+          continue;
+        }
+
+        if (!name.address) {
+          // Constant or formula name, e.g. TaxRate =0.2
+          node.location = name.refersTo;
+          node.calculatedValue = name.value;
+          continue;
+        }
+      }
 
-    return { row, col };
+      const resolved = this.resolveReference(node.value, sheetName, lookups, hostAddress);
+      if (resolved) {
+        node.address = `${resolved.sheetName}!${resolved.address}`;
+        node.location = node.address;
+
+        if (node.referenceKind === 'name' && !resolved.address.includes(':')) {
+          singleCellNames.push({ node, request: { sheet: resolved.sheetName, address: resolved.address } });
+        }
+      }
+    }
+
+    // Show the value behind single-cell names
+    const ranges = await RangeBatch.load(
+      context,
+      singleCellNames.map(({ request }) => request),
+      ({ sheet, address }) => context.workbook.worksheets.getItem(sheet).getRange(address),
+      ['values']
+    );
+    singleCellNames.forEach(({ node }, index) => {
+      const range = ranges[index];
+      if (range) {
+        node.calculatedValue = range.values[0][0];
+      }
+    });
   }
 
   /**
-   * Convert column letter to number (A=1, B=2, etc.)
+   * Expand calls to named LAMBDA functions (e.g. =AddTax(B2) where AddTax is
+   * defined as =LAMBDA(x, x*1.2)) into their definition, with the LAMBDA's
+   * parameters bound to the call's arguments
    */
-  static columnToNumber(column: string): number {
-    let num = 0;
-    for (let i = 0; i < column.length; i++) {
-      num = num * 26 + (column.charCodeAt(i) - 64);
+  static async expandNamedLambdas(
+    context: Excel.RequestContext,
+    tree: FormulaNode,
+    sheetName: string
+  ): Promise<void> {
+    const isCandidate = (node: FormulaNode) =>
+      node.type === 'function' && !node.definition && !FormulaEvaluator.isSupported(node.value);
+
+    let hasCandidates = false;
+    FormulaParser.forEachNode(tree, node => {
+      hasCandidates = hasCandidates || isCandidate(node);
+    });
+    if (!hasCandidates) {
+      return;
     }
-    return num;
+
+    const names = await NamedRangeHelper.loadNames(context);
+
+    const expand = (node: FormulaNode, expanding: string[]) => {
+      node.children?.forEach(child => expand(child, expanding));
+      if (node.definition) {
+        expand(node.definition, expanding); // A LAMBDA called where it is written
+      }
+      if (!isCandidate(node) || expanding.includes(node.value)) {
+        return; // Recursive LAMBDAs are expanded one level only
+      }
+
+      const name = NamedRangeHelper.find(names, node.value, sheetName);
+      if (!name || !/^=\s*(_xlfn\.)?LAMBDA\(/i.test(name.refersTo)) {
+        return;
+      }
+
+      const { tree: lambda } = FormulaParser.parse(name.refersTo);
+      if (!lambda || lambda.value !== 'LAMBDA') {
+        return;
+      }
+
+      // The definition's spans point into the name's formula, not the cell's
+      FormulaParser.forEachNode(lambda, child => {
+        delete child.start;
+        delete child.end;
+      });
+
+      FormulaParser.bindLambda(lambda, node.children || []);
+      lambda.argumentName = 'definition';
+      lambda.location = `${name.name} ${name.refersTo}`;
+      node.definition = lambda;
+      expand(lambda, [...expanding, node.value]);
+    };
+
+    expand(tree, []);
   }
 
   /**
-   * Convert column number to letter (1=A, 2=B, etc.)
+   * Load the values of every range a formula tree references, keyed by node
+   * address, in a single round trip. Whole-column and whole-row references
+   * are trimmed to the sheet's used range.
    */
-  static numberToColumn(num: number): string {
-    let column = '';
-    while (num > 0) {
-      const remainder = (num - 1) % 26;
-      column = String.fromCharCode(65 + remainder) + column;
-      num = Math.floor((num - 1) / 26);
+  static async loadReferenceValues(
+    context: Excel.RequestContext,
+    tree: FormulaNode,
+    sheetName: string
+  ): Promise<Map<string, any[][]>> {
+    const addresses = new Set<string>();
+    FormulaParser.forEachNode(tree, node => {
+      if (node.type === 'reference' && node.address) {
+        addresses.add(node.address);
+      }
+    });
+
+    const keys = Array.from(addresses);
+    const ranges = await RangeBatch.load(context, keys, key => {
+      const { sheetName: sheet, address } = this.parseReference(key, sheetName);
+      return this.getUsedPart(context.workbook.worksheets.getItem(sheet), address);
+    }, ['values', 'valueTypes']);
+
+    const values = new Map<string, any[][]>();
+    keys.forEach((key, index) => {
+      const range = ranges[index];
+      if (range && !range.isNullObject) {
+        values.set(key, range.values.map((row, r) =>
+          row.map((value, c) => FormulaEvaluator.fromExcelValue(value, range.valueTypes[r][c]))
+        ));
+      }
+    });
+
+    return values;
+  }
+
+  /**
+   * The range at an address. Whole-column and whole-row references stay
+   * anchored at row 1 / column A so that positions line up, but stop at the
+   * end of the sheet's used range.
+   */
+  private static getUsedPart(worksheet: Excel.Worksheet, address: string): Excel.Range {
+    const cleanAddress = address.replace(/\$/g, '');
+    const range = worksheet.getRange(cleanAddress);
+    if (/\d/.test(cleanAddress) && /[A-Z]/i.test(cleanAddress)) {
+      return range;
     }
-    return column;
+
+    const used = worksheet.getUsedRange(true).getBoundingRect(worksheet.getRange('A1'));
+    return range.getIntersectionOrNullObject(
+      /\d/.test(cleanAddress) ? used.getEntireColumn() : used.getEntireRow()
+    );
   }
 
   /**
-   * Get cell address from range and row/col offset
+   * Size and values of a range precedent, from the values loaded for it
    */
-  static getCellAddress(rangeAddress: string, rowOffset: number, colOffset: number): string {
-    const baseAddress = rangeAddress.split(':')[0];
-    const coords = this.addressToCoords(baseAddress);
-    
-    const newRow = coords.row + rowOffset;
-    const newCol = coords.col + colOffset;
-    
-    return `${this.numberToColumn(newCol)}${newRow}`;
+  private static summarizeRange(
+    area: RangeRef,
+    values: any[][],
+    valueTypes: Excel.RangeValueType[][],
+    previewSize: number = 5
+  ): RangeSummary {
+    const summary: RangeSummary = {
+      rows: RangeRefHelper.rowCount(area),
+      columns: RangeRefHelper.columnCount(area),
+      nonEmpty: 0,
+      count: 0,
+      sum: 0,
+      min: null,
+      max: null,
+      errors: 0,
+      preview: []
+    };
+
+    values.forEach((row, r) => row.forEach((value, c) => {
+      if (value === '' || value === null) {
+        return;
+      }
+
+      summary.nonEmpty++;
+      if (summary.preview.length < previewSize) {
+        summary.preview.push(value);
+      }
+
+      if (valueTypes[r][c] === 'Error') {
+        summary.errors++;
+      } else if (typeof value === 'number') {
+        summary.count++;
+        summary.sum += value;
+        summary.min = summary.min === null ? value : Math.min(summary.min, value);
+        summary.max = summary.max === null ? value : Math.max(summary.max, value);
+      }
+    }));
+
+    return summary;
+  }
+
+  /**
+   * The cells of a range precedent that are in use, each as a precedent of
+   * its own. Values are loaded from the range's top-left cell.
+   */
+  private static expandRange(precedent: PrecedentInfo, area: RangeRef, values: any[][]): PrecedentInfo[] {
+    const cells: PrecedentInfo[] = [];
+
+    for (let r = 0; r < values.length && cells.length < this.MAX_EXPANDED_CELLS; r++) {
+      for (let c = 0; c < values[r].length && cells.length < this.MAX_EXPANDED_CELLS; c++) {
+        if (values[r][c] !== '' && values[r][c] !== null) {
+          cells.push({
+            address: RangeRefHelper.cellAddress(area.startRow + r, area.startCol + c),
+            sheet: precedent.sheet,
+            workbook: precedent.workbook,
+            value: values[r][c]
+          });
+        }
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Parse a cell reference into sheet name and address. For external and 3D
+   * references the sheet is the first one named; ReferenceGrammar.split
+   * gives the workbook and the whole span.
+   */
+  static parseReference(reference: string, defaultSheet: string): { sheetName: string; address: string } {
+    const { sheet, address } = ReferenceGrammar.split(reference);
+    return {
+      sheetName: sheet ?? defaultSheet,
+      address
+    };
   }
 
   /**
@@ -286,7 +878,8 @@ export class ExcelHelper {
         ? context.workbook.worksheets.getItem(sheetName)
         : context.workbook.worksheets.getActiveWorksheet();
       
-      const range = sheet.getRange(address);
+      // Comma-separated addresses (e.g. the rows a FILTER kept) select several areas
+      const range = address.includes(',') ? sheet.getRanges(address) : sheet.getRange(address);
       range.select();
       
       await context.sync();
@@ -309,7 +902,7 @@ export class ExcelHelper {
         ? context.workbook.worksheets.getItem(sheetName)
         : context.workbook.worksheets.getActiveWorksheet();
       
-      const range = sheet.getRange(address);
+      const range = address.includes(',') ? sheet.getRanges(address) : sheet.getRange(address);
       range.format.fill.color = color;
       
       await context.sync();
@@ -318,6 +911,47 @@ export class ExcelHelper {
     }
   }
 
+  /**
+   * Remember the cell fills of some ranges so a transient highlight can be
+   * undone with restoreFills
+   */
+  static async saveFills(
+    context: Excel.RequestContext,
+    ranges: { sheet: string; address: string }[]
+  ): Promise<SavedFill[]> {
+    const loaded = ranges.map(({ sheet, address }) => ({
+      sheet,
+      address,
+      properties: context.workbook.worksheets.getItem(sheet).getRange(address).getCellProperties({ format: { fill: { color: true } } })
+    }));
+    await context.sync();
+
+    return loaded.map(({ sheet, address, properties }) => ({
+      sheet,
+      address,
+      colors: properties.value.map(row => row.map(cell => cell.format?.fill?.color || '#FFFFFF'))
+    }));
+  }
+
+  /**
+   * Put back fills saved with saveFills. White is treated as no fill.
+   */
+  static async restoreFills(context: Excel.RequestContext, fills: SavedFill[]): Promise<void> {
+    if (fills.length === 0) {
+      return;
+    }
+
+    for (const fill of fills) {
+      const range = context.workbook.worksheets.getItem(fill.sheet).getRange(fill.address);
+      range.format.fill.clear();
+      range.setCellProperties(fill.colors.map(row => row.map(color =>
+        color.toUpperCase() === '#FFFFFF' ? {} : { format: { fill: { color } } }
+      )));
+    }
+
+    await context.sync();
+  }
+
   /**
    * Get value of a cell or range
    */
@@ -344,7 +978,8 @@ export class ExcelHelper {
   }
 
   /**
-   * Update cell formula
+   * Update cell formula. Office.js cannot enter legacy {=...} array
+   * formulas, so those are refused rather than written as dynamic arrays.
    */
   static async updateCellFormula(
     context: Excel.RequestContext,
@@ -353,6 +988,10 @@ export class ExcelHelper {
     sheetName?: string
   ): Promise<void> {
     try {
+      if (FormulaTokenizer.isArrayFormula(formula)) {
+        throw new Error('Legacy array formulas can only be entered in Excel with Ctrl+Shift+Enter');
+      }
+
       const sheet = sheetName 
         ? context.workbook.worksheets.getItem(sheetName)
         : context.workbook.worksheets.getActiveWorksheet();
@@ -374,9 +1013,17 @@ export class ExcelHelper {
       'SUMIF', 'SUMIFS', 'COUNTIF', 'COUNTIFS', 'AVERAGEIF', 'AVERAGEIFS',
       'MAXIFS', 'MINIFS', 'FILTER', 'SUMPRODUCT'
     ];
-    
-    const upperFormula = formula.toUpperCase();
-    return filteringFunctions.some(func => upperFormula.includes(func + '('));
+
+    // Match whole function names, so MYFILTER( or text such as "FILTER(" don't count
+    try {
+      return FormulaTokenizer.tokenize(formula).some(token =>
+        token.type === 'function' &&
+        filteringFunctions.includes(token.value.replace(/^(?:_XL(?:FN|WS)\.)+/, ''))
+      );
+    } catch (error) {
+      console.error(`Error checking formula ${formula} for filtering functions:`, error);
+      return false;
+    }
   }
 
   /**
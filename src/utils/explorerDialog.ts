@@ -0,0 +1,126 @@
+/**
+ * Explorer Dialog - Opens the Formula Explorer in a resizable Office dialog
+ * and carries messages between it and the taskpane. Dialogs cannot call the
+ * Excel API, so the taskpane does the work and sends the dialog what to show.
+ */
+
+/* global Office */
+
+export interface ExplorerDialogRow {
+  path: string; // Position in the tree, e.g. "0-2-1"; named LAMBDA definitions use "definition"
+  depth: number;
+  icon: string;
+  label: string;
+  tooltip?: string;
+  info: string;
+  value: string;
+  location: string;
+  drillable: boolean; // The location can be explored as a new level
+  hasChildren: boolean;
+  active: boolean;
+  inactive: boolean;
+}
+
+export interface ExplorerDialogSnapshot {
+  breadcrumbs: string[];
+  explorerIndex: number;
+  formula: string;
+  rows: ExplorerDialogRow[];
+  selectedPath: string | null;
+  closeOnEscape: boolean;
+}
+
+// Taskpane to dialog
+export type ExplorerHostMessage = { type: 'snapshot'; snapshot: ExplorerDialogSnapshot };
+
+// Dialog to taskpane
+export type ExplorerDialogMessage =
+  | { type: 'ready' }
+  | { type: 'select'; path: string }
+  | { type: 'drill'; path: string }
+  | { type: 'level'; index: number }
+  | { type: 'close'; key: 'Escape' | 'Enter' };
+
+export class ExplorerDialog {
+  private static dialog: Office.Dialog | null = null;
+
+  static isOpen(): boolean {
+    return this.dialog !== null;
+  }
+
+  /**
+   * Open the dialog page that sits next to the taskpane page. onClosed runs
+   * when the user closes the window themselves.
+   */
+  static open(onMessage: (message: ExplorerDialogMessage) => void, onClosed: () => void): Promise<void> {
+    const url = new URL('dialog.html', window.location.href).toString();
+
+    return new Promise((resolve, reject) => {
+      Office.context.ui.displayDialogAsync(url, { height: 70, width: 60, displayInIframe: true }, result => {
+        if (result.status === Office.AsyncResultStatus.Failed) {
+          reject(result.error);
+          return;
+        }
+
+        const dialog = result.value;
+        this.dialog = dialog;
+        dialog.addEventHandler(Office.EventType.DialogMessageReceived, (arg: { message: string } | { error: number }) => {
+          if ('message' in arg) {
+            onMessage(JSON.parse(arg.message));
+          }
+        });
+        dialog.addEventHandler(Office.EventType.DialogEventReceived, () => {
+          this.dialog = null;
+          onClosed();
+        });
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Send the dialog what the Explorer currently shows
+   */
+  static send(snapshot: ExplorerDialogSnapshot): void {
+    if (!this.dialog) {
+      return;
+    }
+
+    try {
+      const message: ExplorerHostMessage = { type: 'snapshot', snapshot };
+      this.dialog.messageChild(JSON.stringify(message));
+    } catch (error) {
+      console.error('Error sending to explorer dialog:', error);
+    }
+  }
+
+  static close(): void {
+    this.dialog?.close();
+    this.dialog = null;
+  }
+
+  /**
+   * In the dialog: receive messages from the taskpane. Resolves once the
+   * handler is registered, so messages sent after that are not missed.
+   */
+  static listen(onMessage: (message: ExplorerHostMessage) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      Office.context.ui.addHandlerAsync(Office.EventType.DialogParentMessageReceived, arg => {
+        onMessage(JSON.parse(arg.message));
+      }, result => {
+        if (result.status === Office.AsyncResultStatus.Failed) {
+          reject(result.error);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * In the dialog: send a message to the taskpane
+   */
+  static post(message: ExplorerDialogMessage): void {
+    Office.context.ui.messageParent(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Explorer Options - Formula Explorer settings shared by the taskpane and
+ * the pop-out Explorer dialog
+ */
+
+export interface ExplorerOptions {
+  closeOnEscape: boolean; // Escape closes the pop-out Explorer and selects the explored cell again
+  autoNavigateBack: boolean; // Enter closes the pop-out Explorer and keeps the selected precedent rather than navigating back
+}
+
+export class ExplorerOptionsManager {
+  // The dialog runs in its own window, so options live in localStorage rather than in memory
+  private static STORAGE_KEY = 'numeriq.explorerOptions';
+  private static defaults: ExplorerOptions = {
+    closeOnEscape: true,
+    autoNavigateBack: true
+  };
+
+  /**
+   * Get the current options, falling back to the defaults
+   */
+  static getOptions(): ExplorerOptions {
+    try {
+      const stored = window.localStorage.getItem(this.STORAGE_KEY);
+      return { ...this.defaults, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.error('Error reading explorer options:', error);
+      return { ...this.defaults };
+    }
+  }
+
+  /**
+   * Update some of the options
+   */
+  static updateOptions(options: Partial<ExplorerOptions>): void {
+    try {
+      window.localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ ...this.getOptions(), ...options }));
+    } catch (error) {
+      console.error('Error saving explorer options:', error);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Formula Autocomplete - Suggests function, sheet, table and defined names
+ * while a formula is typed, and finds the function call under the cursor
+ */
+
+import { FormulaTokenizer } from './formulaTokenizer';
+import { FormulaLocale, FormulaLocaleSettings } from './formulaLocale';
+import { FunctionCatalog, FunctionSignature, FunctionArgument } from './functionCatalog';
+import { NamedRangeHelper } from './namedRanges';
+import { ReferenceGrammar } from './referenceGrammar';
+
+export interface AutocompleteItems {
+  sheets: string[];
+  tables: string[];
+  names: string[]; // Workbook names and the names scoped to the host sheet
+}
+
+export interface AutocompleteSuggestion {
+  label: string; // Shown in the list
+  insert: string; // Replaces the typed prefix, e.g. SUMIFS( or 'Q1 Data'!
+  kind: 'function' | 'sheet' | 'table' | 'name';
+  detail?: string; // For functions: what the function does
+}
+
+export interface AutocompleteResult {
+  start: number; // Offset of the typed prefix the suggestions replace
+  suggestions: AutocompleteSuggestion[];
+}
+
+export interface FunctionContext {
+  signature: FunctionSignature;
+  argument: FunctionArgument | undefined; // The argument the cursor is in
+  argumentIndex: number;
+}
+
+export class FormulaAutocomplete {
+  private static MAX_SUGGESTIONS = 8;
+
+  // A name being typed, right before the cursor
+  private static PREFIX = /[\p{L}_\\][\p{L}\p{N}_.\\]*$/u;
+
+  // Characters that make the word before the cursor part of something else:
+  // a reference (Sheet1!A, $A), a table column (Sales[Am) or an error (#N)
+  private static NOT_A_NAME_BEFORE = /[\p{L}\p{N}_.\\!$'#[\]]/u;
+
+  /**
+   * Load the sheet, table and defined names the autocomplete offers
+   */
+  static async loadItems(context: Excel.RequestContext, hostSheet: string): Promise<AutocompleteItems> {
+    const worksheets = context.workbook.worksheets;
+    worksheets.load('items/name');
+    const tables = context.workbook.tables;
+    tables.load('items/name');
+    await context.sync();
+
+    const names = await NamedRangeHelper.loadNames(context);
+
+    return {
+      sheets: worksheets.items.map(sheet => sheet.name),
+      tables: tables.items.map(table => table.name),
+      names: names.filter(n => n.scope === null || n.scope === hostSheet).map(n => n.name)
+    };
+  }
+
+  /**
+   * Suggest completions for the name being typed before the cursor. Returns
+   * null when the cursor is not at the end of a name, or inside a string.
+   */
+  static suggest(
+    formula: string,
+    cursor: number,
+    items: AutocompleteItems,
+    locale: FormulaLocaleSettings
+  ): AutocompleteResult | null {
+    const before = formula.substring(0, cursor);
+    if (!formula.startsWith('=') || (before.split('"').length - 1) % 2 === 1) {
+      return null;
+    }
+
+    const match = before.substring(1).match(this.PREFIX);
+    if (!match) {
+      return null;
+    }
+    const start = cursor - match[0].length;
+    if (start > 1 && this.NOT_A_NAME_BEFORE.test(formula[start - 1])) {
+      return null;
+    }
+
+    const prefix = match[0].toUpperCase();
+    const matches = (name: string) => name.toUpperCase().startsWith(prefix);
+    const suggestions: AutocompleteSuggestion[] = [];
+
+    for (const name of FunctionCatalog.names()) {
+      const local = FormulaLocale.localizeFunctionName(name, locale);
+      if (matches(local)) {
+        suggestions.push({ label: local, insert: `${local}(`, kind: 'function', detail: FunctionCatalog.get(name)?.description });
+      }
+    }
+    items.sheets.filter(matches).forEach(sheet => {
+      suggestions.push({ label: sheet, insert: `${ReferenceGrammar.quoteSheet(sheet)}!`, kind: 'sheet' });
+    });
+    items.tables.filter(matches).forEach(table => {
+      suggestions.push({ label: table, insert: table, kind: 'table' });
+    });
+    items.names.filter(matches).forEach(name => {
+      suggestions.push({ label: name, insert: name, kind: 'name' });
+    });
+
+    if (suggestions.length === 0) {
+      return null;
+    }
+
+    suggestions.sort((a, b) => a.label.localeCompare(b.label));
+    return { start, suggestions: suggestions.slice(0, this.MAX_SUGGESTIONS) };
+  }
+
+  /**
+   * Find the innermost known function whose parentheses enclose the cursor,
+   * and which of its arguments the cursor is in
+   */
+  static functionAt(formula: string, cursor: number, locale: FormulaLocaleSettings): FunctionContext | null {
+    if (!formula.startsWith('=')) {
+      return null;
+    }
+
+    interface Call {
+      name: string | null; // null for grouping parentheses and array constants
+      open: number; // Offset just past the opening parenthesis
+      close: number | null;
+      separators: number[];
+    }
+
+    const calls: Call[] = [];
+    const stack: Call[] = [];
+    const { tokens } = FormulaTokenizer.tokenizePartial(formula, { locale });
+
+    tokens.forEach((token, i) => {
+      switch (token.type) {
+        case 'open-paren':
+        case 'array-open': {
+          const previous = tokens[i - 1];
+          const name = token.type === 'open-paren' && previous?.type === 'function' && previous.end === token.start
+            ? previous.value.replace(/^(?:_XL(?:FN|WS)\.)+/, '')
+            : null;
+          const call: Call = { name, open: token.end, close: null, separators: [] };
+          calls.push(call);
+          stack.push(call);
+          break;
+        }
+        case 'close-paren':
+        case 'array-close': {
+          const call = stack.pop();
+          if (call) {
+            call.close = token.start;
+          }
+          break;
+        }
+        case 'separator':
+          stack[stack.length - 1]?.separators.push(token.start);
+          break;
+      }
+    });
+
+    // Calls are in order of their opening parenthesis, so the last match is the innermost
+    const call = calls.filter(c => c.name && c.open <= cursor && (c.close === null || cursor <= c.close)).pop();
+    const signature = call?.name ? FunctionCatalog.get(call.name) : undefined;
+    if (!call || !signature) {
+      return null;
+    }
+
+    const argumentIndex = call.separators.filter(position => position < cursor).length;
+    return {
+      signature,
+      argument: FunctionCatalog.argumentAt(signature.name, argumentIndex, call.separators.length + 1),
+      argumentIndex
+    };
+  }
+}
@@ -0,0 +1,1069 @@
+/**
+ * Formula Evaluator - Computes the value of every node in a formula tree
+ * from the loaded values of the cells it references
+ */
+
+import { FormulaNode } from './formulaParser';
+
+/**
+ * An Excel error value such as #N/A or #DIV/0!
+ */
+export class ExcelError {
+  constructor(readonly code: string) {}
+
+  toString(): string {
+    return this.code;
+  }
+}
+
+// Values are numbers, strings, booleans, null (blank), ExcelError or 2D arrays
+// of those. undefined means the value could not be computed locally.
+export type Scalar = number | string | boolean | null | ExcelError;
+export type Value = Scalar | Scalar[][] | undefined;
+type FunctionImpl = (args: Value[]) => Value;
+
+const NA = new ExcelError('#N/A');
+const VALUE = new ExcelError('#VALUE!');
+const DIV0 = new ExcelError('#DIV/0!');
+const REF = new ExcelError('#REF!');
+const NUM = new ExcelError('#NUM!');
+const CALC = new ExcelError('#CALC!');
+
+export class FormulaEvaluator {
+  // Functions that look at only some of their arguments, so an argument that
+  // could not be computed does not make the whole call unknown
+  private static PARTIAL_FUNCTIONS = new Set(['IF', 'IFS', 'CHOOSE', 'SWITCH', 'IFERROR', 'IFNA', 'XLOOKUP', 'FILTER']);
+
+  private static FUNCTIONS: Record<string, FunctionImpl> = {
+    // Math
+    'SUM': args => FormulaEvaluator.aggregate(args, nums => nums.reduce((a, b) => a + b, 0)),
+    'PRODUCT': args => FormulaEvaluator.aggregate(args, nums => nums.reduce((a, b) => a * b, 1)),
+    'AVERAGE': args => FormulaEvaluator.aggregate(args, nums => nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : DIV0),
+    'MIN': args => FormulaEvaluator.aggregate(args, nums => nums.length ? Math.min(...nums) : 0),
+    'MAX': args => FormulaEvaluator.aggregate(args, nums => nums.length ? Math.max(...nums) : 0),
+    'COUNT': args => FormulaEvaluator.flatten(args).filter(v => typeof v === 'number').length,
+    'COUNTA': args => FormulaEvaluator.flatten(args).filter(v => v !== null && v !== '').length,
+    'COUNTBLANK': args => FormulaEvaluator.flatten(args).filter(v => v === null || v === '').length,
+    'ABS': args => FormulaEvaluator.numeric(args, n => Math.abs(n)),
+    'INT': args => FormulaEvaluator.numeric(args, n => Math.floor(n)),
+    'SQRT': args => FormulaEvaluator.numeric(args, n => n < 0 ? NUM : Math.sqrt(n)),
+    'SIGN': args => FormulaEvaluator.numeric(args, n => Math.sign(n)),
+    'EXP': args => FormulaEvaluator.numeric(args, n => Math.exp(n)),
+    'LN': args => FormulaEvaluator.numeric(args, n => n <= 0 ? NUM : Math.log(n)),
+    'POWER': args => FormulaEvaluator.numeric(args, (n, p) => Math.pow(n, p)),
+    'MOD': args => FormulaEvaluator.numeric(args, (n, d) => d === 0 ? DIV0 : n - d * Math.floor(n / d)),
+    'ROUND': args => FormulaEvaluator.numeric(args, (n, d = 0) => FormulaEvaluator.round(n, d, 'half')),
+    'ROUNDUP': args => FormulaEvaluator.numeric(args, (n, d = 0) => FormulaEvaluator.round(n, d, 'up')),
+    'ROUNDDOWN': args => FormulaEvaluator.numeric(args, (n, d = 0) => FormulaEvaluator.round(n, d, 'down')),
+    'SUMPRODUCT': args => FormulaEvaluator.sumProduct(args),
+    'SUMIF': args => FormulaEvaluator.conditional(
+      [args[0], args[1]], args[2] !== undefined ? args[2] : args[0],
+      values => values.reduce<number>((a, b) => a + (typeof b === 'number' ? b : 0), 0)
+    ),
+    'SUMIFS': args => FormulaEvaluator.conditional(
+      args.slice(1), args[0],
+      values => values.reduce<number>((a, b) => a + (typeof b === 'number' ? b : 0), 0)
+    ),
+    'COUNTIF': args => FormulaEvaluator.conditional([args[0], args[1]], args[0], values => values.length),
+    'COUNTIFS': args => FormulaEvaluator.conditional(args, args[0], values => values.length),
+    'AVERAGEIF': args => FormulaEvaluator.conditional(
+      [args[0], args[1]], args[2] !== undefined ? args[2] : args[0],
+      values => FormulaEvaluator.average(values)
+    ),
+    'AVERAGEIFS': args => FormulaEvaluator.conditional(args.slice(1), args[0], values => FormulaEvaluator.average(values)),
+
+    // Logical
+    'IF': args => FormulaEvaluator.ifFunction(args),
+    'IFS': args => FormulaEvaluator.ifsFunction(args),
+    'IFERROR': args => FormulaEvaluator.errorFunction('IFERROR', args),
+    'IFNA': args => FormulaEvaluator.errorFunction('IFNA', args),
+    'CHOOSE': args => FormulaEvaluator.chooseFunction(args),
+    'SWITCH': args => FormulaEvaluator.switchFunction(args),
+    'AND': args => FormulaEvaluator.logical(args, values => values.every(v => v)),
+    'OR': args => FormulaEvaluator.logical(args, values => values.some(v => v)),
+    'XOR': args => FormulaEvaluator.logical(args, values => values.filter(v => v).length % 2 === 1),
+    'NOT': args => {
+      const value = FormulaEvaluator.toBoolean(FormulaEvaluator.toScalar(args[0]));
+      return value instanceof ExcelError ? value : !value;
+    },
+    'TRUE': () => true,
+    'FALSE': () => false,
+
+    // Information
+    'ISBLANK': args => FormulaEvaluator.toScalar(args[0]) === null,
+    'ISNUMBER': args => typeof FormulaEvaluator.toScalar(args[0]) === 'number',
+    'ISTEXT': args => typeof FormulaEvaluator.toScalar(args[0]) === 'string',
+    'ISERROR': args => FormulaEvaluator.toScalar(args[0]) instanceof ExcelError,
+    'ISNA': args => {
+      const value = FormulaEvaluator.toScalar(args[0]);
+      return value instanceof ExcelError && value.code === '#N/A';
+    },
+    'NA': () => NA,
+
+    // Lookup
+    'VLOOKUP': args => FormulaEvaluator.tableLookup(args, false),
+    'HLOOKUP': args => FormulaEvaluator.tableLookup(args, true),
+    'MATCH': args => FormulaEvaluator.matchFunction(args),
+    'INDEX': args => FormulaEvaluator.indexFunction(args),
+    'XLOOKUP': args => FormulaEvaluator.xlookupFunction(args),
+    'XMATCH': args => FormulaEvaluator.xmatchFunction(args),
+    'ROWS': args => FormulaEvaluator.toArray(args[0]).length,
+    'COLUMNS': args => FormulaEvaluator.toArray(args[0])[0].length,
+
+    // Dynamic arrays
+    'FILTER': args => FormulaEvaluator.filterFunction(args),
+    'SORT': args => FormulaEvaluator.sortFunction(args),
+    'UNIQUE': args => FormulaEvaluator.uniqueFunction(args),
+    'SEQUENCE': args => FormulaEvaluator.sequenceFunction(args),
+
+    // Text
+    'CONCATENATE': args => FormulaEvaluator.text(args, (...parts) => parts.join('')),
+    'CONCAT': args => FormulaEvaluator.concatList(FormulaEvaluator.flatten(args), ''),
+    'TEXTJOIN': args => FormulaEvaluator.textJoin(args),
+    'LEFT': args => FormulaEvaluator.text(args, (s, n = '1') => s.substring(0, Number(n))),
+    'RIGHT': args => FormulaEvaluator.text(args, (s, n = '1') => Number(n) === 0 ? '' : s.slice(-Number(n))),
+    'MID': args => FormulaEvaluator.text(args, (s, start, n) => s.substr(Number(start) - 1, Number(n))),
+    'LEN': args => FormulaEvaluator.text(args, s => s.length),
+    'UPPER': args => FormulaEvaluator.text(args, s => s.toUpperCase()),
+    'LOWER': args => FormulaEvaluator.text(args, s => s.toLowerCase()),
+    'TRIM': args => FormulaEvaluator.text(args, s => s.trim().replace(/ +/g, ' ')),
+    'REPT': args => FormulaEvaluator.text(args, (s, n) => s.repeat(Math.max(0, Math.floor(Number(n))))),
+    'SUBSTITUTE': args => FormulaEvaluator.text(args, (s, from, to, instance) => {
+      if (!from) return s;
+      if (instance === undefined) return s.split(from).join(to);
+      let count = 0;
+      return s.replace(new RegExp(from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), match =>
+        ++count === Number(instance) ? to : match
+      );
+    }),
+    'FIND': args => FormulaEvaluator.text(args, (find, within, start = '1') => {
+      const index = within.indexOf(find, Number(start) - 1);
+      return index < 0 ? VALUE : index + 1;
+    }),
+    'SEARCH': args => FormulaEvaluator.text(args, (find, within, start = '1') => {
+      const index = within.toLowerCase().indexOf(find.toLowerCase(), Number(start) - 1);
+      return index < 0 ? VALUE : index + 1;
+    }),
+    'EXACT': args => FormulaEvaluator.text(args, (a, b) => a === b),
+    'VALUE': args => FormulaEvaluator.toNumber(FormulaEvaluator.toScalar(args[0]))
+  };
+
+  /**
+   * Evaluate a formula tree. Every node whose value can be computed gets its
+   * calculatedValue set; the root's value is returned. References are looked
+   * up by their node address in the given map of loaded range values.
+   */
+  static evaluate(tree: FormulaNode, references: Map<string, any[][]>): any {
+    const value = this.evaluateNode(tree, references);
+    return this.toDisplayValue(value);
+  }
+
+  /**
+   * Check whether a function can be evaluated locally
+   */
+  static isSupported(funcName: string): boolean {
+    return funcName in this.FUNCTIONS || funcName === 'LET' || funcName === 'LAMBDA';
+  }
+
+  /**
+   * Whether IFERROR (any error) or IFNA (#N/A only) catches a single value
+   */
+  static catchesError(funcName: string, value: any): boolean {
+    return value instanceof ExcelError && (funcName === 'IFERROR' || value.code === '#N/A');
+  }
+
+  /**
+   * Format a value for display in the Explorer
+   */
+  static formatValue(value: any): string {
+    if (value === undefined) {
+      return '';
+    }
+    if (value === null) {
+      return '(blank)';
+    }
+    if (Array.isArray(value)) {
+      const array: Scalar[][] = value;
+      const rows = array.slice(0, 5).map(row =>
+        row.slice(0, 5).map(cell => this.formatValue(cell)).join(',') + (row.length > 5 ? ',…' : '')
+      );
+      return `{${rows.join(';')}${array.length > 5 ? ';…' : ''}}`;
+    }
+    if (typeof value === 'number') {
+      return value.toLocaleString('en-US', { maximumFractionDigits: 10 });
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'TRUE' : 'FALSE';
+    }
+    return String(value);
+  }
+
+  /**
+   * Convert a value loaded from Excel (values plus valueTypes) to an evaluator
+   * value, turning error strings into ExcelError
+   */
+  static fromExcelValue(value: any, valueType?: string): any {
+    if (valueType === 'Error' && typeof value === 'string') {
+      return new ExcelError(value);
+    }
+    if (valueType === 'Empty' || value === '') {
+      return null;
+    }
+    return value;
+  }
+
+  private static evaluateNode(node: FormulaNode, references: Map<string, any[][]>): Value {
+    const value = this.computeNode(node, references);
+    if (value !== undefined) {
+      node.calculatedValue = this.toDisplayValue(value);
+    }
+    return value;
+  }
+
+  private static computeNode(node: FormulaNode, references: Map<string, any[][]>): Value {
+    switch (node.type) {
+      case 'literal':
+        return this.parseLiteral(node.value);
+
+      case 'array':
+        return node.rows ? node.rows.map(row => row.map(value => this.parseLiteral(value.value))) : undefined;
+
+      case 'binding':
+        // A LET name or a LAMBDA parameter takes the value bound to it
+        return node.children && node.children.length > 0
+          ? this.evaluateNode(node.children[0], references)
+          : undefined;
+
+      case 'reference': {
+        if (node.referenceKind === 'variable') {
+          return node.binding ? node.binding.calculatedValue : undefined;
+        }
+        if (node.referenceKind === 'name' && node.calculatedValue !== undefined && !node.address) {
+          // Constant names were already given their value
+          return node.calculatedValue;
+        }
+        const values = node.address ? references.get(node.address) : undefined;
+        return values ? values.map(row => row.slice()) : undefined;
+      }
+
+      case 'operator': {
+        const args = (node.children || []).map(child => this.evaluateNode(child, references));
+        if (node.value === '@') {
+          return this.implicitIntersection(node.children![0], args[0]);
+        }
+        return this.applyOperator(node.value, args);
+      }
+
+      case 'function': {
+        const args = (node.children || []).map(child => this.evaluateNode(child, references));
+
+        if (node.definition) {
+          // Call to a named LAMBDA: evaluate its definition with the arguments bound
+          return this.evaluateNode(node.definition, references);
+        }
+        if (node.value === 'LET' || node.value === 'LAMBDA') {
+          // Bindings were evaluated in order above; the calculation comes last.
+          // A LAMBDA with unbound parameters has no value of its own.
+          const unbound = (node.children || []).some(child => child.type === 'binding' && !child.children?.length);
+          return unbound ? undefined : args[args.length - 1];
+        }
+
+        const impl = this.FUNCTIONS[node.value];
+        if (!impl) {
+          return undefined;
+        }
+        if (!this.PARTIAL_FUNCTIONS.has(node.value) && args.some(arg => arg === undefined)) {
+          return undefined;
+        }
+        return impl(args);
+      }
+    }
+
+    return undefined;
+  }
+
+  // ---------------------------------------------------------------------
+  // Operators
+  // ---------------------------------------------------------------------
+
+  /**
+   * "@" reduces an array to its first value. A range of several cells is
+   * intersected with the row or column of the formula's cell, which is not
+   * known here, so its value is left unknown.
+   */
+  private static implicitIntersection(operand: FormulaNode, value: Value): Value {
+    if (!this.isMultiCell(value)) {
+      return value;
+    }
+    return operand.type === 'reference' ? undefined : value[0][0];
+  }
+
+  private static applyOperator(operator: string, args: Value[]): Value {
+    if (args.some(arg => arg === undefined)) {
+      return undefined;
+    }
+
+    if (args.length === 1) {
+      // Unary plus leaves its operand as it is, text included
+      if (operator === '+') {
+        return args[0];
+      }
+      return this.lift([args[0]], ([a]) => {
+        const n = this.toNumber(a);
+        if (n instanceof ExcelError) return n;
+        return operator === '-' ? -n : n / 100;
+      });
+    }
+
+    switch (operator) {
+      case '+': return this.arithmetic(args, (a, b) => a + b);
+      case '-': return this.arithmetic(args, (a, b) => a - b);
+      case '*': return this.arithmetic(args, (a, b) => a * b);
+      case '/': return this.arithmetic(args, (a, b) => b === 0 ? DIV0 : a / b);
+      case '^': return this.arithmetic(args, (a, b) => {
+        const result = Math.pow(a, b);
+        return isFinite(result) ? result : NUM;
+      });
+      case '&': return this.lift(args, ([a, b]) => {
+        if (a instanceof ExcelError) return a;
+        if (b instanceof ExcelError) return b;
+        return this.toText(a) + this.toText(b);
+      });
+      case '=': return this.comparison(args, c => c === 0);
+      case '<>': return this.comparison(args, c => c !== 0);
+      case '<': return this.comparison(args, c => c < 0);
+      case '>': return this.comparison(args, c => c > 0);
+      case '<=': return this.comparison(args, c => c <= 0);
+      case '>=': return this.comparison(args, c => c >= 0);
+    }
+
+    // Reference operators (":", " ", ",") need the workbook's geometry
+    return undefined;
+  }
+
+  private static arithmetic(args: Value[], fn: (a: number, b: number) => Scalar): Value {
+    return this.lift(args, ([a, b]) => {
+      const x = this.toNumber(a);
+      if (x instanceof ExcelError) return x;
+      const y = this.toNumber(b);
+      if (y instanceof ExcelError) return y;
+      return fn(x, y);
+    });
+  }
+
+  private static comparison(args: Value[], test: (comparison: number) => boolean): Value {
+    return this.lift(args, ([a, b]) => {
+      if (a instanceof ExcelError) return a;
+      if (b instanceof ExcelError) return b;
+      return test(this.compare(a, b));
+    });
+  }
+
+  /**
+   * Apply a scalar function element-wise, broadcasting arrays like Excel's
+   * dynamic arrays do
+   */
+  private static lift(args: Value[], fn: (values: Scalar[]) => Scalar): Value {
+    const arrays = args.filter(Array.isArray) as Scalar[][][];
+    if (arrays.length === 0) {
+      return fn(args as Scalar[]);
+    }
+
+    // Single cells behave like scalars
+    if (arrays.every(a => a.length === 1 && a[0].length === 1)) {
+      return fn(args.map(a => this.toScalar(a)));
+    }
+
+    const rows = Math.max(...arrays.map(a => a.length));
+    const cols = Math.max(...arrays.map(a => a[0].length));
+    const result: Scalar[][] = [];
+
+    for (let r = 0; r < rows; r++) {
+      const row: Scalar[] = [];
+      for (let c = 0; c < cols; c++) {
+        row.push(fn(args.map(arg => {
+          if (!Array.isArray(arg)) return arg as Scalar;
+          const rr = arg.length === 1 ? 0 : r;
+          const cc = arg[0].length === 1 ? 0 : c;
+          return arg[rr] && arg[rr][cc] !== undefined ? arg[rr][cc] : NA;
+        })));
+      }
+      result.push(row);
+    }
+
+    return result;
+  }
+
+  // ---------------------------------------------------------------------
+  // Coercion
+  // ---------------------------------------------------------------------
+
+  private static toScalar(value: Value): Scalar {
+    if (Array.isArray(value)) {
+      return value.length > 0 && value[0].length > 0 ? value[0][0] : null;
+    }
+    return value === undefined ? null : value;
+  }
+
+  private static isMultiCell(value: Value): value is Scalar[][] {
+    return Array.isArray(value) && !(value.length === 1 && value[0].length === 1);
+  }
+
+  private static toArray(value: Value): Scalar[][] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    return [[value === undefined ? null : value]];
+  }
+
+  private static toNumber(value: Scalar): number | ExcelError {
+    if (value instanceof ExcelError) return value;
+    if (value === null) return 0;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+
+    const text = value.trim();
+    if (text === '') return VALUE;
+    const percent = text.endsWith('%');
+    const number = Number((percent ? text.slice(0, -1) : text).replace(/,/g, ''));
+    if (isNaN(number)) return VALUE;
+    return percent ? number / 100 : number;
+  }
+
+  private static toText(value: Scalar): string {
+    if (value === null) return '';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (typeof value === 'number') return String(Number(value.toPrecision(15)));
+    return String(value);
+  }
+
+  private static toBoolean(value: Scalar): boolean | ExcelError {
+    if (value instanceof ExcelError) return value;
+    if (typeof value === 'boolean') return value;
+    if (value === null) return false;
+    if (typeof value === 'number') return value !== 0;
+
+    const upper = value.toUpperCase();
+    if (upper === 'TRUE') return true;
+    if (upper === 'FALSE') return false;
+    return VALUE;
+  }
+
+  /**
+   * Compare two scalars the way Excel does: numbers sort before text, text
+   * before logicals, and text comparison ignores case
+   */
+  private static compare(a: Scalar, b: Scalar): number {
+    const rank = (v: Scalar) => typeof v === 'number' ? 0 : typeof v === 'string' ? 1 : 2;
+
+    // Blank takes on the type of the other operand
+    if (a === null) a = typeof b === 'string' ? '' : typeof b === 'boolean' ? false : 0;
+    if (b === null) b = typeof a === 'string' ? '' : typeof a === 'boolean' ? false : 0;
+
+    if (rank(a) !== rank(b)) {
+      return rank(a) - rank(b);
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+      const x = a.toLowerCase();
+      const y = b.toLowerCase();
+      return x < y ? -1 : x > y ? 1 : 0;
+    }
+    const x = Number(a);
+    const y = Number(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+
+  private static blankToZero(value: Value): Value {
+    return value === null ? 0 : value;
+  }
+
+  private static toDisplayValue(value: Value): any {
+    if (Array.isArray(value) && value.length === 1 && value[0].length === 1) {
+      return value[0][0];
+    }
+    return value;
+  }
+
+  // ---------------------------------------------------------------------
+  // Literals
+  // ---------------------------------------------------------------------
+
+  private static parseLiteral(text: string): Scalar {
+    if (text === '') {
+      return null; // Omitted argument
+    }
+    if (text.startsWith('"')) {
+      return text.substring(1, text.length - 1).replace(/""/g, '"');
+    }
+    if (text.startsWith('#')) {
+      return new ExcelError(text.toUpperCase());
+    }
+    const upper = text.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') {
+      return upper === 'TRUE';
+    }
+    const number = Number(text);
+    return isNaN(number) ? VALUE : number;
+  }
+
+  // ---------------------------------------------------------------------
+  // Function helpers
+  // ---------------------------------------------------------------------
+
+  private static flatten(args: Value[]): Scalar[] {
+    const result: Scalar[] = [];
+    for (const arg of args) {
+      if (Array.isArray(arg)) {
+        arg.forEach(row => result.push(...row));
+      } else if (arg !== undefined) {
+        result.push(arg);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Aggregate numbers like SUM does: values inside ranges count only when they
+   * are numbers, while direct arguments are coerced
+   */
+  private static aggregate(args: Value[], fn: (numbers: number[]) => Scalar): Value {
+    const numbers: number[] = [];
+
+    for (const arg of args) {
+      if (Array.isArray(arg)) {
+        for (const row of arg) {
+          for (const cell of row) {
+            if (cell instanceof ExcelError) return cell;
+            if (typeof cell === 'number') numbers.push(cell);
+          }
+        }
+      } else if (arg !== null && arg !== undefined) {
+        const n = this.toNumber(arg);
+        if (n instanceof ExcelError) return n;
+        numbers.push(n);
+      }
+    }
+
+    return fn(numbers);
+  }
+
+  private static numeric(args: Value[], fn: (...numbers: number[]) => Scalar): Value {
+    return this.lift(args, values => {
+      const numbers: number[] = [];
+      for (const value of values) {
+        const n = this.toNumber(value);
+        if (n instanceof ExcelError) return n;
+        numbers.push(n);
+      }
+      return fn(...numbers);
+    });
+  }
+
+  private static text(args: Value[], fn: (...parts: string[]) => Scalar): Value {
+    return this.lift(args, values => {
+      const error = values.find(v => v instanceof ExcelError);
+      if (error) return error;
+      return fn(...values.map(v => this.toText(v)));
+    });
+  }
+
+  private static logical(args: Value[], fn: (values: boolean[]) => boolean): Value {
+    const values: boolean[] = [];
+    for (const value of this.flatten(args)) {
+      if (value === null || (typeof value === 'string' && !/^(TRUE|FALSE)$/i.test(value))) {
+        continue; // Blanks and text inside ranges are ignored
+      }
+      const b = this.toBoolean(value);
+      if (b instanceof ExcelError) return b;
+      values.push(b);
+    }
+    return values.length === 0 ? VALUE : fn(values);
+  }
+
+  private static round(n: number, digits: number, mode: 'half' | 'up' | 'down'): number {
+    const factor = Math.pow(10, Math.trunc(digits));
+    // toPrecision removes binary noise such as 2.675 * 100 = 267.49999999999997
+    const scaled = Number((Math.abs(n) * factor).toPrecision(15));
+    const rounded = mode === 'half' ? Math.round(scaled) : mode === 'up' ? Math.ceil(scaled) : Math.floor(scaled);
+    return Math.sign(n) * rounded / factor;
+  }
+
+  private static average(values: Scalar[]): Scalar {
+    const numbers = values.filter(v => typeof v === 'number') as number[];
+    return numbers.length ? numbers.reduce((a, b) => a + b, 0) / numbers.length : DIV0;
+  }
+
+  private static sumProduct(args: Value[]): Value {
+    const arrays = args.map(arg => this.toArray(arg));
+    const rows = arrays[0].length;
+    const cols = arrays[0][0].length;
+    if (arrays.some(a => a.length !== rows || a[0].length !== cols)) {
+      return VALUE;
+    }
+
+    let total = 0;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        let product = 1;
+        for (const array of arrays) {
+          const cell = array[r][c];
+          if (cell instanceof ExcelError) return cell;
+          product *= typeof cell === 'number' ? cell : 0;
+        }
+        total += product;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Shared implementation of the *IF / *IFS functions. pairs holds
+   * criteria_range, criteria, criteria_range, criteria, ...
+   */
+  private static conditional(pairs: Value[], target: Value, fn: (values: Scalar[]) => Scalar): Value {
+    const targetArray = this.toArray(target);
+    const selected: Scalar[] = [];
+
+    for (let r = 0; r < targetArray.length; r++) {
+      for (let c = 0; c < targetArray[r].length; c++) {
+        let matches = true;
+        for (let i = 0; i + 1 < pairs.length && matches; i += 2) {
+          const range = this.toArray(pairs[i]);
+          const cell = range[r] ? range[r][c] : undefined;
+          matches = cell !== undefined && this.matchesCriteria(cell, this.toScalar(pairs[i + 1]));
+        }
+        if (matches) {
+          selected.push(targetArray[r][c]);
+        }
+      }
+    }
+
+    return fn(selected);
+  }
+
+  /**
+   * Test a value against a criteria such as 5, ">10", "<>North" or "A*"
+   */
+  private static matchesCriteria(value: Scalar, criteria: Scalar): boolean {
+    if (typeof criteria !== 'string') {
+      return this.compare(value, criteria) === 0 && value !== null;
+    }
+
+    const match = criteria.match(/^(<=|>=|<>|=|<|>)?(.*)$/)!;
+    const operator = match[1] || '=';
+    const operandText = match[2];
+    const operandNumber = this.toNumber(operandText);
+    const operand: Scalar = operandText !== '' && typeof operandNumber === 'number' ? operandNumber : operandText;
+
+    if (operator === '=' || operator === '<>') {
+      let equal: boolean;
+      if (operand === '') {
+        equal = value === null || value === '';
+      } else if (typeof operand === 'string') {
+        equal = typeof value === 'string' && this.wildcardMatch(value, operand);
+      } else {
+        equal = typeof value === 'number' && value === operand;
+      }
+      return operator === '=' ? equal : !equal;
+    }
+
+    // Ordered comparisons only match values of the same type
+    if (value === null || typeof value !== typeof operand) {
+      return false;
+    }
+    const comparison = this.compare(value, operand);
+    switch (operator) {
+      case '<': return comparison < 0;
+      case '>': return comparison > 0;
+      case '<=': return comparison <= 0;
+      case '>=': return comparison >= 0;
+    }
+    return false;
+  }
+
+  private static wildcardMatch(text: string, pattern: string): boolean {
+    const regex = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/~\*/g, '\u0001')
+      .replace(/~\?/g, '\u0002')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')
+      .replace(/\u0001/g, '\\*')
+      .replace(/\u0002/g, '\\?');
+    return new RegExp(`^${regex}$`, 'i').test(text);
+  }
+
+  // ---------------------------------------------------------------------
+  // Logical functions
+  // ---------------------------------------------------------------------
+
+  private static ifFunction(args: Value[]): Value {
+    if (args[0] === undefined) return undefined;
+
+    // An array condition picks a branch for each of its elements
+    if (this.isMultiCell(args[0])) {
+      const branches = [args.length > 1 ? args[1] : true, args.length > 2 ? args[2] : false];
+      if (branches.some(branch => branch === undefined)) return undefined;
+      return this.lift([args[0], ...branches], ([value, ifTrue, ifFalse]) => {
+        const condition = this.toBoolean(value);
+        if (condition instanceof ExcelError) return condition;
+        const result = condition ? ifTrue : ifFalse;
+        return result === null ? 0 : result;
+      });
+    }
+
+    const condition = this.toBoolean(this.toScalar(args[0]));
+    if (condition instanceof ExcelError) return condition;
+    if (condition) {
+      return this.blankToZero(args.length > 1 ? args[1] : true);
+    }
+    return args.length > 2 ? this.blankToZero(args[2]) : false;
+  }
+
+  /**
+   * IFERROR and IFNA. An array is checked element by element.
+   */
+  private static errorFunction(funcName: string, args: Value[]): Value {
+    if (args[0] === undefined) return undefined;
+
+    if (!this.isMultiCell(args[0])) {
+      const value = this.toScalar(args[0]);
+      return this.catchesError(funcName, value) ? this.blankToZero(args[1]) : value;
+    }
+
+    const array = args[0];
+    if (!array.some(row => row.some(value => this.catchesError(funcName, value)))) return array;
+    if (args[1] === undefined) return undefined;
+    return this.lift([array, args[1]], ([value, fallback]) =>
+      this.catchesError(funcName, value) ? (fallback === null ? 0 : fallback) : value
+    );
+  }
+
+  private static ifsFunction(args: Value[]): Value {
+    for (let i = 0; i + 1 < args.length; i += 2) {
+      if (args[i] === undefined) return undefined;
+      const condition = this.toBoolean(this.toScalar(args[i]));
+      if (condition instanceof ExcelError) return condition;
+      if (condition) return this.blankToZero(args[i + 1]);
+    }
+    return NA;
+  }
+
+  private static chooseFunction(args: Value[]): Value {
+    if (args[0] === undefined) return undefined;
+    const index = this.toNumber(this.toScalar(args[0]));
+    if (index instanceof ExcelError) return index;
+    const i = Math.floor(index);
+    return i >= 1 && i < args.length ? this.blankToZero(args[i]) : VALUE;
+  }
+
+  private static switchFunction(args: Value[]): Value {
+    if (args[0] === undefined) return undefined;
+    const expression = this.toScalar(args[0]);
+    if (expression instanceof ExcelError) return expression;
+
+    let i = 1;
+    for (; i + 1 < args.length; i += 2) {
+      if (args[i] === undefined) return undefined;
+      if (this.compare(expression, this.toScalar(args[i])) === 0) {
+        return this.blankToZero(args[i + 1]);
+      }
+    }
+
+    // An odd argument left over is the default
+    return i < args.length ? this.blankToZero(args[i]) : NA;
+  }
+
+  // ---------------------------------------------------------------------
+  // Lookup functions
+  // ---------------------------------------------------------------------
+
+  /**
+   * Find the position (0-based) of a value in a one-dimensional list.
+   * matchType 0 is an exact match (with wildcards for text), 1 finds the
+   * largest value <= lookup in ascending data, -1 the smallest value >= lookup
+   * in descending data.
+   */
+  static findPosition(list: any[], lookup: any, matchType: number): number {
+    if (matchType === 0) {
+      return list.findIndex(item => {
+        if (typeof lookup === 'string' && typeof item === 'string') {
+          return this.wildcardMatch(item, lookup);
+        }
+        return item !== null && this.compare(item, lookup) === 0;
+      });
+    }
+
+    let position = -1;
+    for (let i = 0; i < list.length; i++) {
+      const item = list[i];
+      if (item === null || item instanceof ExcelError || typeof item !== typeof lookup) {
+        continue;
+      }
+      const comparison = this.compare(item, lookup);
+      if (matchType > 0 ? comparison <= 0 : comparison >= 0) {
+        position = i;
+      } else {
+        break;
+      }
+    }
+    return position;
+  }
+
+  /**
+   * Find the position (0-based) of a value the way XLOOKUP and XMATCH do.
+   * matchMode 0 is exact, -1 exact or next smaller, 1 exact or next larger,
+   * 2 wildcard. A negative searchMode searches from the end.
+   */
+  static findLookupPosition(list: any[], lookup: any, matchMode: number = 0, searchMode: number = 1): number {
+    const indexes = list.map((_, i) => i);
+    if (searchMode < 0) {
+      indexes.reverse();
+    }
+
+    const exact = indexes.find(i => {
+      const item = list[i];
+      if (matchMode === 2 && typeof lookup === 'string' && typeof item === 'string') {
+        return this.wildcardMatch(item, lookup);
+      }
+      return item !== null && !(item instanceof ExcelError) && this.compare(item, lookup) === 0;
+    });
+    if (exact !== undefined || matchMode === 0 || matchMode === 2) {
+      return exact ?? -1;
+    }
+
+    // Next smaller or larger item, whatever the sort order
+    let best = -1;
+    for (const i of indexes) {
+      const item = list[i];
+      if (item === null || item instanceof ExcelError || typeof item !== typeof lookup) {
+        continue;
+      }
+      const comparison = this.compare(item, lookup);
+      if (matchMode < 0 ? comparison > 0 : comparison < 0) {
+        continue;
+      }
+      if (best < 0 || (matchMode < 0 ? this.compare(item, list[best]) > 0 : this.compare(item, list[best]) < 0)) {
+        best = i;
+      }
+    }
+    return best;
+  }
+
+  private static xlookupFunction(args: Value[]): Value {
+    if (args.slice(0, 3).some(arg => arg === undefined)) return undefined;
+    const lookup = this.toScalar(args[0]);
+    if (lookup instanceof ExcelError) return lookup;
+
+    const lookupArray = this.toArray(args[1]);
+    const returnArray = this.toArray(args[2]);
+    const matchMode = args.length > 4 ? this.toNumber(this.toScalar(args[4])) : 0;
+    const searchMode = args.length > 5 ? this.toNumber(this.toScalar(args[5])) : 1;
+    if (matchMode instanceof ExcelError) return matchMode;
+    if (searchMode instanceof ExcelError) return searchMode;
+
+    // Vertical lookups return a row of the return array, horizontal ones a column
+    const vertical = lookupArray.length > 1 || lookupArray[0].length === 1;
+    const list = vertical ? lookupArray.map(row => row[0]) : lookupArray[0];
+    const position = this.findLookupPosition(list, lookup, matchMode, searchMode);
+
+    if (position < 0) {
+      return args.length > 3 && args[3] !== null ? args[3] : NA;
+    }
+    if (vertical) {
+      return position < returnArray.length ? [returnArray[position]] : VALUE;
+    }
+    return position < returnArray[0].length ? returnArray.map(row => [row[position]]) : VALUE;
+  }
+
+  private static xmatchFunction(args: Value[]): Value {
+    const lookup = this.toScalar(args[0]);
+    if (lookup instanceof ExcelError) return lookup;
+    const array = this.toArray(args[1]);
+    const matchMode = args.length > 2 ? this.toNumber(this.toScalar(args[2])) : 0;
+    const searchMode = args.length > 3 ? this.toNumber(this.toScalar(args[3])) : 1;
+    if (matchMode instanceof ExcelError) return matchMode;
+    if (searchMode instanceof ExcelError) return searchMode;
+
+    const list = array.length === 1 ? array[0] : array.map(row => row[0]);
+    const position = this.findLookupPosition(list, lookup, matchMode, searchMode);
+    return position < 0 ? NA : position + 1;
+  }
+
+  private static tableLookup(args: Value[], horizontal: boolean): Value {
+    const lookup = this.toScalar(args[0]);
+    if (lookup instanceof ExcelError) return lookup;
+    const table = this.toArray(args[1]);
+    const index = this.toNumber(this.toScalar(args[2]));
+    if (index instanceof ExcelError) return index;
+    const approximate = args.length > 3 ? this.toBoolean(this.toScalar(args[3])) : true;
+    if (approximate instanceof ExcelError) return approximate;
+
+    const keys = horizontal ? table[0] : table.map(row => row[0]);
+    const position = this.findPosition(keys, lookup, approximate ? 1 : 0);
+    if (position < 0) return NA;
+
+    const offset = Math.floor(index) - 1;
+    if (offset < 0) return VALUE;
+    const value = horizontal ? table[offset]?.[position] : table[position][offset];
+    return value === undefined ? REF : value;
+  }
+
+  private static matchFunction(args: Value[]): Value {
+    const lookup = this.toScalar(args[0]);
+    if (lookup instanceof ExcelError) return lookup;
+    const array = this.toArray(args[1]);
+    const matchType = args.length > 2 ? this.toNumber(this.toScalar(args[2])) : 1;
+    if (matchType instanceof ExcelError) return matchType;
+
+    // MATCH works on a single row or column
+    const list = array.length === 1 ? array[0] : array.map(row => row[0]);
+    const position = this.findPosition(list, lookup, Math.sign(matchType));
+    return position < 0 ? NA : position + 1;
+  }
+
+  private static indexFunction(args: Value[]): Value {
+    const array = this.toArray(args[0]);
+    const rowArg = this.toNumber(this.toScalar(args[1]));
+    if (rowArg instanceof ExcelError) return rowArg;
+    const colArg = args.length > 2 ? this.toNumber(this.toScalar(args[2])) : 0;
+    if (colArg instanceof ExcelError) return colArg;
+
+    let row = Math.floor(rowArg);
+    let col = Math.floor(colArg);
+
+    // A single row or column can be indexed with one number
+    if (args.length <= 2 && array.length === 1) {
+      col = row;
+      row = 1;
+    }
+
+    if (row < 0 || col < 0 || row > array.length || col > array[0].length) {
+      return REF;
+    }
+    if (row === 0 && col === 0) return array;
+    if (row === 0) return array.map(r => [r[col - 1]]);
+    if (col === 0) return array.length === 1 || array[0].length === 1 ? array[row - 1][0] : [array[row - 1]];
+    return array[row - 1][col - 1];
+  }
+
+  // ---------------------------------------------------------------------
+  // Dynamic array functions
+  // ---------------------------------------------------------------------
+
+  /**
+   * Indexes (0-based) of the rows, or columns when include is a single row,
+   * that FILTER keeps
+   */
+  static filterIncluded(include: any): { byColumn: boolean; kept: number[] } | ExcelError {
+    const grid = this.toArray(include);
+    const byColumn = grid.length === 1 && grid[0].length > 1;
+    const flags = byColumn ? grid[0] : grid.map(row => row[0]);
+    const kept: number[] = [];
+
+    for (let i = 0; i < flags.length; i++) {
+      const flag = this.toBoolean(flags[i]);
+      if (flag instanceof ExcelError) return flag;
+      if (flag) kept.push(i);
+    }
+
+    return { byColumn, kept };
+  }
+
+  private static filterFunction(args: Value[]): Value {
+    if (args[0] === undefined || args[1] === undefined) return undefined;
+    const array = this.toArray(args[0]);
+    const included = this.filterIncluded(args[1]);
+    if (included instanceof ExcelError) return included;
+
+    if (included.kept.length === 0) {
+      return args.length > 2 ? this.blankToZero(args[2]) : CALC;
+    }
+    return included.byColumn
+      ? array.map(row => included.kept.map(i => row[i]))
+      : included.kept.map(i => array[i]);
+  }
+
+  private static sortFunction(args: Value[]): Value {
+    const array = this.toArray(args[0]);
+    const sortIndex = args.length > 1 && args[1] !== null ? this.toNumber(this.toScalar(args[1])) : 1;
+    const sortOrder = args.length > 2 && args[2] !== null ? this.toNumber(this.toScalar(args[2])) : 1;
+    const byColumn = args.length > 3 ? this.toBoolean(this.toScalar(args[3])) : false;
+    if (sortIndex instanceof ExcelError) return sortIndex;
+    if (sortOrder instanceof ExcelError) return sortOrder;
+    if (byColumn instanceof ExcelError) return byColumn;
+
+    const lines = byColumn ? this.transpose(array) : array.map(row => row.slice());
+    const key = Math.floor(sortIndex) - 1;
+    if (key < 0 || key >= lines[0].length) return VALUE;
+
+    lines.sort((a, b) => this.compare(a[key], b[key]) * (sortOrder < 0 ? -1 : 1));
+    return byColumn ? this.transpose(lines) : lines;
+  }
+
+  private static uniqueFunction(args: Value[]): Value {
+    const array = this.toArray(args[0]);
+    const byColumn = args.length > 1 ? this.toBoolean(this.toScalar(args[1])) : false;
+    const exactlyOnce = args.length > 2 ? this.toBoolean(this.toScalar(args[2])) : false;
+    if (byColumn instanceof ExcelError) return byColumn;
+    if (exactlyOnce instanceof ExcelError) return exactlyOnce;
+
+    const lines = byColumn ? this.transpose(array) : array;
+    const sameLine = (a: Scalar[], b: Scalar[]) => a.every((cell, i) => this.compare(cell, b[i]) === 0);
+    const counts = lines.map(line => lines.filter(other => sameLine(line, other)).length);
+    const result = lines.filter((line, i) =>
+      exactlyOnce ? counts[i] === 1 : lines.findIndex(other => sameLine(line, other)) === i
+    );
+
+    if (result.length === 0) return CALC;
+    return byColumn ? this.transpose(result) : result;
+  }
+
+  private static sequenceFunction(args: Value[]): Value {
+    const numbers = [1, 1, 1, 1].map((fallback, i) =>
+      args.length > i && args[i] !== null ? this.toNumber(this.toScalar(args[i])) : fallback
+    );
+    const error = numbers.find(n => n instanceof ExcelError);
+    if (error) return error;
+
+    const [rows, cols, start, step] = numbers as number[];
+    if (rows < 1 || cols < 1) return CALC;
+
+    const result: Scalar[][] = [];
+    for (let r = 0; r < Math.floor(rows); r++) {
+      const row: Scalar[] = [];
+      for (let c = 0; c < Math.floor(cols); c++) {
+        row.push(start + (r * Math.floor(cols) + c) * step);
+      }
+      result.push(row);
+    }
+    return result;
+  }
+
+  private static transpose(array: Scalar[][]): Scalar[][] {
+    return array[0].map((_, c) => array.map(row => row[c]));
+  }
+
+  // ---------------------------------------------------------------------
+  // Text functions
+  // ---------------------------------------------------------------------
+
+  private static concatList(values: Scalar[], delimiter: string, ignoreEmpty: boolean = false): Scalar {
+    const parts: string[] = [];
+    for (const value of values) {
+      if (value instanceof ExcelError) return value;
+      const text = this.toText(value);
+      if (ignoreEmpty && text === '') continue;
+      parts.push(text);
+    }
+    return parts.join(delimiter);
+  }
+
+  private static textJoin(args: Value[]): Value {
+    const delimiter = this.toScalar(args[0]);
+    if (delimiter instanceof ExcelError) return delimiter;
+    const ignoreEmpty = this.toBoolean(this.toScalar(args[1]));
+    if (ignoreEmpty instanceof ExcelError) return ignoreEmpty;
+    return this.concatList(this.flatten(args.slice(2)), this.toText(delimiter), ignoreEmpty);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Formula Highlighter - Splits formula text into colored segments and gives
+ * each cell reference the color Excel uses for it while editing
+ */
+
+import { FormulaTokenizer, FormulaToken, FormulaTokenType } from './formulaTokenizer';
+import { FormulaLocaleSettings } from './formulaLocale';
+import { StructuredReferenceHelper } from './structuredReferences';
+import { ExcelHelper } from './excelHelper';
+import { RangeRefHelper } from './rangeRef';
+
+export type HighlightKind = FormulaTokenType | 'text' | 'invalid';
+
+export interface HighlightSegment {
+  text: string;
+  kind: HighlightKind;
+  color?: string; // For cell references: the reference's color
+}
+
+export interface ReferenceHighlight {
+  reference: string; // As written, e.g. Sheet2!$A$1:B5
+  sheet: string;
+  address: string;
+  color: string; // Text color in the editor
+  fill: string; // Lighter tint used on the worksheet
+}
+
+export class FormulaHighlighter {
+  // Excel's reference colors, in the order it hands them out
+  private static REFERENCE_COLORS = [
+    { color: '#0000FF', fill: '#CCE0FF' },
+    { color: '#008000', fill: '#CCEFCC' },
+    { color: '#9900CC', fill: '#EBCCF5' },
+    { color: '#800000', fill: '#F0CCCC' },
+    { color: '#00808C', fill: '#CCEBEE' },
+    { color: '#CC6600', fill: '#FFE0C2' },
+    { color: '#CC0099', fill: '#F8CCEB' }
+  ];
+
+  // Larger ranges, and whole rows or columns, are colored in the editor only
+  private static MAX_FILL_CELLS = 10000;
+
+  /**
+   * Split a formula into segments by token type. Text after the first
+   * tokenizer error, such as an unterminated string, is marked invalid.
+   */
+  static highlight(formula: string, locale?: FormulaLocaleSettings): HighlightSegment[] {
+    if (!formula.startsWith('=')) {
+      return [{ text: formula, kind: 'text' }];
+    }
+
+    const { tokens, errorPosition } = FormulaTokenizer.tokenizePartial(formula, { locale });
+    const colors = this.referenceColors(tokens);
+    const segments: HighlightSegment[] = [];
+    let pos = 0;
+
+    for (const token of tokens) {
+      if (token.start > pos) {
+        segments.push({ text: formula.substring(pos, token.start), kind: 'text' });
+      }
+      const kind = token.type === 'operator' && token.value === ' ' ? 'text' : token.type;
+      segments.push({ text: formula.substring(token.start, token.end), kind, color: colors.get(token)?.color });
+      pos = token.end;
+    }
+
+    const end = errorPosition ?? formula.length;
+    if (end > pos) {
+      segments.push({ text: formula.substring(pos, end), kind: 'text' });
+    }
+    if (errorPosition !== null) {
+      segments.push({ text: formula.substring(errorPosition), kind: 'invalid' });
+    }
+
+    return segments;
+  }
+
+  /**
+   * The ranges a formula's cell references point to, each with its color.
+   * Ranges too large to fill are left out.
+   */
+  static referenceHighlights(formula: string, hostSheet: string, locale?: FormulaLocaleSettings): ReferenceHighlight[] {
+    if (!formula.startsWith('=')) {
+      return [];
+    }
+
+    const { tokens } = FormulaTokenizer.tokenizePartial(formula, { locale });
+    const highlights: ReferenceHighlight[] = [];
+    const seen = new Set<string>();
+
+    this.referenceColors(tokens).forEach(({ color, fill }, token) => {
+      // A spill reference colors the formula it spills from
+      const { sheetName, address } = ExcelHelper.parseReference(token.value.replace(/#$/, ''), hostSheet);
+      const plain = address.replace(/\$/g, '').toUpperCase();
+      const key = `${sheetName}!${plain}`.toUpperCase();
+      if (seen.has(key) || !this.isFillable(plain)) {
+        return;
+      }
+      seen.add(key);
+      highlights.push({ reference: token.value, sheet: sheetName, address: plain, color, fill });
+    });
+
+    return highlights;
+  }
+
+  /**
+   * Give every cell reference a color. The same reference written twice
+   * gets the same color; the palette repeats after seven references.
+   */
+  private static referenceColors(tokens: FormulaToken[]): Map<FormulaToken, { color: string; fill: string }> {
+    const colors = new Map<FormulaToken, { color: string; fill: string }>();
+    const indexes = new Map<string, number>();
+
+    for (const token of tokens) {
+      if (token.type !== 'reference' || StructuredReferenceHelper.isStructuredReference(token.value)) {
+        continue;
+      }
+      const key = token.value.replace(/\$/g, '').toUpperCase();
+      if (!indexes.has(key)) {
+        indexes.set(key, indexes.size);
+      }
+      colors.set(token, this.REFERENCE_COLORS[indexes.get(key)! % this.REFERENCE_COLORS.length]);
+    }
+
+    return colors;
+  }
+
+  private static isFillable(address: string): boolean {
+    const ref = RangeRefHelper.parse(address);
+    return !!ref && ref.kind === 'cells' && RangeRefHelper.cellCount(ref) <= this.MAX_FILL_CELLS;
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Formula Locale - Separators and function names of localized Excel formulas
+ */
+
+import { FormulaTokenizer } from './formulaTokenizer';
+
+/* global Excel */
+
+export interface FormulaLocaleSettings {
+  name: string; // Culture name, e.g. de-DE
+  decimalSeparator: string;
+  listSeparator: string; // Between function arguments
+  arrayColumnSeparator: string; // Between values in a row of an array constant
+  arrayRowSeparator: string;
+  functionNames: Record<string, string>; // English name -> localized name, including TRUE and FALSE
+  errorLiterals: Record<string, string>; // English error literal -> localized literal
+}
+
+type LanguageSettings = Pick<FormulaLocaleSettings, 'arrayColumnSeparator' | 'functionNames' | 'errorLiterals'>;
+
+export class FormulaLocale {
+  // The form Excel returns from Range.formulas, whatever the user's language
+  static INVARIANT: FormulaLocaleSettings = {
+    name: 'en-US',
+    decimalSeparator: '.',
+    listSeparator: ',',
+    arrayColumnSeparator: ',',
+    arrayRowSeparator: ';',
+    functionNames: {},
+    errorLiterals: {}
+  };
+
+  // Languages whose function names differ from English, the only ones
+  // formulas are localized for. Functions missing here keep their English name.
+  private static LANGUAGES: Record<string, LanguageSettings> = {
+    'de': {
+      arrayColumnSeparator: '.',
+      functionNames: {
+        'ABS': 'ABS', 'ADDRESS': 'ADRESSE', 'AGGREGATE': 'AGGREGAT', 'AND': 'UND', 'AVERAGE': 'MITTELWERT',
+        'AVERAGEIF': 'MITTELWERTWENN', 'AVERAGEIFS': 'MITTELWERTWENNS', 'CEILING': 'OBERGRENZE', 'CHOOSE': 'WAHL',
+        'COLUMN': 'SPALTE', 'COLUMNS': 'SPALTEN', 'CONCAT': 'TEXTKETTE', 'CONCATENATE': 'VERKETTEN', 'COUNT': 'ANZAHL',
+        'COUNTA': 'ANZAHL2', 'COUNTBLANK': 'ANZAHLLEEREZELLEN', 'COUNTIF': 'ZÄHLENWENN', 'COUNTIFS': 'ZÄHLENWENNS',
+        'DATE': 'DATUM', 'DAY': 'TAG', 'DROP': 'WEGLASSEN', 'EDATE': 'EDATUM', 'EOMONTH': 'MONATSENDE', 'EXACT': 'IDENTISCH',
+        'FALSE': 'FALSCH', 'FILTER': 'FILTER', 'FIND': 'FINDEN', 'FLOOR': 'UNTERGRENZE', 'HLOOKUP': 'WVERWEIS',
+        'HSTACK': 'HSTAPELN', 'IF': 'WENN', 'IFERROR': 'WENNFEHLER', 'IFNA': 'WENNNV', 'IFS': 'WENNS', 'INDEX': 'INDEX',
+        'INDIRECT': 'INDIREKT', 'INT': 'GANZZAHL', 'IRR': 'IKV', 'ISBLANK': 'ISTLEER', 'ISERR': 'ISTFEHL',
+        'ISERROR': 'ISTFEHLER', 'ISLOGICAL': 'ISTLOG', 'ISNA': 'ISTNV', 'ISNONTEXT': 'ISTKTEXT', 'ISNUMBER': 'ISTZAHL',
+        'ISREF': 'ISTBEZUG', 'ISTEXT': 'ISTTEXT', 'LARGE': 'KGRÖSSTE', 'LEFT': 'LINKS', 'LEN': 'LÄNGE', 'LOOKUP': 'VERWEIS',
+        'LOWER': 'KLEIN', 'MATCH': 'VERGLEICH', 'MAX': 'MAX', 'MAXIFS': 'MAXWENNS', 'MEDIAN': 'MEDIAN', 'MID': 'TEIL',
+        'MIN': 'MIN', 'MINIFS': 'MINWENNS', 'MOD': 'REST', 'MONTH': 'MONAT', 'NA': 'NV', 'NETWORKDAYS': 'NETTOARBEITSTAGE',
+        'NOT': 'NICHT', 'NOW': 'JETZT', 'NPV': 'NBW', 'OFFSET': 'BEREICH.VERSCHIEBEN', 'OR': 'ODER', 'PMT': 'RMZ',
+        'POWER': 'POTENZ', 'PRODUCT': 'PRODUKT', 'PROPER': 'GROSS2', 'RAND': 'ZUFALLSZAHL', 'RANDBETWEEN': 'ZUFALLSBEREICH',
+        'RANK': 'RANG', 'REPLACE': 'ERSETZEN', 'REPT': 'WIEDERHOLEN', 'RIGHT': 'RECHTS', 'ROUND': 'RUNDEN',
+        'ROUNDDOWN': 'ABRUNDEN', 'ROUNDUP': 'AUFRUNDEN', 'ROW': 'ZEILE', 'ROWS': 'ZEILEN', 'SEARCH': 'SUCHEN',
+        'SEQUENCE': 'SEQUENZ', 'SIGN': 'VORZEICHEN', 'SMALL': 'KKLEINSTE', 'SORT': 'SORTIEREN', 'SORTBY': 'SORTIERENNACH',
+        'SQRT': 'WURZEL', 'STDEV': 'STABW', 'STDEV.S': 'STABW.S', 'SUBSTITUTE': 'WECHSELN', 'SUBTOTAL': 'TEILERGEBNIS',
+        'SUM': 'SUMME', 'SUMIF': 'SUMMEWENN', 'SUMIFS': 'SUMMEWENNS', 'SUMPRODUCT': 'SUMMENPRODUKT', 'SWITCH': 'ERSTERWERT',
+        'TAKE': 'NEHMEN', 'TEXT': 'TEXT', 'TEXTJOIN': 'TEXTVERKETTEN', 'TODAY': 'HEUTE', 'TRANSPOSE': 'MTRANS',
+        'TRIM': 'GLÄTTEN', 'TRUE': 'WAHR', 'UNIQUE': 'EINDEUTIG', 'UPPER': 'GROSS', 'VALUE': 'WERT', 'VAR': 'VARIANZ',
+        'VLOOKUP': 'SVERWEIS', 'VSTACK': 'VSTAPELN', 'WEEKDAY': 'WOCHENTAG', 'WORKDAY': 'ARBEITSTAG', 'XLOOKUP': 'XVERWEIS',
+        'XMATCH': 'XVERGLEICH', 'XOR': 'XODER', 'YEAR': 'JAHR'
+      },
+      errorLiterals: { '#N/A': '#NV', '#VALUE!': '#WERT!', '#REF!': '#BEZUG!', '#NUM!': '#ZAHL!' }
+    },
+    'fr': {
+      arrayColumnSeparator: '.',
+      functionNames: {
+        'ABS': 'ABS', 'ADDRESS': 'ADRESSE', 'AGGREGATE': 'AGREGAT', 'AND': 'ET', 'AVERAGE': 'MOYENNE',
+        'AVERAGEIF': 'MOYENNE.SI', 'AVERAGEIFS': 'MOYENNE.SI.ENS', 'CHOOSE': 'CHOISIR', 'COLUMN': 'COLONNE',
+        'COLUMNS': 'COLONNES', 'CONCAT': 'CONCAT', 'CONCATENATE': 'CONCATENER', 'COUNT': 'NB', 'COUNTA': 'NBVAL',
+        'COUNTBLANK': 'NB.VIDE', 'COUNTIF': 'NB.SI', 'COUNTIFS': 'NB.SI.ENS', 'DATE': 'DATE', 'DAY': 'JOUR',
+        'DROP': 'EXCLURE', 'EDATE': 'MOIS.DECALER', 'EOMONTH': 'FIN.MOIS', 'EXACT': 'EXACT', 'FALSE': 'FAUX',
+        'FILTER': 'FILTRE', 'FIND': 'TROUVE', 'HLOOKUP': 'RECHERCHEH', 'HSTACK': 'ASSEMB.H', 'IF': 'SI',
+        'IFERROR': 'SIERREUR', 'IFNA': 'SI.NON.DISP', 'IFS': 'SI.CONDITIONS', 'INDEX': 'INDEX', 'INDIRECT': 'INDIRECT',
+        'INT': 'ENT', 'IRR': 'TRI', 'ISBLANK': 'ESTVIDE', 'ISERR': 'ESTERR', 'ISERROR': 'ESTERREUR',
+        'ISLOGICAL': 'ESTLOGIQUE', 'ISNA': 'ESTNA', 'ISNONTEXT': 'ESTNONTEXTE', 'ISNUMBER': 'ESTNUM', 'ISREF': 'ESTREF',
+        'ISTEXT': 'ESTTEXTE', 'LARGE': 'GRANDE.VALEUR', 'LEFT': 'GAUCHE', 'LEN': 'NBCAR', 'LOOKUP': 'RECHERCHE',
+        'LOWER': 'MINUSCULE', 'MATCH': 'EQUIV', 'MAX': 'MAX', 'MAXIFS': 'MAX.SI.ENS', 'MEDIAN': 'MEDIANE', 'MID': 'STXT',
+        'MIN': 'MIN', 'MINIFS': 'MIN.SI.ENS', 'MOD': 'MOD', 'MONTH': 'MOIS', 'NA': 'NA', 'NETWORKDAYS': 'NB.JOURS.OUVRES',
+        'NOT': 'NON', 'NOW': 'MAINTENANT', 'NPV': 'VAN', 'OFFSET': 'DECALER', 'OR': 'OU', 'PMT': 'VPM',
+        'POWER': 'PUISSANCE', 'PRODUCT': 'PRODUIT', 'PROPER': 'NOMPROPRE', 'RAND': 'ALEA', 'RANDBETWEEN': 'ALEA.ENTRE.BORNES',
+        'RANK': 'RANG', 'REPLACE': 'REMPLACER', 'REPT': 'REPT', 'RIGHT': 'DROITE', 'ROUND': 'ARRONDI',
+        'ROUNDDOWN': 'ARRONDI.INF', 'ROUNDUP': 'ARRONDI.SUP', 'ROW': 'LIGNE', 'ROWS': 'LIGNES', 'SEARCH': 'CHERCHE',
+        'SEQUENCE': 'SEQUENCE', 'SIGN': 'SIGNE', 'SMALL': 'PETITE.VALEUR', 'SORT': 'TRIER', 'SORTBY': 'TRIERPAR',
+        'SQRT': 'RACINE', 'STDEV': 'ECARTYPE', 'SUBSTITUTE': 'SUBSTITUE', 'SUBTOTAL': 'SOUS.TOTAL', 'SUM': 'SOMME',
+        'SUMIF': 'SOMME.SI', 'SUMIFS': 'SOMME.SI.ENS', 'SUMPRODUCT': 'SOMMEPROD', 'SWITCH': 'SI.MULTIPLE', 'TAKE': 'PRENDRE',
+        'TEXT': 'TEXTE', 'TEXTJOIN': 'JOINDRE.TEXTE', 'TODAY': 'AUJOURDHUI', 'TRANSPOSE': 'TRANSPOSE', 'TRIM': 'SUPPRESPACE',
+        'TRUE': 'VRAI', 'UNIQUE': 'UNIQUE', 'UPPER': 'MAJUSCULE', 'VALUE': 'CNUM', 'VAR': 'VAR', 'VLOOKUP': 'RECHERCHEV',
+        'VSTACK': 'ASSEMB.V', 'WEEKDAY': 'JOURSEM', 'WORKDAY': 'SERIE.JOUR.OUVRE', 'XLOOKUP': 'RECHERCHEX',
+        'XMATCH': 'EQUIVX', 'XOR': 'OUX', 'YEAR': 'ANNEE'
+      },
+      errorLiterals: { '#VALUE!': '#VALEUR!', '#NAME?': '#NOM?', '#NUM!': '#NOMBRE!', '#NULL!': '#NUL!' }
+    }
+  };
+
+  private static detected: FormulaLocaleSettings | null = null;
+
+  /**
+   * Detect the formula locale from the workbook's culture settings. Falls
+   * back to the invariant locale where cultureInfo is not available.
+   */
+  static async detect(context: Excel.RequestContext): Promise<FormulaLocaleSettings> {
+    if (this.detected) {
+      return this.detected;
+    }
+
+    try {
+      const culture = context.application.cultureInfo;
+      culture.load('name');
+      culture.numberFormat.load('numberDecimalSeparator');
+      await context.sync();
+
+      this.detected = this.forCulture(culture.name, culture.numberFormat.numberDecimalSeparator);
+    } catch (error) {
+      console.error('Error detecting formula locale:', error);
+      this.detected = this.INVARIANT;
+    }
+
+    return this.detected;
+  }
+
+  /**
+   * Build the settings for a culture. Cultures that use a decimal comma
+   * separate arguments with semicolons. Cultures whose language has no
+   * function names in LANGUAGES get the invariant locale, rather than
+   * localized separators around English names.
+   */
+  static forCulture(name: string, decimalSeparator: string): FormulaLocaleSettings {
+    const language = this.LANGUAGES[name.split('-')[0].toLowerCase()];
+    if (!language) {
+      return this.INVARIANT;
+    }
+
+    return {
+      name,
+      decimalSeparator,
+      listSeparator: decimalSeparator === ',' ? ';' : ',',
+      arrayColumnSeparator: language.arrayColumnSeparator,
+      arrayRowSeparator: ';',
+      functionNames: language.functionNames,
+      errorLiterals: language.errorLiterals
+    };
+  }
+
+  /**
+   * Localized name of a function, or the English name where the locale has none
+   */
+  static localizeFunctionName(funcName: string, locale: FormulaLocaleSettings): string {
+    return locale.functionNames[funcName.toUpperCase()] || funcName;
+  }
+
+  /**
+   * Convert a formula as the user typed it in their locale to the invariant form
+   */
+  static toInvariant(formula: string, locale: FormulaLocaleSettings): string {
+    return this.translate(formula, locale, this.INVARIANT);
+  }
+
+  /**
+   * Convert an invariant formula (Range.formulas) to the form shown in the user's locale
+   */
+  static toLocal(formula: string, locale: FormulaLocaleSettings): string {
+    return this.translate(formula, this.INVARIANT, locale);
+  }
+
+  /**
+   * Re-render a formula's separators, numbers, function names, booleans and
+   * error literals for another locale. Everything else, including strings,
+   * sheet names and whitespace, is copied as written.
+   */
+  private static translate(formula: string, from: FormulaLocaleSettings, to: FormulaLocaleSettings): string {
+    if (!FormulaTokenizer.isFormula(formula) || from === to) {
+      return formula;
+    }
+
+    let result = '';
+    let pos = 0;
+    let braceDepth = 0;
+
+    for (const token of FormulaTokenizer.tokenize(formula, { locale: from })) {
+      result += formula.substring(pos, token.start);
+      const original = formula.substring(token.start, token.end);
+
+      switch (token.type) {
+        case 'separator':
+          result += braceDepth > 0 ? to.arrayColumnSeparator : to.listSeparator;
+          break;
+        case 'array-row-separator':
+          result += to.arrayRowSeparator;
+          break;
+        case 'number':
+          result += token.value.replace('.', to.decimalSeparator);
+          break;
+        case 'function':
+        case 'boolean': {
+          // Keep storage prefixes such as _xlfn. and the text of unknown functions
+          const prefix = token.value.match(/^(?:_XL(?:FN|WS)\.)*/)![0];
+          const name = token.value.substring(prefix.length);
+          const known = name in to.functionNames || name in from.functionNames || token.type === 'boolean';
+          result += known ? original.substring(0, prefix.length) + (to.functionNames[name] || name) : original;
+          break;
+        }
+        case 'error':
+          result += to.errorLiterals[token.value] || token.value;
+          break;
+        case 'array-open':
+          braceDepth++;
+          result += original;
+          break;
+        case 'array-close':
+          braceDepth--;
+          result += original;
+          break;
+        default:
+          result += original;
+      }
+
+      pos = token.end;
+    }
+
+    return result + formula.substring(pos);
+  }
+}
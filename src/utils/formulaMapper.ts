@@ -2,6 +2,10 @@
  * Formula Mapper - Apply color schemes to reveal formula patterns
  */
 
+import { FormulaTokenizer } from './formulaTokenizer';
+import { ExcelHelper } from './excelHelper';
+import { RangeRef, RangeRefHelper } from './rangeRef';
+
 export interface FormulaMapColors {
   uniqueFormula: string;
   copiedFormula: string;
@@ -18,7 +22,9 @@ export interface FormulaCellInfo {
   hasExternalRef: boolean;
   hasNoReferences: boolean;
   isHardcoded: boolean;
+  isArrayFormula: boolean; // Legacy array formula entered with Ctrl+Shift+Enter
   color: string;
+  spillRange?: string; // A1:B5 the formula's dynamic array spills into
 }
 
 export class FormulaMapper {
@@ -45,16 +51,39 @@ export class FormulaMapper {
     const sheet = context.workbook.worksheets.getItem(sheetName);
     const usedRange = sheet.getUsedRange();
 
-    usedRange.load(['formulas', 'values', 'address', 'rowCount', 'columnCount', 'format/fill/color']);
+    usedRange.load(['formulas', 'formulasR1C1', 'values', 'address', 'rowCount', 'columnCount', 'format/fill/color']);
     await context.sync();
 
     // Store original colors
     this.storeOriginalColors(usedRange, sheetName);
 
     const formulas = usedRange.formulas as string[][];
+    const formulasR1C1 = usedRange.formulasR1C1 as string[][];
     const values = usedRange.values as any[][];
     const cellInfos: FormulaCellInfo[] = [];
 
+    // Spilled cells report their value as their formula; they take the color
+    // of the formula they spill from rather than the hardcoded-value color
+    const origin = RangeRefHelper.parse(usedRange.address) as RangeRef;
+    const spills = new Map<string, { address: string; cells: { row: number; col: number }[] }>();
+    const spilledCells = new Set<string>();
+    for (const spill of await ExcelHelper.loadSpillRanges(context, usedRange)) {
+      const anchor = RangeRefHelper.parse(spill.anchor) as RangeRef;
+      const area = RangeRefHelper.parse(spill.address) as RangeRef;
+      const cells: { row: number; col: number }[] = [];
+      for (let row = area.startRow; row <= area.endRow; row++) {
+        for (let col = area.startCol; col <= area.endCol; col++) {
+          if (row !== anchor.startRow || col !== anchor.startCol) {
+            cells.push({ row: row - origin.startRow, col: col - origin.startCol });
+            spilledCells.add(`${row - origin.startRow},${col - origin.startCol}`);
+          }
+        }
+      }
+      spills.set(`${anchor.startRow - origin.startRow},${anchor.startCol - origin.startCol}`, { address: spill.address, cells });
+    }
+
+    const arrayCells = await ExcelHelper.loadArrayFormulaCells(context, usedRange);
+
     // First pass: categorize all formulas
     const formulaMap = new Map<string, { count: number; cells: { row: number; col: number }[] }>();
 
@@ -63,7 +92,11 @@ export class FormulaMapper {
         const formula = formulas[row][col];
         const value = values[row][col];
 
-        if (!formula || !formula.startsWith('=')) {
+        if (!FormulaTokenizer.isFormula(formula)) {
+          if (spilledCells.has(`${row},${col}`)) {
+            continue;
+          }
+
           // Hardcoded value
           if (value !== null && value !== undefined && value !== '') {
             const cellRange = sheet.getRangeByIndexes(row, col, 1, 1);
@@ -74,7 +107,9 @@ export class FormulaMapper {
           continue;
         }
 
-        const normalized = this.normalizeFormula(formula);
+        // Legacy array formulas are kept apart from the same formula entered normally
+        const formulaR1C1 = formulasR1C1[row][col];
+        const normalized = this.normalizeFormula(arrayCells.has(`${row},${col}`) ? `{${formulaR1C1}}` : formulaR1C1);
         
         if (!formulaMap.has(normalized)) {
           formulaMap.set(normalized, { count: 0, cells: [] });
@@ -94,7 +129,7 @@ export class FormulaMapper {
       
       for (const { row, col } of entry.cells) {
         const formula = formulas[row][col];
-        const address = this.getAddress(row, col);
+        const address = RangeRefHelper.cellAddress(row + 1, col + 1);
         
         const hasExternalRef = this.hasExternalReference(formula);
         const hasNoReferences = !this.hasAnyReferences(formula);
@@ -119,9 +154,15 @@ export class FormulaMapper {
           }
         }
 
+        const spill = spills.get(`${row},${col}`);
+
         if (color) {
           const cellRange = sheet.getRangeByIndexes(row, col, 1, 1);
           cellRange.format.fill.color = color;
+
+          spill?.cells.forEach(cell => {
+            sheet.getRangeByIndexes(cell.row, cell.col, 1, 1).format.fill.color = color;
+          });
         }
 
         cellInfos.push({
@@ -131,7 +172,9 @@ export class FormulaMapper {
           hasExternalRef,
           hasNoReferences,
           isHardcoded: false,
-          color
+          isArrayFormula: arrayCells.has(`${row},${col}`),
+          color,
+          spillRange: spill?.address
         });
       }
     }
@@ -176,7 +219,7 @@ export class FormulaMapper {
     // Restore original colors
     for (let row = 0; row < usedRange.rowCount; row++) {
       for (let col = 0; col < usedRange.columnCount; col++) {
-        const address = this.getAddress(row, col);
+        const address = RangeRefHelper.cellAddress(row + 1, col + 1);
         const key = `${sheetName}!${address}`;
         const originalColor = this.originalColors.get(key);
 
@@ -206,7 +249,7 @@ export class FormulaMapper {
 
     for (let row = 0; row < rowCount; row++) {
       for (let col = 0; col < columnCount; col++) {
-        const address = this.getAddress(row, col);
+        const address = RangeRefHelper.cellAddress(row + 1, col + 1);
         const key = `${sheetName}!${address}`;
         
         // This would need to be loaded from the range
@@ -219,78 +262,58 @@ export class FormulaMapper {
   }
 
   /**
-   * Normalize a formula for comparison
+   * Normalize an R1C1 formula for comparison. Copies of a formula have the
+   * same R1C1 text, so only insignificant whitespace and the case of
+   * function names need to be evened out. Legacy array formulas keep their
+   * braces.
    */
-  private static normalizeFormula(formula: string): string {
-    if (!formula || !formula.startsWith('=')) {
-      return formula;
+  private static normalizeFormula(formulaR1C1: string): string {
+    if (!FormulaTokenizer.isFormula(formulaR1C1)) {
+      return formulaR1C1;
     }
 
-    // Replace cell references with placeholders while preserving structure
-    let normalized = formula;
-
-    // Replace absolute and relative references
-    normalized = normalized.replace(/\$?[A-Z]+\$?\d+/g, 'REF');
-    
-    // Replace range references
-    normalized = normalized.replace(/REF:REF/g, 'RANGE');
-
-    return normalized;
+    try {
+      const tokens = FormulaTokenizer.tokenize(formulaR1C1, { referenceStyle: 'R1C1' });
+      const normalized = '=' + tokens.map(token => token.value).join('');
+      return FormulaTokenizer.isArrayFormula(formulaR1C1) ? `{${normalized}}` : normalized;
+    } catch (error) {
+      return formulaR1C1;
+    }
   }
 
   /**
    * Check if formula has external references
    */
   private static hasExternalReference(formula: string): boolean {
-    if (!formula || !formula.startsWith('=')) {
+    if (!FormulaTokenizer.isFormula(formula)) {
       return false;
     }
 
-    // Check for workbook references: [Book1]Sheet1!A1
-    if (formula.includes('[') && formula.includes(']')) {
-      return true;
-    }
-
-    // Check for sheet references: Sheet1!A1
-    if (formula.includes('!')) {
-      return true;
+    // Workbook ([Book1]Sheet1!A1) and sheet (Sheet1!A1) references carry a "!";
+    // table references such as Sales[Amount] do not
+    try {
+      return FormulaTokenizer.tokenize(formula).some(token =>
+        (token.type === 'reference' || token.type === 'name') && token.value.includes('!')
+      );
+    } catch (error) {
+      return formula.includes('!');
     }
-
-    return false;
   }
 
   /**
    * Check if formula has any cell references
    */
   private static hasAnyReferences(formula: string): boolean {
-    if (!formula || !formula.startsWith('=')) {
+    if (!FormulaTokenizer.isFormula(formula)) {
       return false;
     }
 
-    // Check for cell references
-    const pattern = /[A-Z]+\d+/;
-    return pattern.test(formula);
-  }
-
-  /**
-   * Get cell address from row and column indices
-   */
-  private static getAddress(row: number, col: number): string {
-    const columnLetter = this.numberToColumn(col + 1);
-    return `${columnLetter}${row + 1}`;
-  }
-
-  /**
-   * Convert column number to letter
-   */
-  private static numberToColumn(num: number): string {
-    let column = '';
-    while (num > 0) {
-      const remainder = (num - 1) % 26;
-      column = String.fromCharCode(65 + remainder) + column;
-      num = Math.floor((num - 1) / 26);
+    // Check for cell and table references and defined names
+    try {
+      return FormulaTokenizer.tokenize(formula).some(token => token.type === 'reference' || token.type === 'name');
+    } catch (error) {
+      return /[A-Z]+\d+/.test(formula);
     }
-    return column;
   }
 
   /**
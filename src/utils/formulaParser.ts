@@ -2,377 +2,1044 @@
  * Formula Parser - Parses Excel formulas into a logical tree structure
  */
 
+import { FormulaTokenizer, FormulaToken, FormulaParseError, FormulaDiagnosticCode, FormulaTokenizeOptions } from './formulaTokenizer';
+import { StructuredReferenceHelper } from './structuredReferences';
+import { ExcelError, FormulaEvaluator } from './formulaEvaluator';
+import { ExcelHelper } from './excelHelper';
+import { FunctionCatalog } from './functionCatalog';
+import { ReferenceNotation } from './referenceNotation';
+import { ReferenceGrammar } from './referenceGrammar';
+import { RangeRef, RangeRefHelper } from './rangeRef';
+
 export interface FormulaNode {
-  type: 'function' | 'reference' | 'operator' | 'literal' | 'array';
+  type: 'function' | 'reference' | 'operator' | 'literal' | 'array' | 'binding';
   value: string;
   children?: FormulaNode[];
+  rows?: FormulaNode[][]; // For array constants: the literal values, row by row
   address?: string;
+  referenceKind?: 'a1' | 'structured' | 'name' | 'spill' | 'variable'; // For references: A1 syntax, a table reference like Sales[Amount], a defined name, a spill reference like E2# or a LET/LAMBDA variable
+  binding?: FormulaNode; // For variables: the LET or LAMBDA binding that defines them
+  definition?: FormulaNode; // For calls to named LAMBDAs: the LAMBDA with its parameters bound to the call's arguments
   calculatedValue?: any;
-  isActive?: boolean; // For IF, IFS, CHOOSE, SWITCH - indicates which branch is active
-  targetLocation?: string; // For VLOOKUP, OFFSET, INDEX, INDIRECT
+  isActive?: boolean; // For IF, IFS, CHOOSE, SWITCH, IFERROR, XLOOKUP, FILTER - indicates which branch is active
+  targetLocation?: string; // For lookups, OFFSET, INDEX, INDIRECT - Sheet!A1 of the cell the call returns (FILTER: the rows it kept)
+  targetNotFound?: boolean; // For lookups and FILTER - nothing matched
   argumentName?: string; // For function arguments: logical_test, value_if_true, reference, rows, cols, etc.
   location?: string; // Sheet!Address where this value comes from
+  start?: number; // Offset of the node's first character in the original formula
+  end?: number; // Offset just past the node's last character
+}
+
+export interface FormulaDiagnostic {
+  code: FormulaDiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface FormulaParseOptions extends FormulaTokenizeOptions {
+  hostCell?: string; // For R1C1 formulas: the cell holding the formula, so references get A1 addresses
+}
+
+export interface FormulaParseResult {
+  tree: FormulaNode | null; // null when the formula could not be parsed
+  diagnostics: FormulaDiagnostic[];
+  arrayFormula: boolean; // A legacy {=...} array formula entered with Ctrl+Shift+Enter
+}
+
+/**
+ * Cursor over the token list produced by FormulaTokenizer
+ */
+class TokenStream {
+  private index = 0;
+
+  constructor(private tokens: FormulaToken[], readonly length: number) {}
+
+  peek(): FormulaToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  next(): FormulaToken | undefined {
+    return this.tokens[this.index++];
+  }
+
+  peekType(type: FormulaToken['type']): boolean {
+    const token = this.peek();
+    return !!token && token.type === type;
+  }
+
+  peekOperator(operator: string): boolean {
+    const token = this.peek();
+    return !!token && token.type === 'operator' && token.value === operator;
+  }
+
+  expect(type: FormulaToken['type']): FormulaToken {
+    const token = this.next();
+    if (!token) {
+      const code = type === 'close-paren' ? 'unbalanced-paren' : 'unexpected-end';
+      throw new FormulaParseError(`Expected ${type} at end of formula`, this.length, code);
+    }
+    if (token.type !== type) {
+      throw new FormulaParseError(`Expected ${type} at position ${token.start}`, token.start);
+    }
+    return token;
+  }
 }
 
 export class FormulaParser {
-  // Map of function names to their argument names
-  private static FUNCTION_ARG_NAMES: Record<string, string[]> = {
-    'IF': ['logical_test', 'value_if_true', 'value_if_false'],
-    'IFS': ['logical_test1', 'value_if_true1', 'logical_test2', 'value_if_true2'],
-    'OFFSET': ['reference', 'rows', 'cols', 'height', 'width'],
-    'VLOOKUP': ['lookup_value', 'table_array', 'col_index_num', 'range_lookup'],
-    'HLOOKUP': ['lookup_value', 'table_array', 'row_index_num', 'range_lookup'],
-    'INDEX': ['array', 'row_num', 'column_num'],
-    'MATCH': ['lookup_value', 'lookup_array', 'match_type'],
-    'SUMIF': ['range', 'criteria', 'sum_range'],
-    'SUMIFS': ['sum_range', 'criteria_range1', 'criteria1'],
-    'COUNTIF': ['range', 'criteria'],
-    'COUNTIFS': ['criteria_range1', 'criteria1'],
-    'INDIRECT': ['ref_text', 'a1'],
-    'CHOOSE': ['index_num', 'value1', 'value2'],
-    'SWITCH': ['expression', 'value1', 'result1'],
-    'SUM': ['number1', 'number2'],
-    'AVERAGE': ['number1', 'number2'],
-    'MAX': ['number1', 'number2'],
-    'MIN': ['number1', 'number2'],
+  // Binary operator precedence, lowest first. Unary minus, percent and the
+  // reference operators bind tighter than all of these.
+  static BINARY_PRECEDENCE: Record<string, number> = {
+    '=': 1, '<>': 1, '<': 1, '>': 1, '<=': 1, '>=': 1,
+    '&': 2,
+    '+': 3, '-': 3,
+    '*': 4, '/': 4,
+    '^': 5
   };
 
   /**
-   * Parse a formula string into a tree structure
+   * Parse a formula string into a tree structure. Syntax errors are reported
+   * as diagnostics (with a null tree) rather than thrown. Formulas typed in a
+   * locale are parsed into the same tree as their invariant form, with
+   * English function names. R1C1 references keep their R1C1 text as value.
+   * Legacy {=...} array formulas parse as the formula inside the braces.
    */
-  static parse(formula: string): FormulaNode {
-    if (!formula || !formula.startsWith('=')) {
+  static parse(formula: string, options: FormulaParseOptions = {}): FormulaParseResult {
+    if (!FormulaTokenizer.isFormula(formula)) {
       return {
-        type: 'literal',
-        value: formula
+        tree: {
+          type: 'literal',
+          value: formula,
+          start: 0,
+          end: formula ? formula.length : 0
+        },
+        diagnostics: [],
+        arrayFormula: false
       };
     }
 
-    const cleanFormula = formula.substring(1); // Remove leading =
-    return this.parseExpression(cleanFormula);
-  }
+    const arrayFormula = FormulaTokenizer.isArrayFormula(formula);
+    const length = arrayFormula ? formula.length - 1 : formula.length;
 
-  private static parseExpression(expr: string): FormulaNode {
-    expr = expr.trim();
+    try {
+      const stream = new TokenStream(FormulaTokenizer.tokenize(formula, options), length);
+      const tree = this.parseExpression(stream, 1);
 
-    // Check if it's a function
-    const funcMatch = expr.match(/^([A-Z_][A-Z0-9_.]*)\s*\(/i);
-    if (funcMatch) {
-      return this.parseFunction(expr);
-    }
+      const trailing = stream.peek();
+      if (trailing) {
+        const code = trailing.type === 'close-paren' ? 'unbalanced-paren' : 'unexpected-token';
+        throw new FormulaParseError(`Unexpected '${trailing.value}' at position ${trailing.start}`, trailing.start, code);
+      }
+
+      const diagnostics = this.validateArgumentCounts(tree);
+      this.resolveScopes(tree, new Map());
+      if (options.referenceStyle === 'R1C1') {
+        this.resolveR1C1Addresses(tree, options.hostCell);
+      }
+      return { tree, diagnostics, arrayFormula };
+    } catch (error) {
+      if (!(error instanceof FormulaParseError)) {
+        throw error;
+      }
 
-    // Check if it's a cell reference
-    if (this.isCellReference(expr)) {
       return {
-        type: 'reference',
-        value: expr,
-        address: expr
+        tree: null,
+        diagnostics: [{
+          code: error.code,
+          severity: 'error',
+          message: error.message,
+          start: error.position,
+          end: Math.min(error.position + 1, length)
+        }],
+        arrayFormula
       };
     }
+  }
 
-    // Check if it's a literal (number, string, boolean)
-    if (this.isLiteral(expr)) {
-      return {
-        type: 'literal',
-        value: expr
-      };
+  /**
+   * Visit a node and everything below it, including the definitions of
+   * named LAMBDA calls
+   */
+  static forEachNode(node: FormulaNode, visit: (node: FormulaNode) => void): void {
+    visit(node);
+    node.children?.forEach(child => this.forEachNode(child, visit));
+    if (node.definition) {
+      this.forEachNode(node.definition, visit);
     }
+  }
 
-    // Check for operators
-    const operatorMatch = this.findTopLevelOperator(expr);
-    if (operatorMatch) {
-      return {
-        type: 'operator',
-        value: operatorMatch.operator,
-        children: [
-          this.parseExpression(expr.substring(0, operatorMatch.index)),
-          this.parseExpression(expr.substring(operatorMatch.index + operatorMatch.operator.length))
-        ]
-      };
+  /**
+   * Give the cell references of an R1C1 formula the A1 address they point
+   * to from the host cell; without a host cell they cannot be located
+   */
+  private static resolveR1C1Addresses(tree: FormulaNode, hostCell?: string): void {
+    this.forEachNode(tree, node => {
+      if (node.type === 'reference' && node.referenceKind === 'a1') {
+        node.address = hostCell ? ReferenceNotation.referenceToA1(node.value, hostCell) : undefined;
+      }
+    });
+  }
+
+  /**
+   * Turn LET name/value pairs and LAMBDA parameters into binding nodes and
+   * link every use of a variable to the binding in scope
+   */
+  static resolveScopes(node: FormulaNode, scope: Map<string, FormulaNode>): void {
+    if (node.definition) {
+      // A LAMBDA called where it is written: its parameters take the call's arguments
+      node.children?.forEach(child => this.resolveScopes(child, scope));
+      this.resolveScopes(node.definition, scope);
+      this.bindLambda(node.definition, node.children || []);
+      return;
+    }
+
+    if (node.type === 'function' && (node.value === 'LET' || node.value === 'LAMBDA') && node.children && node.children.length > 0) {
+      const inner = new Map(scope);
+      const children = node.children;
+      const calculation = children[children.length - 1];
+      const bindings: FormulaNode[] = [];
+
+      if (node.value === 'LET') {
+        // LET(name1, name_value1, [name2, name_value2, ...], calculation)
+        for (let i = 0; i + 2 < children.length; i += 2) {
+          const value = children[i + 1];
+          this.resolveScopes(value, inner);
+
+          const index = i / 2 + 1;
+          value.argumentName = `name_value${index}`;
+          const binding = this.bindingNode(children[i], [value], `name${index}`);
+          inner.set(binding.value.toUpperCase(), binding);
+          bindings.push(binding);
+        }
+      } else {
+        // LAMBDA([parameter1, ...], calculation): parameters are bound when the LAMBDA is called
+        children.slice(0, -1).forEach((parameter, i) => {
+          const binding = this.bindingNode(parameter, [], `parameter${i + 1}`);
+          inner.set(binding.value.toUpperCase(), binding);
+          bindings.push(binding);
+        });
+      }
+
+      this.resolveScopes(calculation, inner);
+      calculation.argumentName = 'calculation';
+      node.children = [...bindings, calculation];
+      return;
     }
 
-    // Default: treat as literal
+    if (node.type === 'reference' && node.referenceKind === 'name') {
+      const binding = scope.get(this.variableName(node.value).toUpperCase());
+      if (binding) {
+        node.referenceKind = 'variable';
+        node.binding = binding;
+      }
+    }
+
+    node.children?.forEach(child => this.resolveScopes(child, scope));
+  }
+
+  /**
+   * Bind a LAMBDA's parameters to the arguments of a call, in place
+   */
+  static bindLambda(lambda: FormulaNode, args: FormulaNode[]): void {
+    (lambda.children || [])
+      .filter(child => child.type === 'binding')
+      .forEach((parameter, i) => {
+        parameter.children = args[i] ? [args[i]] : [];
+      });
+  }
+
+  private static bindingNode(nameNode: FormulaNode, children: FormulaNode[], argumentName: string): FormulaNode {
+    const last = children[children.length - 1] || nameNode;
     return {
-      type: 'literal',
-      value: expr
+      type: 'binding',
+      value: this.variableName(nameNode.value),
+      children,
+      argumentName,
+      start: nameNode.start,
+      end: last.end
     };
   }
 
-  private static parseFunction(expr: string): FormulaNode {
-    const funcMatch = expr.match(/^([A-Z_][A-Z0-9_.]*)\s*\(/i);
-    if (!funcMatch) {
-      throw new Error('Invalid function expression');
+  /**
+   * Variable names are stored with an _xlpm. prefix in some formulas
+   */
+  private static variableName(name: string): string {
+    return name.replace(/^_xlpm\./i, '');
+  }
+
+  /**
+   * Report function calls whose argument count is out of range. These are
+   * warnings: the tree is still complete and can be explored as usual
+   */
+  private static validateArgumentCounts(node: FormulaNode): FormulaDiagnostic[] {
+    const diagnostics: FormulaDiagnostic[] = [];
+
+    if (node.type === 'function' && !node.definition) {
+      const signature = FunctionCatalog.get(node.value);
+      const count = node.children ? node.children.length : 0;
+      if (signature && (count < signature.minArgs || count > signature.maxArgs)) {
+        const expected = signature.minArgs === signature.maxArgs ? `${signature.minArgs}` : `${signature.minArgs} to ${signature.maxArgs}`;
+        diagnostics.push({
+          code: 'argument-count',
+          severity: 'warning',
+          message: `${node.value} expects ${expected} arguments but got ${count}`,
+          start: node.start ?? 0,
+          end: node.end ?? 0
+        });
+      }
     }
 
-    const funcName = funcMatch[1].toUpperCase();
-    const argsStart = funcMatch[0].length;
-    const argsEnd = this.findMatchingParen(expr, argsStart - 1);
-    const argsString = expr.substring(argsStart, argsEnd);
-    
-    const args = this.splitArguments(argsString);
-    const children = args.map((arg, index) => {
-      const childNode = this.parseExpression(arg);
-      
-      // Assign argument name if available
-      const argNames = this.FUNCTION_ARG_NAMES[funcName];
-      if (argNames && index < argNames.length) {
-        childNode.argumentName = argNames[index];
+    for (const child of node.definition ? [...(node.children || []), node.definition] : node.children || []) {
+      diagnostics.push(...this.validateArgumentCounts(child));
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Parse a binary expression using precedence climbing. All Excel binary
+   * operators are left-associative, including "^".
+   */
+  private static parseExpression(stream: TokenStream, minPrecedence: number): FormulaNode {
+    let left = this.parseUnary(stream);
+
+    for (;;) {
+      const token = stream.peek();
+      const precedence = token && token.type === 'operator' ? this.BINARY_PRECEDENCE[token.value] : undefined;
+      if (!token || precedence === undefined || precedence < minPrecedence) {
+        break;
       }
-      
-      return childNode;
-    });
 
-    const node: FormulaNode = {
-      type: 'function',
-      value: funcName,
-      children
-    };
+      stream.next();
+      const right = this.parseExpression(stream, precedence + 1);
+      left = this.operatorNode(token.value, [left, right]);
+    }
+
+    return left;
+  }
+
+  /**
+   * Parse prefix "+", "-" and the implicit intersection operator "@". Excel
+   * applies negation before "^", so =-2^2 is 4.
+   */
+  private static parseUnary(stream: TokenStream): FormulaNode {
+    const token = stream.peek();
+    if (token && token.type === 'operator' && (token.value === '-' || token.value === '+' || token.value === '@')) {
+      stream.next();
+      const operand = this.parseUnary(stream);
+      return {
+        type: 'operator',
+        value: token.value,
+        children: [operand],
+        start: token.start,
+        end: operand.end
+      };
+    }
+
+    return this.parsePercent(stream);
+  }
+
+  /**
+   * Parse postfix "%"
+   */
+  private static parsePercent(stream: TokenStream): FormulaNode {
+    let node = this.parseIntersection(stream);
+
+    while (stream.peekOperator('%')) {
+      const token = stream.next()!;
+      node = {
+        type: 'operator',
+        value: '%',
+        children: [node],
+        start: node.start,
+        end: token.end
+      };
+    }
 
     return node;
   }
 
-  private static findMatchingParen(str: string, openIndex: number): number {
-    let depth = 1;
-    let inString = false;
-    let stringChar = '';
+  /**
+   * Parse the intersection (space) operator
+   */
+  private static parseIntersection(stream: TokenStream): FormulaNode {
+    let node = this.parseRange(stream);
 
-    for (let i = openIndex + 1; i < str.length; i++) {
-      const char = str[i];
+    while (stream.peekOperator(' ')) {
+      stream.next();
+      node = this.operatorNode(' ', [node, this.parseRange(stream)]);
+    }
 
-      if (inString) {
-        if (char === stringChar && str[i - 1] !== '\\') {
-          inString = false;
-        }
-      } else {
-        if (char === '"' || char === "'") {
-          inString = true;
-          stringChar = char;
-        } else if (char === '(') {
-          depth++;
-        } else if (char === ')') {
-          depth--;
-          if (depth === 0) {
-            return i;
-          }
-        }
-      }
+    return node;
+  }
+
+  /**
+   * Parse the range (":") operator, which binds tightest of all
+   */
+  private static parseRange(stream: TokenStream): FormulaNode {
+    let node = this.parsePrimary(stream);
+
+    while (stream.peekOperator(':')) {
+      stream.next();
+      node = this.operatorNode(':', [node, this.parsePrimary(stream)]);
     }
 
-    return str.length;
+    return node;
   }
 
-  private static splitArguments(argsString: string): string[] {
-    const args: string[] = [];
-    let currentArg = '';
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
+  private static parsePrimary(stream: TokenStream): FormulaNode {
+    const token = stream.next();
+    if (!token) {
+      throw new FormulaParseError('Unexpected end of formula', stream.length, 'unexpected-end');
+    }
 
-    for (let i = 0; i < argsString.length; i++) {
-      const char = argsString[i];
+    switch (token.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+      case 'error':
+        return {
+          type: 'literal',
+          value: token.value,
+          start: token.start,
+          end: token.end
+        };
 
-      if (inString) {
-        currentArg += char;
-        if (char === stringChar && argsString[i - 1] !== '\\') {
-          inString = false;
+      case 'name':
+        // Defined names get their address once resolved against the workbook's names
+        return {
+          type: 'reference',
+          value: token.value,
+          referenceKind: 'name',
+          start: token.start,
+          end: token.end
+        };
+
+      case 'reference':
+        // Structured references get their address once resolved against the workbook's tables,
+        // spill references once the extent of the spilled array is known
+        if (StructuredReferenceHelper.isStructuredReference(token.value) || token.value.endsWith('#')) {
+          return {
+            type: 'reference',
+            value: token.value,
+            referenceKind: token.value.endsWith('#') ? 'spill' : 'structured',
+            start: token.start,
+            end: token.end
+          };
         }
-      } else {
-        if (char === '"' || char === "'") {
-          inString = true;
-          stringChar = char;
-          currentArg += char;
-        } else if (char === '(' || char === '{') {
-          depth++;
-          currentArg += char;
-        } else if (char === ')' || char === '}') {
-          depth--;
-          currentArg += char;
-        } else if (char === ',' && depth === 0) {
-          args.push(currentArg.trim());
-          currentArg = '';
-        } else {
-          currentArg += char;
+        // Other workbooks and 3D sheet spans are shown but not read
+        if (ReferenceGrammar.isExternal(token.value) || ReferenceGrammar.is3D(token.value)) {
+          return {
+            type: 'reference',
+            value: token.value,
+            referenceKind: 'a1',
+            location: token.value,
+            start: token.start,
+            end: token.end
+          };
         }
+        return {
+          type: 'reference',
+          value: token.value,
+          address: token.value,
+          referenceKind: 'a1',
+          start: token.start,
+          end: token.end
+        };
+
+      case 'function': {
+        const call = this.parseFunction(stream, token);
+        return call.value === 'LAMBDA' && stream.peekType('open-paren') ? this.parseLambdaCall(stream, call) : call;
       }
-    }
 
-    if (currentArg.trim()) {
-      args.push(currentArg.trim());
+      case 'open-paren':
+        return this.parseGroup(stream, token);
+
+      case 'array-open':
+        return this.parseArray(stream, token);
     }
 
-    return args;
+    throw new FormulaParseError(`Unexpected '${token.value}' at position ${token.start}`, token.start);
   }
 
-  private static findTopLevelOperator(expr: string): { operator: string; index: number } | null {
-    const operators = ['+', '-', '*', '/', '^', '&', '=', '<>', '<=', '>=', '<', '>'];
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
+  private static parseFunction(stream: TokenStream, nameToken: FormulaToken): FormulaNode {
+    // Newer functions may carry a _xlfn. / _xlws. storage prefix
+    const funcName = nameToken.value.replace(/^(?:_XL(?:FN|WS)\.)+/, '');
+    stream.expect('open-paren');
+    const { args, end } = this.parseArguments(stream, funcName, nameToken.start);
 
-    // Search from right to left for lower precedence operators first
-    const precedenceOrder = ['=', '<>', '<=', '>=', '<', '>', '&', '+', '-', '*', '/', '^'];
+    args.forEach((childNode, index) => {
+      // Assign argument name if available
+      const argument = FunctionCatalog.argumentAt(funcName, index, args.length);
+      if (argument) {
+        childNode.argumentName = argument.name;
+      }
+    });
+
+    return {
+      type: 'function',
+      value: funcName,
+      children: args,
+      start: nameToken.start,
+      end
+    };
+  }
 
-    for (const op of precedenceOrder) {
-      depth = 0;
-      inString = false;
+  /**
+   * Parse a LAMBDA called where it is written, as in LAMBDA(x,x+1)(3). Like
+   * a call to a named LAMBDA, the call holds the arguments and the LAMBDA
+   * is its definition, with its parameters bound once scopes are resolved.
+   */
+  private static parseLambdaCall(stream: TokenStream, lambda: FormulaNode): FormulaNode {
+    const openToken = stream.expect('open-paren');
+    const { args, end } = this.parseArguments(stream, 'LAMBDA', openToken.start);
 
-      for (let i = expr.length - 1; i >= 0; i--) {
-        const char = expr[i];
+    lambda.argumentName = 'definition';
+    return {
+      type: 'function',
+      value: 'LAMBDA',
+      children: args,
+      definition: lambda,
+      start: lambda.start,
+      end
+    };
+  }
 
-        if (inString) {
-          if (char === stringChar && (i === 0 || expr[i - 1] !== '\\')) {
-            inString = false;
-          }
+  /**
+   * Parse the arguments of a call up to its closing parenthesis, once the
+   * opening one has been read
+   */
+  private static parseArguments(stream: TokenStream, funcName: string, openStart: number): { args: FormulaNode[]; end: number } {
+    const args: FormulaNode[] = [];
+    let end: number;
+    if (stream.peekType('close-paren')) {
+      end = stream.next()!.end;
+    } else {
+      for (;;) {
+        // Omitted arguments, as in IF(A1,,0), are empty literals
+        const upcoming = stream.peek();
+        if (upcoming && (upcoming.type === 'separator' || upcoming.type === 'close-paren')) {
+          args.push({ type: 'literal', value: '', start: upcoming.start, end: upcoming.start });
         } else {
-          if (char === '"' || char === "'") {
-            inString = true;
-            stringChar = char;
-          } else if (char === ')') {
-            depth++;
-          } else if (char === '(') {
-            depth--;
-          } else if (depth === 0) {
-            if (op.length === 2 && i > 0 && expr.substring(i - 1, i + 1) === op) {
-              return { operator: op, index: i - 1 };
-            } else if (op.length === 1 && char === op) {
-              return { operator: op, index: i };
-            }
-          }
+          args.push(this.parseExpression(stream, 1));
+        }
+
+        const token = stream.next();
+        if (!token) {
+          throw new FormulaParseError(`Missing ')' for ${funcName} opened at position ${openStart}`, stream.length, 'unbalanced-paren');
+        }
+        if (token.type === 'close-paren') {
+          end = token.end;
+          break;
+        }
+        if (token.type !== 'separator') {
+          throw new FormulaParseError(`Unexpected '${token.value}' at position ${token.start}`, token.start);
         }
       }
     }
 
-    return null;
+    return { args, end };
+  }
+
+  /**
+   * Parse a parenthesized expression. Inside parentheses a comma is the
+   * union operator, as in SUM((A1:A3,C1:C3)).
+   */
+  private static parseGroup(stream: TokenStream, openToken: FormulaToken): FormulaNode {
+    let node = this.parseExpression(stream, 1);
+
+    while (stream.peekType('separator')) {
+      stream.next();
+      node = this.operatorNode(',', [node, this.parseExpression(stream, 1)]);
+    }
+
+    if (!stream.peek()) {
+      throw new FormulaParseError(`Missing ')' for '(' at position ${openToken.start}`, openToken.start, 'unbalanced-paren');
+    }
+    const closeToken = stream.expect('close-paren');
+
+    // The node's span covers its parentheses
+    node.start = openToken.start;
+    node.end = closeToken.end;
+    return node;
   }
 
-  private static isCellReference(expr: string): boolean {
-    // Match patterns like A1, $A$1, Sheet1!A1, [Book1]Sheet1!A1, A:A, 1:1, A1:B10
-    const cellRefPattern = /^(\[.*?\])?(\w+!)?(\$?[A-Z]+\$?\d+|\$?[A-Z]+:\$?[A-Z]+|\$?\d+:\$?\d+|\$?[A-Z]+\$?\d+:\$?[A-Z]+\$?\d+)$/i;
-    return cellRefPattern.test(expr.trim());
+  /**
+   * Parse an array constant such as {1,2;3,4} into rows of literals. Like
+   * Excel, only numbers, text, logical values and errors are allowed, and
+   * every row must have the same number of values.
+   */
+  private static parseArray(stream: TokenStream, openToken: FormulaToken): FormulaNode {
+    const rows: FormulaNode[][] = [[]];
+
+    for (;;) {
+      const row = rows[rows.length - 1];
+      row.push(this.parseArrayValue(stream, openToken));
+
+      const token = stream.next();
+      if (!token) {
+        throw new FormulaParseError(`Missing '}' for array starting at position ${openToken.start}`, openToken.start, 'unbalanced-paren');
+      }
+      if (token.type === 'array-row-separator' || token.type === 'array-close') {
+        if (row.length !== rows[0].length) {
+          throw new FormulaParseError(`Array rows must all have the same number of values (position ${token.start})`, token.start);
+        }
+      }
+
+      if (token.type === 'array-row-separator') {
+        rows.push([]);
+      } else if (token.type === 'array-close') {
+        return {
+          type: 'array',
+          value: `{${rows.map(values => values.map(value => value.value).join(',')).join(';')}}`,
+          rows,
+          start: openToken.start,
+          end: token.end
+        };
+      } else if (token.type !== 'separator') {
+        throw new FormulaParseError(`Unexpected '${token.value}' in array at position ${token.start}`, token.start);
+      }
+    }
   }
 
-  private static isLiteral(expr: string): boolean {
-    expr = expr.trim();
-    
-    // Check for number
-    if (!isNaN(Number(expr))) {
-      return true;
+  /**
+   * One value of an array constant; numbers may be negative
+   */
+  private static parseArrayValue(stream: TokenStream, openToken: FormulaToken): FormulaNode {
+    const minus = stream.peekOperator('-') ? stream.next()! : null;
+    const token = stream.next();
+    if (!token) {
+      throw new FormulaParseError(`Missing '}' for array starting at position ${openToken.start}`, openToken.start, 'unbalanced-paren');
     }
 
-    // Check for string (quoted)
-    if ((expr.startsWith('"') && expr.endsWith('"')) || 
-        (expr.startsWith("'") && expr.endsWith("'"))) {
-      return true;
+    const literal = token.type === 'number' || (!minus && (token.type === 'string' || token.type === 'boolean' || token.type === 'error'));
+    if (!literal) {
+      throw new FormulaParseError(
+        `Array constants can only hold numbers, text, logical values and errors (position ${token.start})`,
+        token.start
+      );
     }
 
-    // Check for boolean
-    if (expr.toUpperCase() === 'TRUE' || expr.toUpperCase() === 'FALSE') {
-      return true;
+    return {
+      type: 'literal',
+      value: minus ? `-${token.value}` : token.value,
+      start: minus ? minus.start : token.start,
+      end: token.end
+    };
+  }
+
+  /**
+   * Build a binary operator node spanning both operands
+   */
+  private static operatorNode(operator: string, children: FormulaNode[]): FormulaNode {
+    return {
+      type: 'operator',
+      value: operator,
+      children,
+      start: children[0].start,
+      end: children[children.length - 1].end
+    };
+  }
+
+  /**
+   * Walk an evaluated tree and, for every function, mark its active branches
+   * and work out its lookup target from the values of its arguments
+   */
+  static annotateFunctions(node: FormulaNode, sheetName: string): void {
+    node.children?.forEach(child => this.annotateFunctions(child, sheetName));
+
+    if (node.type !== 'function' || !node.children) {
+      return;
     }
 
-    return false;
+    const args = node.children.map(child => child.calculatedValue);
+    this.evaluateLogicalBranch(node.value, args, node);
+
+    const target = this.evaluateTargetLocation(node.value, args, node, sheetName);
+    if (target) {
+      node.targetLocation = target;
+    }
   }
 
   /**
-   * Evaluate which branch is active for logical functions
+   * Evaluate which branch is active for logical functions. Branches that
+   * Excel skips are marked inactive; the chosen branch is marked active.
    */
   static evaluateLogicalBranch(funcName: string, args: any[], node: FormulaNode): void {
+    const children = node.children;
+    if (!children) {
+      return;
+    }
+
+    const isError = (value: any) => value instanceof ExcelError;
+    // Array arguments are looked at element by element, as the evaluator does
+    const elements = (value: any): any[] => Array.isArray(value) ? value.flat() : [value];
+    const select = (active: number[], candidates: number[]) => {
+      candidates.forEach(i => {
+        if (children[i]) {
+          children[i].isActive = active.includes(i);
+        }
+      });
+    };
+    const range = (from: number, to: number) => Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+
     switch (funcName) {
       case 'IF':
-        if (args.length >= 2 && node.children) {
-          const condition = args[0];
-          node.children[1].isActive = !!condition;
-          if (node.children[2]) {
-            node.children[2].isActive = !condition;
+        if (args.length >= 2 && args[0] !== undefined) {
+          const conditions = elements(args[0]).filter(value => !isError(value));
+          const active = new Set(conditions.map(value =>
+            (typeof value === 'string' ? value.toUpperCase() === 'TRUE' : !!value) ? 1 : 2
+          ));
+          if (active.size > 0) {
+            select(Array.from(active), [1, 2]);
           }
         }
         break;
 
       case 'IFS':
-        if (node.children) {
-          for (let i = 0; i < node.children.length; i += 2) {
-            if (args[i]) {
-              node.children[i].isActive = true;
-              if (node.children[i + 1]) {
-                node.children[i + 1].isActive = true;
-              }
-              break;
-            }
+        for (let i = 0; i < children.length; i += 2) {
+          if (args[i] === undefined || isError(args[i])) {
+            break;
+          }
+          if (args[i]) {
+            // Conditions after the first true one are never evaluated
+            select([i + 1], [...range(1, children.length).filter(j => j % 2 === 1), ...range(i + 2, children.length)]);
+            break;
           }
         }
         break;
 
       case 'CHOOSE':
-        if (args.length >= 2 && node.children) {
+        if (args.length >= 2 && typeof args[0] === 'number') {
           const index = Math.floor(args[0]);
-          if (index >= 1 && index < node.children.length) {
-            node.children[index].isActive = true;
+          if (index >= 1 && index < children.length) {
+            select([index], range(1, children.length));
           }
         }
         break;
 
       case 'SWITCH':
-        if (args.length >= 3 && node.children) {
-          const expr = args[0];
-          for (let i = 1; i < args.length - 1; i += 2) {
-            if (args[i] === expr) {
-              node.children[i].isActive = true;
-              node.children[i + 1].isActive = true;
+        if (args.length >= 3 && args[0] !== undefined) {
+          const normalize = (value: any) => typeof value === 'string' ? value.toUpperCase() : value;
+          const expr = normalize(args[0]);
+          const hasDefault = args.length % 2 === 0;
+          const pairsEnd = hasDefault ? args.length - 1 : args.length;
+
+          let match = -1;
+          for (let i = 1; i < pairsEnd; i += 2) {
+            if (args[i] === undefined) {
+              return;
+            }
+            if (normalize(args[i]) === expr) {
+              match = i;
               break;
             }
           }
-          // Check for default value
-          if (args.length % 2 === 0 && node.children[node.children.length - 1]) {
-            node.children[node.children.length - 1].isActive = true;
+
+          const results = range(1, pairsEnd).filter(i => i % 2 === 0);
+          const later = match >= 0 ? range(match + 2, pairsEnd) : [];
+          const candidates = [...results, ...later, ...(hasDefault ? [args.length - 1] : [])];
+          if (match >= 0) {
+            select([match + 1], candidates);
+          } else if (hasDefault) {
+            select([args.length - 1], candidates);
+          }
+        }
+        break;
+
+      case 'XLOOKUP':
+        if (children.length >= 4) {
+          const position = this.xlookupPosition(args);
+          if (position !== null) {
+            select(position < 0 ? [3] : [], [3]);
+          }
+        }
+        break;
+
+      case 'FILTER':
+        if (children.length >= 3 && args[1] !== undefined) {
+          const included = FormulaEvaluator.filterIncluded(args[1]);
+          if (!(included instanceof ExcelError)) {
+            select(included.kept.length === 0 ? [2] : [], [2]);
           }
         }
         break;
+
+      case 'IFERROR':
+      case 'IFNA':
+        if (args.length >= 2 && args[0] !== undefined) {
+          const caught = elements(args[0]).some(value => FormulaEvaluator.catchesError(funcName, value));
+          select(caught ? [1] : [], [1]);
+        }
+        break;
     }
   }
 
   /**
-   * Evaluate target location for reference functions
+   * Work out the cell a lookup or reference function returns, as Sheet!A1.
+   * Lookups that find no match set targetNotFound on the node instead.
    */
-  static evaluateTargetLocation(funcName: string, args: any[], node: FormulaNode): string | null {
+  static evaluateTargetLocation(funcName: string, args: any[], node: FormulaNode, sheetName: string): string | null {
+    const children = node.children || [];
+
     switch (funcName) {
       case 'VLOOKUP':
-      case 'HLOOKUP':
-        // args: lookup_value, table_array, col_index_num, [range_lookup]
-        if (args.length >= 3 && node.children && node.children[1]) {
-          const tableArray = node.children[1].value;
-          const colIndex = args[2];
-          return `${tableArray} (column ${colIndex})`;
+      case 'HLOOKUP': {
+        // args: lookup_value, table_array, col_index_num (row_index_num), [range_lookup]
+        const table = this.rangeRef(children[1], sheetName);
+        const index = this.toInteger(args[2]);
+        if (!table || index === null || args[0] === undefined || args[1] === undefined) {
+          break;
+        }
+
+        const horizontal = funcName === 'HLOOKUP';
+        const grid = this.toGrid(args[1]);
+        const keys = horizontal ? grid[0] : grid.map(row => row[0]);
+        const approximate = args.length < 4 || (args[3] !== null && !!args[3]);
+        const position = FormulaEvaluator.findPosition(keys, this.toScalar(args[0]), approximate ? 1 : 0);
+        if (position < 0) {
+          node.targetNotFound = true;
+          break;
+        }
+
+        return this.location(horizontal
+          ? RangeRefHelper.cellAt(table, index, position + 1)
+          : RangeRefHelper.cellAt(table, position + 1, index));
+      }
+
+      case 'MATCH': {
+        // args: lookup_value, lookup_array, [match_type]
+        const list = this.rangeRef(children[1], sheetName);
+        if (!list || args[0] === undefined || args[1] === undefined) {
+          break;
+        }
+
+        const matchType = args.length > 2 ? this.toInteger(args[2]) : 1;
+        const grid = this.toGrid(args[1]);
+        const horizontal = grid.length === 1;
+        const values = horizontal ? grid[0] : grid.map(row => row[0]);
+        const position = FormulaEvaluator.findPosition(values, this.toScalar(args[0]), Math.sign(matchType ?? 1));
+        if (position < 0) {
+          node.targetNotFound = true;
+          break;
+        }
+
+        return this.location(horizontal ? RangeRefHelper.cellAt(list, 1, position + 1) : RangeRefHelper.cellAt(list, position + 1, 1));
+      }
+
+      case 'XLOOKUP': {
+        // args: lookup_value, lookup_array, return_array, [if_not_found], [match_mode], [search_mode]
+        const returnArray = this.rangeRef(children[2], sheetName);
+        const position = this.xlookupPosition(args);
+        if (!returnArray || position === null) {
+          break;
+        }
+        if (position < 0) {
+          node.targetNotFound = true;
+          break;
+        }
+
+        // The returned row (or column, for horizontal lookups) of the return array
+        const vertical = this.toGrid(args[1]).length > 1 || this.toGrid(args[1])[0].length === 1;
+        const start = vertical ? returnArray.startRow + position : returnArray.startCol + position;
+        if (start > (vertical ? returnArray.endRow : returnArray.endCol)) {
+          break;
+        }
+        return this.location(vertical
+          ? RangeRefHelper.fromBounds(start, returnArray.startCol, start, returnArray.endCol, returnArray.sheet)
+          : RangeRefHelper.fromBounds(returnArray.startRow, start, returnArray.endRow, start, returnArray.sheet));
+      }
+
+      case 'XMATCH': {
+        // args: lookup_value, lookup_array, [match_mode], [search_mode]
+        const list = this.rangeRef(children[1], sheetName);
+        if (!list || args[0] === undefined || args[1] === undefined) {
+          break;
+        }
+
+        const grid = this.toGrid(args[1]);
+        const horizontal = grid.length === 1;
+        const values = horizontal ? grid[0] : grid.map(row => row[0]);
+        const position = FormulaEvaluator.findLookupPosition(
+          values,
+          this.toScalar(args[0]),
+          this.toInteger(args[2]) ?? 0,
+          args.length > 3 ? this.toInteger(args[3]) ?? 1 : 1
+        );
+        if (position < 0) {
+          node.targetNotFound = true;
+          break;
+        }
+
+        return this.location(horizontal ? RangeRefHelper.cellAt(list, 1, position + 1) : RangeRefHelper.cellAt(list, position + 1, 1));
+      }
+
+      case 'FILTER': {
+        // args: array, include, [if_empty]
+        const array = this.rangeRef(children[0], sheetName);
+        if (!array || args[1] === undefined) {
+          break;
+        }
+
+        const included = FormulaEvaluator.filterIncluded(args[1]);
+        if (included instanceof ExcelError) {
+          break;
+        }
+        if (included.kept.length === 0) {
+          node.targetNotFound = true;
+          break;
+        }
+
+        // The rows (or columns) FILTER kept, with adjacent ones merged into areas
+        const areas: RangeRef[] = [];
+        for (const index of included.kept) {
+          const last = areas[areas.length - 1];
+          const position = (included.byColumn ? array.startCol : array.startRow) + index;
+          if (last && (included.byColumn ? last.endCol : last.endRow) === position - 1) {
+            if (included.byColumn) last.endCol = position; else last.endRow = position;
+          } else {
+            areas.push(included.byColumn
+              ? RangeRefHelper.fromBounds(array.startRow, position, array.endRow, position, array.sheet)
+              : RangeRefHelper.fromBounds(position, array.startCol, position, array.endCol, array.sheet));
+          }
         }
-        break;
 
-      case 'INDEX':
+        // Every area carries the sheet, so none is read against the active one
+        return areas.map(area => RangeRefHelper.format(area)).join(',');
+      }
+
+      case 'INDEX': {
         // args: array, row_num, [column_num]
-        if (args.length >= 2 && node.children && node.children[0]) {
-          const array = node.children[0].value;
-          const row = args[1];
-          const col = args.length >= 3 ? args[2] : 1;
-          return `${array} (row ${row}, col ${col})`;
+        const array = this.rangeRef(children[0], sheetName);
+        let row = this.toInteger(args[1]);
+        let col = args.length >= 3 ? this.toInteger(args[2]) : 0;
+        if (!array || row === null || col === null) {
+          break;
         }
-        break;
 
-      case 'OFFSET':
+        // A single row or column can be indexed with one number
+        if (args.length < 3 && array.startRow === array.endRow) {
+          col = row;
+          row = 1;
+        }
+
+        if (row === 0 || col === 0) {
+          // Whole column or row of the array
+          const startRow = row === 0 ? array.startRow : array.startRow + row - 1;
+          const endRow = row === 0 ? array.endRow : startRow;
+          const startCol = col === 0 ? array.startCol : array.startCol + col - 1;
+          const endCol = col === 0 ? array.endCol : startCol;
+          if (endRow > array.endRow || endCol > array.endCol) {
+            break;
+          }
+          return this.location(RangeRefHelper.fromBounds(startRow, startCol, endRow, endCol, array.sheet));
+        }
+
+        return this.location(RangeRefHelper.cellAt(array, row, col));
+      }
+
+      case 'OFFSET': {
         // args: reference, rows, cols, [height], [width]
-        if (args.length >= 3 && node.children && node.children[0]) {
-          const reference = node.children[0].value;
-          const rows = args[1];
-          const cols = args[2];
-          return `${reference} offset by (${rows}, ${cols})`;
+        const reference = this.rangeRef(children[0], sheetName);
+        const rows = this.toInteger(args[1]);
+        const cols = this.toInteger(args[2]);
+        if (!reference || rows === null || cols === null) {
+          break;
         }
-        break;
 
-      case 'INDIRECT':
+        const height = args.length > 3 && args[3] !== null ? this.toInteger(args[3]) : RangeRefHelper.rowCount(reference);
+        const width = args.length > 4 && args[4] !== null ? this.toInteger(args[4]) : RangeRefHelper.columnCount(reference);
+        if (!height || !width) {
+          break;
+        }
+
+        const moved = RangeRefHelper.offset(reference, rows, cols);
+        return this.location(moved && RangeRefHelper.resize(moved, height, width));
+      }
+
+      case 'INDIRECT': {
         // args: ref_text, [a1]
-        if (args.length >= 1) {
-          return `Indirect: ${args[0]}`;
+        if (typeof args[0] !== 'string' || (args.length > 1 && args[1] === false)) {
+          break;
+        }
+
+        try {
+          const tokens = FormulaTokenizer.tokenize(args[0]);
+          if (tokens.length === 1 && tokens[0].type === 'reference') {
+            return this.location(this.rangeRef({ type: 'reference', value: tokens[0].value, address: tokens[0].value }, sheetName));
+          }
+        } catch (error) {
+          // Free text that is not a reference at all
+          node.targetNotFound = true;
         }
         break;
+      }
     }
 
     return null;
   }
+
+  /**
+   * Position (0-based) XLOOKUP finds from its evaluated arguments, -1 when
+   * nothing matches, or null when the arguments are not known
+   */
+  private static xlookupPosition(args: any[]): number | null {
+    if (args[0] === undefined || args[1] === undefined) {
+      return null;
+    }
+
+    const grid = this.toGrid(args[1]);
+    const vertical = grid.length > 1 || grid[0].length === 1;
+    return FormulaEvaluator.findLookupPosition(
+      vertical ? grid.map(row => row[0]) : grid[0],
+      this.toScalar(args[0]),
+      args.length > 4 ? this.toInteger(args[4]) ?? 0 : 0,
+      args.length > 5 ? this.toInteger(args[5]) ?? 1 : 1
+    );
+  }
+
+  /**
+   * Get the range a reference node's address covers, on its own sheet or
+   * the formula's
+   */
+  private static rangeRef(node: FormulaNode | undefined, sheetName: string): RangeRef | null {
+    if (!node || node.type !== 'reference' || !node.address) {
+      return null;
+    }
+
+    const { sheetName: sheet, address } = ExcelHelper.parseReference(node.address, sheetName);
+    const ref = RangeRefHelper.parse(address.replace(/\$/g, ''));
+    return ref ? { ...ref, sheet } : null;
+  }
+
+  /**
+   * Sheet!A1 of a range, with the sheet quoted if needed, or null when there
+   * is none
+   */
+  private static location(ref: RangeRef | null): string | null {
+    return ref ? RangeRefHelper.format(ref) : null;
+  }
+
+  private static toGrid(value: any): any[][] {
+    return Array.isArray(value) ? value : [[value]];
+  }
+
+  private static toScalar(value: any): any {
+    return Array.isArray(value) ? value[0]?.[0] : value;
+  }
+
+  /**
+   * Read a whole-number argument; blank and omitted arguments count as 0
+   */
+  private static toInteger(value: any): number | null {
+    const scalar = this.toScalar(value);
+    if (scalar === null) {
+      return 0;
+    }
+    if (typeof scalar === 'boolean') {
+      return scalar ? 1 : 0;
+    }
+    return typeof scalar === 'number' ? Math.trunc(scalar) : null;
+  }
 }
@@ -0,0 +1,227 @@
+/**
+ * Formula Serializer - Turns a parsed FormulaNode tree back into formula
+ * text, either canonical on one line or indented over several lines
+ */
+
+import { FormulaNode, FormulaParser } from './formulaParser';
+
+export interface FormulaFormatOptions {
+  width?: number; // Longest line before a function's arguments are split over several lines
+  indent?: string; // Text for one level of indentation
+}
+
+export class FormulaSerializer {
+  private static DEFAULT_WIDTH = 60;
+  private static DEFAULT_INDENT = '  ';
+
+  // How tightly each kind of node binds, on top of the binary operator
+  // precedences. Unions always carry their own parentheses.
+  private static UNARY = 6;
+  private static PERCENT = 7;
+  private static INTERSECTION = 8;
+  private static RANGE = 9;
+  private static PRIMARY = 10;
+
+  /**
+   * Print a tree as a canonical formula: English function names, ","
+   * separators, no whitespace and only the parentheses precedence needs.
+   * Parsing the result gives back the same tree.
+   */
+  static serialize(tree: FormulaNode): string {
+    return '=' + this.print(tree);
+  }
+
+  /**
+   * Print a single node the way it appears inside a formula, without the
+   * leading "="
+   */
+  static serializeNode(node: FormulaNode): string {
+    return this.print(node);
+  }
+
+  /**
+   * Copy a tree with one node swapped for another, or return null when the
+   * node is not part of the tree (such as the definition of a named LAMBDA).
+   * Only the nodes on the path to the swapped node are copied.
+   */
+  static replaceNode(tree: FormulaNode, target: FormulaNode, replacement: FormulaNode): FormulaNode | null {
+    if (tree === target) {
+      return replacement;
+    }
+
+    // The definition of a LAMBDA called where it is written is part of the text
+    if (tree.value === 'LAMBDA' && tree.definition) {
+      const definition = this.replaceNode(tree.definition, target, replacement);
+      if (definition) {
+        return { ...tree, definition };
+      }
+    }
+
+    const children = tree.children || [];
+    for (let i = 0; i < children.length; i++) {
+      const replaced = this.replaceNode(children[i], target, replacement);
+      if (replaced) {
+        const copy = [...children];
+        copy[i] = replaced;
+        return { ...tree, children: copy };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Print a tree with every function call that does not fit the width
+   * split into one indented line per argument. Line breaks are only placed
+   * where Excel ignores whitespace, so the formula computes the same value.
+   */
+  static format(tree: FormulaNode, options: FormulaFormatOptions = {}): string {
+    const width = options.width ?? this.DEFAULT_WIDTH;
+    const indent = options.indent ?? this.DEFAULT_INDENT;
+    return '=' + this.layout(tree, 0, width, indent);
+  }
+
+  private static print(node: FormulaNode): string {
+    switch (node.type) {
+      case 'function':
+        return `${this.printCallee(node)}(${this.printArguments(node).join(',')})`;
+      case 'operator':
+        return this.printOperator(node);
+      case 'reference':
+        // Bindings are stored without the _xlpm. prefix; their uses follow suit
+        return node.referenceKind === 'variable' ? node.value.replace(/^_xlpm\./i, '') : node.value;
+      default:
+        return node.value;
+    }
+  }
+
+  /**
+   * A LAMBDA called where it is written, as in LAMBDA(x,x+1)(3), prints its
+   * definition in place of a function name
+   */
+  private static printCallee(node: FormulaNode): string {
+    return node.value === 'LAMBDA' && node.definition ? this.print(node.definition) : node.value;
+  }
+
+  /**
+   * LET bindings print as their name and value; LAMBDA parameters only as
+   * their name, even once bound to the arguments of a call
+   */
+  private static printArguments(node: FormulaNode): string[] {
+    return (node.children || []).map(child => {
+      if (child.type !== 'binding') {
+        return this.printOperand(child, 1);
+      }
+      const value = child.children?.[0];
+      return node.value === 'LET' && value ? `${child.value},${this.printOperand(value, 1)}` : child.value;
+    });
+  }
+
+  private static printOperator(node: FormulaNode): string {
+    const children = node.children || [];
+
+    if (children.length === 1) {
+      return node.value === '%'
+        ? this.printOperand(children[0], this.PERCENT) + '%'
+        : node.value + this.printOperand(children[0], this.UNARY);
+    }
+
+    if (node.value === ',') {
+      return `(${this.printUnion(node)})`;
+    }
+
+    // Every binary operator is left-associative, so an operand of equal
+    // precedence on the right needs parentheses
+    const level = this.level(node);
+    return this.printOperand(children[0], level) + node.value + this.printOperand(children[1], level + 1);
+  }
+
+  /**
+   * Union members without the enclosing parentheses: (A1,B1,C1) nests to the left
+   */
+  private static printUnion(node: FormulaNode): string {
+    const [left, right] = node.children || [];
+    const leftText = left.type === 'operator' && left.value === ',' ? this.printUnion(left) : this.printOperand(left, 1);
+    return `${leftText},${this.printOperand(right, 1)}`;
+  }
+
+  private static printOperand(node: FormulaNode, minLevel: number): string {
+    const text = this.print(node);
+    return this.level(node) < minLevel ? `(${text})` : text;
+  }
+
+  private static level(node: FormulaNode): number {
+    if (node.type !== 'operator') {
+      return this.PRIMARY;
+    }
+    if (node.children?.length === 1) {
+      return node.value === '%' ? this.PERCENT : this.UNARY;
+    }
+    switch (node.value) {
+      case ',':
+        return this.PRIMARY;
+      case ':':
+        return this.RANGE;
+      case ' ':
+        return this.INTERSECTION;
+      default:
+        return FormulaParser.BINARY_PRECEDENCE[node.value];
+    }
+  }
+
+  /**
+   * Lay out a node starting at the given indentation depth. Function calls
+   * that are too long get one argument per line; long binary expressions
+   * break before their operator.
+   */
+  private static layout(node: FormulaNode, depth: number, width: number, indent: string): string {
+    const flat = this.print(node);
+    const pad = indent.repeat(depth);
+    if (pad.length + flat.length <= width) {
+      return flat;
+    }
+
+    const children = node.children || [];
+    if (node.type === 'function' && children.length > 0) {
+      const inner = indent.repeat(depth + 1);
+      const args = children.map(child => {
+        if (child.type !== 'binding') {
+          return inner + this.layoutOperand(child, 1, depth + 1, width, indent);
+        }
+        const value = child.children?.[0];
+        return node.value === 'LET' && value
+          ? `${inner}${child.value}, ${this.layoutOperand(value, 1, depth + 1, width, indent)}`
+          : inner + child.value;
+      });
+      const callee = node.value === 'LAMBDA' && node.definition ? this.layout(node.definition, depth, width, indent) : node.value;
+      return `${callee}(\n${args.join(',\n')}\n${pad})`;
+    }
+
+    if (node.type === 'operator' && children.length === 1) {
+      return node.value === '%'
+        ? this.layoutOperand(children[0], this.PERCENT, depth, width, indent) + '%'
+        : node.value + this.layoutOperand(children[0], this.UNARY, depth, width, indent);
+    }
+
+    if (node.type === 'operator' && FormulaParser.BINARY_PRECEDENCE[node.value] !== undefined) {
+      const level = this.level(node);
+      const left = this.layoutOperand(children[0], level, depth, width, indent);
+      const right = this.layoutOperand(children[1], level + 1, depth, width, indent);
+      return `${left}\n${pad}${node.value} ${right}`;
+    }
+
+    // References, unions and literals are never split
+    return flat;
+  }
+
+  private static layoutOperand(node: FormulaNode, minLevel: number, depth: number, width: number, indent: string): string {
+    if (this.level(node) >= minLevel) {
+      return this.layout(node, depth, width, indent);
+    }
+
+    const text = this.layout(node, depth + 1, width, indent);
+    return text.includes('\n')
+      ? `(\n${indent.repeat(depth + 1)}${text}\n${indent.repeat(depth)})`
+      : `(${text})`;
+  }
+}
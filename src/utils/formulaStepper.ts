@@ -0,0 +1,129 @@
+/**
+ * Formula Stepper - Breaks an evaluated formula tree into the steps Excel's
+ * Evaluate Formula dialog would show
+ */
+
+import { FormulaNode } from './formulaParser';
+import { ExcelError, Scalar } from './formulaEvaluator';
+
+export interface EvaluationStep {
+  node: FormulaNode; // Node replaced by its value in this step
+  text: string; // Formula text after the replacement
+  valueStart: number; // Position of the replaced value in text
+  valueEnd: number;
+}
+
+export class FormulaStepper {
+  /**
+   * Build the evaluation steps for a tree whose nodes already carry
+   * calculatedValue. Nodes are reduced in calculation order: arguments left
+   * to right, operands before their operator. Branches marked inactive are
+   * skipped, just as Excel never evaluates them.
+   */
+  static buildSteps(formula: string, tree: FormulaNode): EvaluationStep[] {
+    if (tree.start === undefined || tree.end === undefined) {
+      return [];
+    }
+
+    const order: FormulaNode[] = [];
+    this.collectSteps(tree, order);
+
+    const reduced = new Set<FormulaNode>();
+    return order.map(node => {
+      reduced.add(node);
+      const rendered = this.render(formula, tree, reduced, node);
+      return { node, ...rendered };
+    });
+  }
+
+  /**
+   * Format a value the way it would be written in a formula
+   */
+  static toFormulaText(value: any): string {
+    if (value === null || value === undefined) {
+      return '0'; // Blank cells evaluate to zero
+    }
+    if (Array.isArray(value)) {
+      const array: Scalar[][] = value;
+      return `{${array.map(row => row.map(cell => this.toFormulaText(cell)).join(',')).join(';')}}`;
+    }
+    if (typeof value === 'string') {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'TRUE' : 'FALSE';
+    }
+    if (typeof value === 'number') {
+      return String(Number(value.toPrecision(15)));
+    }
+    if (value instanceof ExcelError) {
+      return value.code;
+    }
+    return String(value);
+  }
+
+  private static collectSteps(node: FormulaNode, order: FormulaNode[]): void {
+    if (node.isActive === false) {
+      return;
+    }
+
+    node.children?.forEach(child => this.collectSteps(child, order));
+
+    // A binding stands for "name, value" in the text, so only its value is reduced
+    if (node.type === 'literal' || node.type === 'array' || node.type === 'binding' || node.calculatedValue === undefined) {
+      return;
+    }
+    if (node.start === undefined || node.end === undefined) {
+      return;
+    }
+
+    // Multi-cell ranges stay as references, as in Excel's dialog
+    if (node.type === 'reference' && Array.isArray(node.calculatedValue)) {
+      return;
+    }
+
+    order.push(node);
+  }
+
+  /**
+   * Rebuild the formula text with every reduced node replaced by its value
+   */
+  private static render(
+    formula: string,
+    tree: FormulaNode,
+    reduced: Set<FormulaNode>,
+    current: FormulaNode
+  ): { text: string; valueStart: number; valueEnd: number } {
+    let valueStart = 0;
+    let valueEnd = 0;
+
+    const renderNode = (node: FormulaNode, offset: number): string => {
+      if (reduced.has(node)) {
+        const text = this.toFormulaText(node.calculatedValue);
+        if (node === current) {
+          valueStart = offset;
+          valueEnd = offset + text.length;
+        }
+        return text;
+      }
+
+      let text = '';
+      let pos = node.start!;
+      const children = (node.children || [])
+        .filter(child => child.start !== undefined && child.end !== undefined)
+        .sort((a, b) => a.start! - b.start!);
+
+      for (const child of children) {
+        text += formula.substring(pos, child.start);
+        text += renderNode(child, offset + text.length);
+        pos = child.end!;
+      }
+
+      return text + formula.substring(pos, node.end);
+    };
+
+    const prefix = formula.substring(0, tree.start);
+    const body = renderNode(tree, prefix.length);
+    return { text: prefix + body + formula.substring(tree.end!), valueStart, valueEnd };
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Formula Tokenizer - Splits Excel formulas into typed tokens
+ */
+
+import { FormulaLocaleSettings } from './formulaLocale';
+import { ReferenceGrammar } from './referenceGrammar';
+
+export type FormulaTokenType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'error'
+  | 'reference'
+  | 'name'
+  | 'function'
+  | 'operator'
+  | 'open-paren'
+  | 'close-paren'
+  | 'separator'
+  | 'array-open'
+  | 'array-close'
+  | 'array-row-separator';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  value: string;
+  start: number; // Offset of the first character in the original formula text
+  end: number; // Offset just past the last character
+}
+
+export type ReferenceStyle = 'A1' | 'R1C1';
+
+export interface FormulaTokenizeOptions {
+  locale?: FormulaLocaleSettings; // Separators and names the formula is written in; invariant when omitted
+  referenceStyle?: ReferenceStyle; // R1C1 for formulas read from Range.formulasR1C1
+}
+
+export type FormulaDiagnosticCode =
+  | 'unbalanced-paren'
+  | 'unknown-token'
+  | 'unterminated-string'
+  | 'unexpected-token'
+  | 'unexpected-end'
+  | 'argument-count';
+
+export class FormulaParseError extends Error {
+  position: number;
+  code: FormulaDiagnosticCode;
+
+  constructor(message: string, position: number, code: FormulaDiagnosticCode = 'unexpected-token') {
+    super(message);
+    this.name = 'FormulaParseError';
+    this.position = position;
+    this.code = code;
+  }
+}
+
+export class FormulaTokenizer {
+  private static ERROR_LITERALS = [
+    '#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A',
+    '#GETTING_DATA', '#SPILL!', '#CALC!', '#FIELD!', '#BLOCKED!', '#CONNECT!', '#BUSY!', '#UNKNOWN!'
+  ];
+
+  // Longest operators first so that "<=" wins over "<"
+  private static OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%', ':', '@'];
+
+  // A1 cell or area, whole-column range or whole-row range
+  private static A1_REFERENCE = /^(?:\$?[A-Z]{1,3}\$?\d+(?::\$?[A-Z]{1,3}\$?\d+)?|\$?[A-Z]{1,3}:\$?[A-Z]{1,3}|\$?\d+:\$?\d+)(?![\w.(\[])/i;
+
+  // R1C1 cell or area, whole-row range or whole-column range; brackets hold relative offsets
+  private static R1C1_REFERENCE = /^(?:R(?:\[-?\d+\]|\d+)?C(?:\[-?\d+\]|\d+)?(?::R(?:\[-?\d+\]|\d+)?C(?:\[-?\d+\]|\d+)?)?|R(?:\[-?\d+\]|\d+)?(?::R(?:\[-?\d+\]|\d+)?)?|C(?:\[-?\d+\]|\d+)?(?::C(?:\[-?\d+\]|\d+)?)?)(?![\w.(\[])/i;
+
+  // Table name (optional) followed by the opening bracket of a structured reference
+  private static STRUCTURED_START = /^(?:[A-Za-z_\\][\w.\\]*)?\[/;
+
+  private static NUMBER = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+
+  // Localized function names such as ZÄHLENWENN need letters beyond ASCII
+  private static WORD = /^[\p{L}_\\][\p{L}\p{N}_.\\?]*/u;
+
+  // Legacy array formula entered with Ctrl+Shift+Enter, written as Excel shows it
+  private static ARRAY_FORMULA = /^\{=[\s\S]*\}$/;
+
+  /**
+   * Whether text is a formula: "=..." or a legacy "{=...}" array formula
+   */
+  static isFormula(text: string): boolean {
+    return typeof text === 'string' && (text.startsWith('=') || this.isArrayFormula(text));
+  }
+
+  /**
+   * Whether text is a legacy array formula such as {=SUM(A1:A3*B1:B3)}
+   */
+  static isArrayFormula(text: string): boolean {
+    return this.ARRAY_FORMULA.test(text);
+  }
+
+  /**
+   * Tokenize a formula. A leading "=", and the braces around a legacy array
+   * formula, are skipped, but token offsets always refer to positions in the
+   * text that was passed in. Formulas written in a locale (semicolon
+   * separators, decimal comma, localized function names) produce the same
+   * token values as the invariant form.
+   */
+  static tokenize(formula: string, options: FormulaTokenizeOptions = {}): FormulaToken[] {
+    const { locale, referenceStyle = 'A1' } = options;
+    const tokens: FormulaToken[] = [];
+    let pos = formula.startsWith('=') ? 1 : 0;
+
+    if (this.isArrayFormula(formula)) {
+      formula = formula.slice(0, -1);
+      pos = 2;
+    }
+    let braceDepth = 0;
+
+    const listSeparator = locale ? locale.listSeparator : ',';
+    const arrayColumnSeparator = locale ? locale.arrayColumnSeparator : ',';
+    const arrayRowSeparator = locale ? locale.arrayRowSeparator : ';';
+    const numberPattern = this.numberPattern(locale ? locale.decimalSeparator : '.');
+    const errorLiterals = this.errorLiterals(locale);
+
+    while (pos < formula.length) {
+      const rest = formula.substring(pos);
+      const char = formula[pos];
+
+      // Whitespace is kept for now; it is resolved into intersections below
+      const wsMatch = rest.match(/^\s+/);
+      if (wsMatch) {
+        tokens.push({ type: 'operator', value: ' ', start: pos, end: pos + wsMatch[0].length });
+        pos += wsMatch[0].length;
+        continue;
+      }
+
+      if (char === '"') {
+        const end = this.findStringEnd(formula, pos);
+        tokens.push({ type: 'string', value: formula.substring(pos, end), start: pos, end });
+        pos = end;
+        continue;
+      }
+
+      if (char === '#') {
+        const error = errorLiterals.find(([literal]) => rest.toUpperCase().startsWith(literal));
+        if (!error) {
+          throw new FormulaParseError(`Unknown error literal at position ${pos}`, pos, 'unknown-token');
+        }
+        tokens.push({ type: 'error', value: error[1], start: pos, end: pos + error[0].length });
+        pos += error[0].length;
+        continue;
+      }
+
+      const reference = this.matchReference(rest, referenceStyle);
+      if (reference) {
+        tokens.push({ type: reference.type, value: reference.text, start: pos, end: pos + reference.text.length });
+        pos += reference.text.length;
+        continue;
+      }
+
+      const structuredMatch = rest.match(this.STRUCTURED_START);
+      if (structuredMatch) {
+        const end = this.findBracketEnd(formula, pos + structuredMatch[0].length - 1);
+        tokens.push({ type: 'reference', value: formula.substring(pos, end), start: pos, end });
+        pos = end;
+        continue;
+      }
+
+      const numberMatch = rest.match(numberPattern);
+      if (numberMatch) {
+        const value = locale ? numberMatch[0].replace(locale.decimalSeparator, '.') : numberMatch[0];
+        tokens.push({ type: 'number', value, start: pos, end: pos + numberMatch[0].length });
+        pos += numberMatch[0].length;
+        continue;
+      }
+
+      // In an array constant a word stops at the column separator, which may
+      // be a character names can hold, such as . or \
+      const wordMatch = rest.match(this.WORD);
+      const word = wordMatch && braceDepth > 0 ? wordMatch[0].split(arrayColumnSeparator)[0] : wordMatch?.[0];
+      if (word) {
+        const end = pos + word.length;
+        const upper = locale ? this.englishName(word.toUpperCase(), locale) : word.toUpperCase();
+
+        if (formula[end] === '(') {
+          tokens.push({ type: 'function', value: upper, start: pos, end });
+        } else if (upper === 'TRUE' || upper === 'FALSE') {
+          tokens.push({ type: 'boolean', value: upper, start: pos, end });
+        } else {
+          tokens.push({ type: 'name', value: word, start: pos, end });
+        }
+        pos = end;
+        continue;
+      }
+
+      if (braceDepth > 0 && char === arrayColumnSeparator) {
+        tokens.push({ type: 'separator', value: ',', start: pos, end: pos + 1 });
+        pos++;
+        continue;
+      }
+      if (braceDepth > 0 && char === arrayRowSeparator) {
+        tokens.push({ type: 'array-row-separator', value: ';', start: pos, end: pos + 1 });
+        pos++;
+        continue;
+      }
+      if (char === listSeparator) {
+        tokens.push({ type: 'separator', value: ',', start: pos, end: pos + 1 });
+        pos++;
+        continue;
+      }
+
+      switch (char) {
+        case '(':
+          tokens.push({ type: 'open-paren', value: char, start: pos, end: pos + 1 });
+          pos++;
+          continue;
+        case ')':
+          tokens.push({ type: 'close-paren', value: char, start: pos, end: pos + 1 });
+          pos++;
+          continue;
+        case '{':
+          braceDepth++;
+          tokens.push({ type: 'array-open', value: char, start: pos, end: pos + 1 });
+          pos++;
+          continue;
+        case '}':
+          braceDepth--;
+          tokens.push({ type: 'array-close', value: char, start: pos, end: pos + 1 });
+          pos++;
+          continue;
+      }
+
+      const operator = this.OPERATORS.find(op => rest.startsWith(op));
+      if (operator) {
+        tokens.push({ type: 'operator', value: operator, start: pos, end: pos + operator.length });
+        pos += operator.length;
+        continue;
+      }
+
+      throw new FormulaParseError(`Unexpected character '${char}' at position ${pos}`, pos, 'unknown-token');
+    }
+
+    return this.resolveWhitespace(tokens);
+  }
+
+  /**
+   * Tokenize as much of a formula as possible, for text that is still being
+   * typed. Returns the tokens before the first error and where it occurred.
+   */
+  static tokenizePartial(formula: string, options: FormulaTokenizeOptions = {}): { tokens: FormulaToken[]; errorPosition: number | null } {
+    let text = formula;
+    for (;;) {
+      try {
+        return { tokens: this.tokenize(text, options), errorPosition: text === formula ? null : text.length };
+      } catch (error) {
+        if (!(error instanceof FormulaParseError)) {
+          throw error;
+        }
+        text = text.substring(0, error.position);
+      }
+    }
+  }
+
+  /**
+   * Number literal pattern for a decimal separator
+   */
+  private static numberPattern(decimalSeparator: string): RegExp {
+    if (decimalSeparator === '.') {
+      return this.NUMBER;
+    }
+    const separator = decimalSeparator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^(?:\\d+(?:${separator}\\d*)?|${separator}\\d+)(?:[eE][+-]?\\d+)?`);
+  }
+
+  /**
+   * Error literals as [text in the formula, invariant literal], longest first
+   * so that #NOMBRE! wins over #NOM?
+   */
+  private static errorLiterals(locale?: FormulaLocaleSettings): Array<[string, string]> {
+    const literals: Array<[string, string]> = this.ERROR_LITERALS.map(literal => [literal, literal]);
+    if (locale) {
+      Object.entries(locale.errorLiterals).forEach(([literal, localized]) => literals.push([localized.toUpperCase(), literal]));
+    }
+    return literals.sort((a, b) => b[0].length - a[0].length);
+  }
+
+  /**
+   * English name for a localized function name or boolean
+   */
+  private static englishName(name: string, locale: FormulaLocaleSettings): string {
+    const english = Object.keys(locale.functionNames).find(key => locale.functionNames[key] === name);
+    return english || name;
+  }
+
+  /**
+   * Find the end of a string literal starting at the given quote. Quotes
+   * inside the string are escaped by doubling them.
+   */
+  private static findStringEnd(formula: string, start: number): number {
+    let i = start + 1;
+    while (i < formula.length) {
+      if (formula[i] === '"') {
+        if (formula[i + 1] === '"') {
+          i += 2;
+          continue;
+        }
+        return i + 1;
+      }
+      i++;
+    }
+
+    throw new FormulaParseError(`Unterminated string starting at position ${start}`, start, 'unterminated-string');
+  }
+
+  /**
+   * Find the end of a structured reference starting at the given bracket.
+   * Inside column names an apostrophe escapes the next character.
+   */
+  private static findBracketEnd(formula: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < formula.length; i++) {
+      const char = formula[i];
+      if (char === "'") {
+        i++;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']') {
+        depth--;
+        if (depth === 0) {
+          return i + 1;
+        }
+      }
+    }
+
+    throw new FormulaParseError(`Missing ']' for structured reference at position ${start}`, start, 'unbalanced-paren');
+  }
+
+  /**
+   * Match a reference (optionally sheet-qualified), a spill reference such
+   * as E2# or a sheet-qualified name
+   */
+  private static matchReference(text: string, referenceStyle: ReferenceStyle): { type: 'reference' | 'name'; text: string } | null {
+    const prefixMatch = text.match(ReferenceGrammar.SHEET_PREFIX);
+    const prefix = prefixMatch ? prefixMatch[0] : '';
+    const body = text.substring(prefix.length);
+
+    const refMatch = body.match(referenceStyle === 'R1C1' ? this.R1C1_REFERENCE : this.A1_REFERENCE);
+    if (refMatch) {
+      // A single cell followed by "#" refers to the array spilled from that cell
+      const isCell = referenceStyle === 'R1C1'
+        ? /^R.*C/i.test(refMatch[0]) && !refMatch[0].includes(':')
+        : /\d$/.test(refMatch[0]) && !refMatch[0].includes(':');
+      const spill = isCell && body[refMatch[0].length] === '#' ? '#' : '';
+      return { type: 'reference', text: prefix + refMatch[0] + spill };
+    }
+
+    if (prefix) {
+      const nameMatch = body.match(this.WORD);
+      if (nameMatch && body[nameMatch[0].length] !== '(') {
+        return { type: 'name', text: prefix + nameMatch[0] };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whitespace between two operands is Excel's intersection operator;
+   * everywhere else it is insignificant and dropped.
+   */
+  private static resolveWhitespace(tokens: FormulaToken[]): FormulaToken[] {
+    const result: FormulaToken[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type !== 'operator' || token.value !== ' ') {
+        result.push(token);
+        continue;
+      }
+
+      const previous = result[result.length - 1];
+      const next = tokens[i + 1];
+      if (previous && next && this.endsOperand(previous) && this.startsOperand(next)) {
+        result.push(token);
+      }
+    }
+
+    return result;
+  }
+
+  private static endsOperand(token: FormulaToken): boolean {
+    return token.type === 'reference' || token.type === 'name' || token.type === 'close-paren';
+  }
+
+  private static startsOperand(token: FormulaToken): boolean {
+    return token.type === 'reference' || token.type === 'name' ||
+      token.type === 'function' || token.type === 'open-paren';
+  }
+}
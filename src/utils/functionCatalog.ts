@@ -0,0 +1,715 @@
+/**
+ * Function Catalog - Signatures of Excel's built-in worksheet functions
+ */
+
+export type FunctionReturnType = 'number' | 'text' | 'logical' | 'reference' | 'array' | 'any';
+
+export interface FunctionArgument {
+  name: string; // Repeating arguments carry their base name (criteria_range) and are numbered per repeat
+  optional: boolean;
+  repeating?: boolean; // Member of the group that can be repeated: number1, number2, ...
+}
+
+export interface FunctionSignature {
+  name: string;
+  description: string;
+  returnType: FunctionReturnType;
+  syntax: string; // As Excel shows it: SUMIFS(sum_range, criteria_range1, criteria1, [criteria_range2, criteria2], ...)
+  arguments: FunctionArgument[];
+  minArgs: number;
+  maxArgs: number;
+}
+
+type CatalogEntry = [FunctionReturnType, string, string, number?];
+
+export class FunctionCatalog {
+  // Excel accepts at most 255 arguments in a single call
+  private static MAX_ARGUMENTS = 255;
+
+  // Function name -> [return type, argument list as Excel's tooltip shows it, description,
+  // argument limit where Excel's is lower than the repeating group allows].
+  // Optional arguments are in brackets; the bracketed group before "..." repeats.
+  private static FUNCTIONS: Record<string, CatalogEntry> = {
+    // Math and trigonometry
+    'ABS': ['number', 'number', 'Returns the absolute value of a number'],
+    'ACOS': ['number', 'number', 'Returns the arccosine of a number'],
+    'ACOSH': ['number', 'number', 'Returns the inverse hyperbolic cosine of a number'],
+    'ACOT': ['number', 'number', 'Returns the arccotangent of a number'],
+    'ACOTH': ['number', 'number', 'Returns the hyperbolic arccotangent of a number'],
+    'AGGREGATE': ['number', 'function_num, options, ref1, [ref2], ...', 'Returns an aggregate in a list or database, optionally ignoring hidden rows and errors'],
+    'ARABIC': ['number', 'text', 'Converts a Roman numeral to an Arabic numeral'],
+    'ASIN': ['number', 'number', 'Returns the arcsine of a number'],
+    'ASINH': ['number', 'number', 'Returns the inverse hyperbolic sine of a number'],
+    'ATAN': ['number', 'number', 'Returns the arctangent of a number'],
+    'ATAN2': ['number', 'x_num, y_num', 'Returns the arctangent from x- and y-coordinates'],
+    'ATANH': ['number', 'number', 'Returns the inverse hyperbolic tangent of a number'],
+    'BASE': ['text', 'number, radix, [min_length]', 'Converts a number into text in the given radix'],
+    'CEILING': ['number', 'number, significance', 'Rounds a number up to the nearest multiple of significance'],
+    'CEILING.MATH': ['number', 'number, [significance], [mode]', 'Rounds a number up to the nearest integer or multiple of significance'],
+    'CEILING.PRECISE': ['number', 'number, [significance]', 'Rounds a number up to the nearest integer or multiple of significance, regardless of sign'],
+    'COMBIN': ['number', 'number, number_chosen', 'Returns the number of combinations for a given number of objects'],
+    'COMBINA': ['number', 'number, number_chosen', 'Returns the number of combinations with repetitions'],
+    'COS': ['number', 'number', 'Returns the cosine of a number'],
+    'COSH': ['number', 'number', 'Returns the hyperbolic cosine of a number'],
+    'COT': ['number', 'number', 'Returns the cotangent of an angle'],
+    'COTH': ['number', 'number', 'Returns the hyperbolic cotangent of a number'],
+    'CSC': ['number', 'number', 'Returns the cosecant of an angle'],
+    'CSCH': ['number', 'number', 'Returns the hyperbolic cosecant of an angle'],
+    'DECIMAL': ['number', 'text, radix', 'Converts a text representation of a number in a given base into a decimal number'],
+    'DEGREES': ['number', 'angle', 'Converts radians to degrees'],
+    'EVEN': ['number', 'number', 'Rounds a number up to the nearest even integer'],
+    'EXP': ['number', 'number', 'Returns e raised to the power of a given number'],
+    'FACT': ['number', 'number', 'Returns the factorial of a number'],
+    'FACTDOUBLE': ['number', 'number', 'Returns the double factorial of a number'],
+    'FLOOR': ['number', 'number, significance', 'Rounds a number down, toward zero'],
+    'FLOOR.MATH': ['number', 'number, [significance], [mode]', 'Rounds a number down to the nearest integer or multiple of significance'],
+    'FLOOR.PRECISE': ['number', 'number, [significance]', 'Rounds a number down to the nearest integer or multiple of significance, regardless of sign'],
+    'GCD': ['number', 'number1, [number2], ...', 'Returns the greatest common divisor'],
+    'INT': ['number', 'number', 'Rounds a number down to the nearest integer'],
+    'ISO.CEILING': ['number', 'number, [significance]', 'Rounds a number up to the nearest integer or multiple of significance'],
+    'LCM': ['number', 'number1, [number2], ...', 'Returns the least common multiple'],
+    'LN': ['number', 'number', 'Returns the natural logarithm of a number'],
+    'LOG': ['number', 'number, [base]', 'Returns the logarithm of a number to a specified base'],
+    'LOG10': ['number', 'number', 'Returns the base-10 logarithm of a number'],
+    'MDETERM': ['number', 'array', 'Returns the matrix determinant of an array'],
+    'MINVERSE': ['array', 'array', 'Returns the matrix inverse of an array'],
+    'MMULT': ['array', 'array1, array2', 'Returns the matrix product of two arrays'],
+    'MOD': ['number', 'number, divisor', 'Returns the remainder from division'],
+    'MROUND': ['number', 'number, multiple', 'Returns a number rounded to the desired multiple'],
+    'MULTINOMIAL': ['number', 'number1, [number2], ...', 'Returns the multinomial of a set of numbers'],
+    'MUNIT': ['array', 'dimension', 'Returns the unit matrix for the specified dimension'],
+    'ODD': ['number', 'number', 'Rounds a number up to the nearest odd integer'],
+    'PI': ['number', '', 'Returns the value of pi'],
+    'POWER': ['number', 'number, power', 'Returns the result of a number raised to a power'],
+    'PRODUCT': ['number', 'number1, [number2], ...', 'Multiplies its arguments'],
+    'QUOTIENT': ['number', 'numerator, denominator', 'Returns the integer portion of a division'],
+    'RADIANS': ['number', 'angle', 'Converts degrees to radians'],
+    'RAND': ['number', '', 'Returns a random number between 0 and 1'],
+    'RANDARRAY': ['array', '[rows], [columns], [min], [max], [whole_number]', 'Returns an array of random numbers'],
+    'RANDBETWEEN': ['number', 'bottom, top', 'Returns a random number between the numbers you specify'],
+    'ROMAN': ['text', 'number, [form]', 'Converts an Arabic numeral to Roman, as text'],
+    'ROUND': ['number', 'number, num_digits', 'Rounds a number to a specified number of digits'],
+    'ROUNDDOWN': ['number', 'number, num_digits', 'Rounds a number down, toward zero'],
+    'ROUNDUP': ['number', 'number, num_digits', 'Rounds a number up, away from zero'],
+    'SEC': ['number', 'number', 'Returns the secant of an angle'],
+    'SECH': ['number', 'number', 'Returns the hyperbolic secant of an angle'],
+    'SEQUENCE': ['array', 'rows, [columns], [start], [step]', 'Generates a list of sequential numbers in an array'],
+    'SERIESSUM': ['number', 'x, n, m, coefficients', 'Returns the sum of a power series based on the formula'],
+    'SIGN': ['number', 'number', 'Returns the sign of a number'],
+    'SIN': ['number', 'number', 'Returns the sine of the given angle'],
+    'SINH': ['number', 'number', 'Returns the hyperbolic sine of a number'],
+    'SQRT': ['number', 'number', 'Returns a positive square root'],
+    'SQRTPI': ['number', 'number', 'Returns the square root of (number * pi)'],
+    'SUBTOTAL': ['number', 'function_num, ref1, [ref2], ...', 'Returns a subtotal in a list or database'],
+    'SUM': ['number', 'number1, [number2], ...', 'Adds its arguments'],
+    'SUMIF': ['number', 'range, criteria, [sum_range]', 'Adds the cells specified by a given criteria'],
+    'SUMIFS': ['number', 'sum_range, criteria_range1, criteria1, [criteria_range2, criteria2], ...', 'Adds the cells in a range that meet multiple criteria'],
+    'SUMPRODUCT': ['number', 'array1, [array2], ...', 'Returns the sum of the products of corresponding array components'],
+    'SUMSQ': ['number', 'number1, [number2], ...', 'Returns the sum of the squares of the arguments'],
+    'SUMX2MY2': ['number', 'array_x, array_y', 'Returns the sum of the difference of squares of corresponding values in two arrays'],
+    'SUMX2PY2': ['number', 'array_x, array_y', 'Returns the sum of the sum of squares of corresponding values in two arrays'],
+    'SUMXMY2': ['number', 'array_x, array_y', 'Returns the sum of squares of differences of corresponding values in two arrays'],
+    'TAN': ['number', 'number', 'Returns the tangent of a number'],
+    'TANH': ['number', 'number', 'Returns the hyperbolic tangent of a number'],
+    'TRUNC': ['number', 'number, [num_digits]', 'Truncates a number to an integer'],
+
+    // Logical
+    'AND': ['logical', 'logical1, [logical2], ...', 'Returns TRUE if all of its arguments are TRUE'],
+    'BYCOL': ['array', 'array, lambda', 'Applies a LAMBDA to each column and returns an array of the results'],
+    'BYROW': ['array', 'array, lambda', 'Applies a LAMBDA to each row and returns an array of the results'],
+    'FALSE': ['logical', '', 'Returns the logical value FALSE'],
+    'IF': ['any', 'logical_test, [value_if_true], [value_if_false]', 'Specifies a logical test to perform'],
+    'IFERROR': ['any', 'value, value_if_error', 'Returns a value you specify if a formula evaluates to an error'],
+    'IFNA': ['any', 'value, value_if_na', 'Returns the value you specify if the expression resolves to #N/A'],
+    'IFS': ['any', 'logical_test1, value_if_true1, [logical_test2, value_if_true2], ...', 'Returns the value for the first condition that is TRUE'],
+    'LAMBDA': ['any', '[parameter1], ..., calculation', 'Creates a custom, reusable function', 254],
+    'LET': ['any', 'name1, name_value1, [name2, name_value2], ..., calculation', 'Assigns names to calculation results', 253],
+    'MAKEARRAY': ['array', 'rows, columns, lambda', 'Returns a calculated array of a specified row and column size by applying a LAMBDA'],
+    'MAP': ['array', 'array1, [array2], ..., lambda', 'Returns an array formed by mapping each value in the arrays to a new value with a LAMBDA'],
+    'NOT': ['logical', 'logical', 'Reverses the logic of its argument'],
+    'OR': ['logical', 'logical1, [logical2], ...', 'Returns TRUE if any argument is TRUE'],
+    'REDUCE': ['any', '[initial_value], array, lambda', 'Reduces an array to an accumulated value by applying a LAMBDA to each value'],
+    'SCAN': ['array', '[initial_value], array, lambda', 'Scans an array by applying a LAMBDA to each value and returns an array of intermediate values'],
+    'SWITCH': ['any', 'expression, value1, result1, [value2, result2], ..., [default]', 'Evaluates an expression against a list of values and returns the result for the first match'],
+    'TRUE': ['logical', '', 'Returns the logical value TRUE'],
+    'XOR': ['logical', 'logical1, [logical2], ...', 'Returns a logical exclusive OR of all arguments'],
+
+    // Lookup and reference
+    'ADDRESS': ['text', 'row_num, column_num, [abs_num], [a1], [sheet_text]', 'Returns a reference as text to a single cell in a worksheet'],
+    'AREAS': ['number', 'reference', 'Returns the number of areas in a reference'],
+    'CHOOSE': ['any', 'index_num, value1, [value2], ...', 'Chooses a value from a list of values'],
+    'CHOOSECOLS': ['array', 'array, col_num1, [col_num2], ...', 'Returns the specified columns from an array'],
+    'CHOOSEROWS': ['array', 'array, row_num1, [row_num2], ...', 'Returns the specified rows from an array'],
+    'COLUMN': ['number', '[reference]', 'Returns the column number of a reference'],
+    'COLUMNS': ['number', 'array', 'Returns the number of columns in a reference'],
+    'DROP': ['array', 'array, rows, [columns]', 'Excludes a specified number of rows or columns from the start or end of an array'],
+    'EXPAND': ['array', 'array, rows, [columns], [pad_with]', 'Expands or pads an array to specified row and column dimensions'],
+    'FILTER': ['array', 'array, include, [if_empty]', 'Filters a range of data based on criteria you define'],
+    'FORMULATEXT': ['text', 'reference', 'Returns the formula at the given reference as text'],
+    'GETPIVOTDATA': ['any', 'data_field, pivot_table, [field1, item1], ...', 'Returns data stored in a PivotTable report'],
+    'GROUPBY': ['array', 'row_fields, values, function, [field_headers], [total_depth], [sort_order], [filter_array], [field_relationship]', 'Groups rows by the values in a field and aggregates them'],
+    'HLOOKUP': ['any', 'lookup_value, table_array, row_index_num, [range_lookup]', 'Looks in the top row of an array and returns the value of the indicated cell'],
+    'HSTACK': ['array', 'array1, [array2], ...', 'Appends arrays horizontally and in sequence to return a larger array'],
+    'HYPERLINK': ['any', 'link_location, [friendly_name]', 'Creates a shortcut or jump that opens a document stored on a network server, an intranet, or the Internet'],
+    'IMAGE': ['any', 'source, [alt_text], [sizing], [height], [width]', 'Returns an image from a given source'],
+    'INDEX': ['reference', 'array, row_num, [column_num], [area_num]', 'Uses an index to choose a value from a reference or array'],
+    'INDIRECT': ['reference', 'ref_text, [a1]', 'Returns a reference indicated by a text value'],
+    'LOOKUP': ['any', 'lookup_value, lookup_vector, [result_vector]', 'Looks up values in a vector or array'],
+    'MATCH': ['number', 'lookup_value, lookup_array, [match_type]', 'Looks up values in a reference or array'],
+    'OFFSET': ['reference', 'reference, rows, cols, [height], [width]', 'Returns a reference offset from a given reference'],
+    'PIVOTBY': ['array', 'row_fields, col_fields, values, function, [field_headers], [row_total_depth], [row_sort_order], [col_total_depth], [col_sort_order], [filter_array], [relative_to]', 'Groups rows and columns by the values in fields and aggregates them'],
+    'ROW': ['number', '[reference]', 'Returns the row number of a reference'],
+    'ROWS': ['number', 'array', 'Returns the number of rows in a reference'],
+    'RTD': ['any', 'prog_id, server, topic1, [topic2], ...', 'Retrieves real-time data from a program that supports COM automation'],
+    'SORT': ['array', 'array, [sort_index], [sort_order], [by_col]', 'Sorts the contents of a range or array'],
+    'SORTBY': ['array', 'array, by_array1, [sort_order1], [by_array2, sort_order2], ...', 'Sorts the contents of a range or array based on the values in a corresponding range or array'],
+    'TAKE': ['array', 'array, rows, [columns]', 'Returns a specified number of contiguous rows or columns from the start or end of an array'],
+    'TOCOL': ['array', 'array, [ignore], [scan_by_column]', 'Returns the array in a single column'],
+    'TOROW': ['array', 'array, [ignore], [scan_by_column]', 'Returns the array in a single row'],
+    'TRANSPOSE': ['array', 'array', 'Returns the transpose of an array'],
+    'TRIMRANGE': ['reference', 'range, [trim_rows], [trim_cols]', 'Excludes blank rows and columns from the outer edges of a range'],
+    'UNIQUE': ['array', 'array, [by_col], [exactly_once]', 'Returns a list of unique values in a list or range'],
+    'VLOOKUP': ['any', 'lookup_value, table_array, col_index_num, [range_lookup]', 'Looks in the first column of an array and moves across the row to return the value of a cell'],
+    'VSTACK': ['array', 'array1, [array2], ...', 'Appends arrays vertically and in sequence to return a larger array'],
+    'WRAPCOLS': ['array', 'vector, wrap_count, [pad_with]', 'Wraps the provided row or column of values by columns after a specified number of elements'],
+    'WRAPROWS': ['array', 'vector, wrap_count, [pad_with]', 'Wraps the provided row or column of values by rows after a specified number of elements'],
+    'XLOOKUP': ['any', 'lookup_value, lookup_array, return_array, [if_not_found], [match_mode], [search_mode]', 'Searches a range or an array and returns an item corresponding to the first match it finds'],
+    'XMATCH': ['number', 'lookup_value, lookup_array, [match_mode], [search_mode]', 'Returns the relative position of an item in an array or range of cells'],
+
+    // Text
+    'ARRAYTOTEXT': ['text', 'array, [format]', 'Returns an array of text values from any specified range'],
+    'ASC': ['text', 'text', 'Changes full-width (double-byte) characters within a character string to half-width (single-byte) characters'],
+    'BAHTTEXT': ['text', 'number', 'Converts a number to text, using the baht currency format'],
+    'CHAR': ['text', 'number', 'Returns the character specified by the code number'],
+    'CLEAN': ['text', 'text', 'Removes all nonprintable characters from text'],
+    'CODE': ['number', 'text', 'Returns a numeric code for the first character in a text string'],
+    'CONCAT': ['text', 'text1, [text2], ...', 'Combines the text from multiple ranges and/or strings'],
+    'CONCATENATE': ['text', 'text1, [text2], ...', 'Joins several text items into one text item'],
+    'DBCS': ['text', 'text', 'Changes half-width (single-byte) characters within a character string to full-width (double-byte) characters'],
+    'DOLLAR': ['text', 'number, [decimals]', 'Converts a number to text, using the $ (dollar) currency format'],
+    'EXACT': ['logical', 'text1, text2', 'Checks to see if two text values are identical'],
+    'FIND': ['number', 'find_text, within_text, [start_num]', 'Finds one text value within another (case-sensitive)'],
+    'FINDB': ['number', 'find_text, within_text, [start_num]', 'Finds one text value within another (case-sensitive), counting bytes'],
+    'FIXED': ['text', 'number, [decimals], [no_commas]', 'Formats a number as text with a fixed number of decimals'],
+    'LEFT': ['text', 'text, [num_chars]', 'Returns the leftmost characters from a text value'],
+    'LEFTB': ['text', 'text, [num_bytes]', 'Returns the leftmost bytes from a text value'],
+    'LEN': ['number', 'text', 'Returns the number of characters in a text string'],
+    'LENB': ['number', 'text', 'Returns the number of bytes used to represent the characters in a text string'],
+    'LOWER': ['text', 'text', 'Converts text to lowercase'],
+    'MID': ['text', 'text, start_num, num_chars', 'Returns a specific number of characters from a text string starting at the position you specify'],
+    'MIDB': ['text', 'text, start_num, num_bytes', 'Returns a specific number of bytes from a text string starting at the position you specify'],
+    'NUMBERVALUE': ['number', 'text, [decimal_separator], [group_separator]', 'Converts text to number in a locale-independent manner'],
+    'PHONETIC': ['text', 'reference', 'Extracts the phonetic (furigana) characters from a text string'],
+    'PROPER': ['text', 'text', 'Capitalizes the first letter in each word of a text value'],
+    'REGEXEXTRACT': ['any', 'text, pattern, [return_mode], [case_sensitivity]', 'Extracts strings within the provided text that match the pattern'],
+    'REGEXREPLACE': ['text', 'text, pattern, replacement, [occurrence], [case_sensitivity]', 'Replaces strings within the provided text that match the pattern with replacement'],
+    'REGEXTEST': ['logical', 'text, pattern, [case_sensitivity]', 'Determines whether any part of text matches the pattern'],
+    'REPLACE': ['text', 'old_text, start_num, num_chars, new_text', 'Replaces characters within text'],
+    'REPLACEB': ['text', 'old_text, start_num, num_bytes, new_text', 'Replaces bytes within text'],
+    'REPT': ['text', 'text, number_times', 'Repeats text a given number of times'],
+    'RIGHT': ['text', 'text, [num_chars]', 'Returns the rightmost characters from a text value'],
+    'RIGHTB': ['text', 'text, [num_bytes]', 'Returns the rightmost bytes from a text value'],
+    'SEARCH': ['number', 'find_text, within_text, [start_num]', 'Finds one text value within another (not case-sensitive)'],
+    'SEARCHB': ['number', 'find_text, within_text, [start_num]', 'Finds one text value within another (not case-sensitive), counting bytes'],
+    'SUBSTITUTE': ['text', 'text, old_text, new_text, [instance_num]', 'Substitutes new text for old text in a text string'],
+    'T': ['text', 'value', 'Converts its arguments to text'],
+    'TEXT': ['text', 'value, format_text', 'Formats a number and converts it to text'],
+    'TEXTAFTER': ['text', 'text, delimiter, [instance_num], [match_mode], [match_end], [if_not_found]', 'Returns text that occurs after a given character or string'],
+    'TEXTBEFORE': ['text', 'text, delimiter, [instance_num], [match_mode], [match_end], [if_not_found]', 'Returns text that occurs before a given character or string'],
+    'TEXTJOIN': ['text', 'delimiter, ignore_empty, text1, [text2], ...', 'Combines the text from multiple ranges and/or strings with a delimiter'],
+    'TEXTSPLIT': ['array', 'text, col_delimiter, [row_delimiter], [ignore_empty], [match_mode], [pad_with]', 'Splits text strings by using column and row delimiters'],
+    'TRIM': ['text', 'text', 'Removes spaces from text'],
+    'UNICHAR': ['text', 'number', 'Returns the Unicode character that is referenced by the given numeric value'],
+    'UNICODE': ['number', 'text', 'Returns the number (code point) that corresponds to the first character of the text'],
+    'UPPER': ['text', 'text', 'Converts text to uppercase'],
+    'VALUE': ['number', 'text', 'Converts a text argument to a number'],
+    'VALUETOTEXT': ['text', 'value, [format]', 'Returns text from any specified value'],
+
+    // Information
+    'CELL': ['any', 'info_type, [reference]', 'Returns information about the formatting, location, or contents of a cell'],
+    'ERROR.TYPE': ['number', 'error_val', 'Returns a number corresponding to an error type'],
+    'INFO': ['any', 'type_text', 'Returns information about the current operating environment'],
+    'ISBLANK': ['logical', 'value', 'Returns TRUE if the value is blank'],
+    'ISERR': ['logical', 'value', 'Returns TRUE if the value is any error value except #N/A'],
+    'ISERROR': ['logical', 'value', 'Returns TRUE if the value is any error value'],
+    'ISEVEN': ['logical', 'number', 'Returns TRUE if the number is even'],
+    'ISFORMULA': ['logical', 'reference', 'Returns TRUE if there is a reference to a cell that contains a formula'],
+    'ISLOGICAL': ['logical', 'value', 'Returns TRUE if the value is a logical value'],
+    'ISNA': ['logical', 'value', 'Returns TRUE if the value is the #N/A error value'],
+    'ISNONTEXT': ['logical', 'value', 'Returns TRUE if the value is not text'],
+    'ISNUMBER': ['logical', 'value', 'Returns TRUE if the value is a number'],
+    'ISODD': ['logical', 'number', 'Returns TRUE if the number is odd'],
+    'ISOMITTED': ['logical', 'argument', 'Checks whether the value in a LAMBDA is missing'],
+    'ISREF': ['logical', 'value', 'Returns TRUE if the value is a reference'],
+    'ISTEXT': ['logical', 'value', 'Returns TRUE if the value is text'],
+    'N': ['number', 'value', 'Returns a value converted to a number'],
+    'NA': ['any', '', 'Returns the error value #N/A'],
+    'SHEET': ['number', '[value]', 'Returns the sheet number of the referenced sheet'],
+    'SHEETS': ['number', '[reference]', 'Returns the number of sheets in a reference'],
+    'TYPE': ['number', 'value', 'Returns a number indicating the data type of a value'],
+
+    // Date and time
+    'DATE': ['number', 'year, month, day', 'Returns the serial number of a particular date'],
+    'DATEDIF': ['number', 'start_date, end_date, unit', 'Calculates the number of days, months, or years between two dates'],
+    'DATEVALUE': ['number', 'date_text', 'Converts a date in the form of text to a serial number'],
+    'DAY': ['number', 'serial_number', 'Converts a serial number to a day of the month'],
+    'DAYS': ['number', 'end_date, start_date', 'Returns the number of days between two dates'],
+    'DAYS360': ['number', 'start_date, end_date, [method]', 'Calculates the number of days between two dates based on a 360-day year'],
+    'EDATE': ['number', 'start_date, months', 'Returns the serial number of the date that is the indicated number of months before or after the start date'],
+    'EOMONTH': ['number', 'start_date, months', 'Returns the serial number of the last day of the month before or after a specified number of months'],
+    'HOUR': ['number', 'serial_number', 'Converts a serial number to an hour'],
+    'ISOWEEKNUM': ['number', 'date', 'Returns the ISO week number of the year for a given date'],
+    'MINUTE': ['number', 'serial_number', 'Converts a serial number to a minute'],
+    'MONTH': ['number', 'serial_number', 'Converts a serial number to a month'],
+    'NETWORKDAYS': ['number', 'start_date, end_date, [holidays]', 'Returns the number of whole workdays between two dates'],
+    'NETWORKDAYS.INTL': ['number', 'start_date, end_date, [weekend], [holidays]', 'Returns the number of whole workdays between two dates using parameters to indicate weekend days'],
+    'NOW': ['number', '', 'Returns the serial number of the current date and time'],
+    'SECOND': ['number', 'serial_number', 'Converts a serial number to a second'],
+    'TIME': ['number', 'hour, minute, second', 'Returns the serial number of a particular time'],
+    'TIMEVALUE': ['number', 'time_text', 'Converts a time in the form of text to a serial number'],
+    'TODAY': ['number', '', "Returns the serial number of today's date"],
+    'WEEKDAY': ['number', 'serial_number, [return_type]', 'Converts a serial number to a day of the week'],
+    'WEEKNUM': ['number', 'serial_number, [return_type]', 'Converts a serial number to a number representing where the week falls numerically within a year'],
+    'WORKDAY': ['number', 'start_date, days, [holidays]', 'Returns the serial number of the date before or after a specified number of workdays'],
+    'WORKDAY.INTL': ['number', 'start_date, days, [weekend], [holidays]', 'Returns the serial number of the date before or after a specified number of workdays using parameters to indicate weekend days'],
+    'YEAR': ['number', 'serial_number', 'Converts a serial number to a year'],
+    'YEARFRAC': ['number', 'start_date, end_date, [basis]', 'Returns the year fraction representing the number of whole days between start_date and end_date'],
+
+    // Statistical
+    'AVEDEV': ['number', 'number1, [number2], ...', 'Returns the average of the absolute deviations of data points from their mean'],
+    'AVERAGE': ['number', 'number1, [number2], ...', 'Returns the average of its arguments'],
+    'AVERAGEA': ['number', 'value1, [value2], ...', 'Returns the average of its arguments, including numbers, text, and logical values'],
+    'AVERAGEIF': ['number', 'range, criteria, [average_range]', 'Returns the average of all the cells in a range that meet a given criteria'],
+    'AVERAGEIFS': ['number', 'average_range, criteria_range1, criteria1, [criteria_range2, criteria2], ...', 'Returns the average of all cells that meet multiple criteria'],
+    'BETA.DIST': ['number', 'x, alpha, beta, cumulative, [A], [B]', 'Returns the beta cumulative distribution function'],
+    'BETA.INV': ['number', 'probability, alpha, beta, [A], [B]', 'Returns the inverse of the cumulative distribution function for a specified beta distribution'],
+    'BINOM.DIST': ['number', 'number_s, trials, probability_s, cumulative', 'Returns the individual term binomial distribution probability'],
+    'BINOM.DIST.RANGE': ['number', 'trials, probability_s, number_s, [number_s2]', 'Returns the probability of a trial result using a binomial distribution'],
+    'BINOM.INV': ['number', 'trials, probability_s, alpha', 'Returns the smallest value for which the cumulative binomial distribution is less than or equal to a criterion value'],
+    'CHISQ.DIST': ['number', 'x, deg_freedom, cumulative', 'Returns the cumulative beta probability density function'],
+    'CHISQ.DIST.RT': ['number', 'x, deg_freedom', 'Returns the one-tailed probability of the chi-squared distribution'],
+    'CHISQ.INV': ['number', 'probability, deg_freedom', 'Returns the cumulative beta probability density function'],
+    'CHISQ.INV.RT': ['number', 'probability, deg_freedom', 'Returns the inverse of the one-tailed probability of the chi-squared distribution'],
+    'CHISQ.TEST': ['number', 'actual_range, expected_range', 'Returns the test for independence'],
+    'CONFIDENCE.NORM': ['number', 'alpha, standard_dev, size', 'Returns the confidence interval for a population mean'],
+    'CONFIDENCE.T': ['number', 'alpha, standard_dev, size', "Returns the confidence interval for a population mean, using a Student's t distribution"],
+    'CORREL': ['number', 'array1, array2', 'Returns the correlation coefficient between two data sets'],
+    'COUNT': ['number', 'value1, [value2], ...', 'Counts how many numbers are in the list of arguments'],
+    'COUNTA': ['number', 'value1, [value2], ...', 'Counts how many values are in the list of arguments'],
+    'COUNTBLANK': ['number', 'range', 'Counts the number of blank cells within a range'],
+    'COUNTIF': ['number', 'range, criteria', 'Counts the number of cells within a range that meet the given criteria'],
+    'COUNTIFS': ['number', 'criteria_range1, criteria1, [criteria_range2, criteria2], ...', 'Counts the number of cells within a range that meet multiple criteria'],
+    'COVARIANCE.P': ['number', 'array1, array2', 'Returns covariance, the average of the products of paired deviations'],
+    'COVARIANCE.S': ['number', 'array1, array2', 'Returns the sample covariance, the average of the products deviations for each data point pair in two data sets'],
+    'DEVSQ': ['number', 'number1, [number2], ...', 'Returns the sum of squares of deviations'],
+    'EXPON.DIST': ['number', 'x, lambda, cumulative', 'Returns the exponential distribution'],
+    'F.DIST': ['number', 'x, deg_freedom1, deg_freedom2, cumulative', 'Returns the F probability distribution'],
+    'F.DIST.RT': ['number', 'x, deg_freedom1, deg_freedom2', 'Returns the right-tailed F probability distribution'],
+    'F.INV': ['number', 'probability, deg_freedom1, deg_freedom2', 'Returns the inverse of the F probability distribution'],
+    'F.INV.RT': ['number', 'probability, deg_freedom1, deg_freedom2', 'Returns the inverse of the right-tailed F probability distribution'],
+    'F.TEST': ['number', 'array1, array2', 'Returns the result of an F-test'],
+    'FISHER': ['number', 'x', 'Returns the Fisher transformation'],
+    'FISHERINV': ['number', 'y', 'Returns the inverse of the Fisher transformation'],
+    'FORECAST': ['number', "x, known_y's, known_x's", 'Returns a value along a linear trend'],
+    'FORECAST.ETS': ['number', 'target_date, values, timeline, [seasonality], [data_completion], [aggregation]', 'Returns a future value based on existing values using the AAA version of Exponential Smoothing'],
+    'FORECAST.ETS.CONFINT': ['number', 'target_date, values, timeline, [confidence_level], [seasonality], [data_completion], [aggregation]', 'Returns a confidence interval for the forecast value at the specified target date'],
+    'FORECAST.ETS.SEASONALITY': ['number', 'values, timeline, [data_completion], [aggregation]', 'Returns the length of the repetitive pattern Excel detects for the specified time series'],
+    'FORECAST.ETS.STAT': ['number', 'values, timeline, statistic_type, [seasonality], [data_completion], [aggregation]', 'Returns a statistical value as a result of time series forecasting'],
+    'FORECAST.LINEAR': ['number', "x, known_y's, known_x's", 'Returns a future value based on existing values'],
+    'FREQUENCY': ['array', 'data_array, bins_array', 'Returns a frequency distribution as a vertical array'],
+    'GAMMA': ['number', 'number', 'Returns the Gamma function value'],
+    'GAMMA.DIST': ['number', 'x, alpha, beta, cumulative', 'Returns the gamma distribution'],
+    'GAMMA.INV': ['number', 'probability, alpha, beta', 'Returns the inverse of the gamma cumulative distribution'],
+    'GAMMALN': ['number', 'x', 'Returns the natural logarithm of the gamma function'],
+    'GAMMALN.PRECISE': ['number', 'x', 'Returns the natural logarithm of the gamma function'],
+    'GAUSS': ['number', 'z', 'Returns 0.5 less than the standard normal cumulative distribution'],
+    'GEOMEAN': ['number', 'number1, [number2], ...', 'Returns the geometric mean'],
+    'GROWTH': ['array', "known_y's, [known_x's], [new_x's], [const]", 'Returns values along an exponential trend'],
+    'HARMEAN': ['number', 'number1, [number2], ...', 'Returns the harmonic mean'],
+    'HYPGEOM.DIST': ['number', 'sample_s, number_sample, population_s, number_pop, cumulative', 'Returns the hypergeometric distribution'],
+    'INTERCEPT': ['number', "known_y's, known_x's", 'Returns the intercept of the linear regression line'],
+    'KURT': ['number', 'number1, [number2], ...', 'Returns the kurtosis of a data set'],
+    'LARGE': ['number', 'array, k', 'Returns the k-th largest value in a data set'],
+    'LINEST': ['array', "known_y's, [known_x's], [const], [stats]", 'Returns the parameters of a linear trend'],
+    'LOGEST': ['array', "known_y's, [known_x's], [const], [stats]", 'Returns the parameters of an exponential trend'],
+    'LOGNORM.DIST': ['number', 'x, mean, standard_dev, cumulative', 'Returns the cumulative lognormal distribution'],
+    'LOGNORM.INV': ['number', 'probability, mean, standard_dev', 'Returns the inverse of the lognormal cumulative distribution'],
+    'MAX': ['number', 'number1, [number2], ...', 'Returns the maximum value in a list of arguments'],
+    'MAXA': ['number', 'value1, [value2], ...', 'Returns the maximum value in a list of arguments, including numbers, text, and logical values'],
+    'MAXIFS': ['number', 'max_range, criteria_range1, criteria1, [criteria_range2, criteria2], ...', 'Returns the maximum value among cells specified by a given set of conditions or criteria'],
+    'MEDIAN': ['number', 'number1, [number2], ...', 'Returns the median of the given numbers'],
+    'MIN': ['number', 'number1, [number2], ...', 'Returns the minimum value in a list of arguments'],
+    'MINA': ['number', 'value1, [value2], ...', 'Returns the smallest value in a list of arguments, including numbers, text, and logical values'],
+    'MINIFS': ['number', 'min_range, criteria_range1, criteria1, [criteria_range2, criteria2], ...', 'Returns the minimum value among cells specified by a given set of conditions or criteria'],
+    'MODE.MULT': ['array', 'number1, [number2], ...', 'Returns a vertical array of the most frequently occurring values in a data set'],
+    'MODE.SNGL': ['number', 'number1, [number2], ...', 'Returns the most common value in a data set'],
+    'NEGBINOM.DIST': ['number', 'number_f, number_s, probability_s, cumulative', 'Returns the negative binomial distribution'],
+    'NORM.DIST': ['number', 'x, mean, standard_dev, cumulative', 'Returns the normal cumulative distribution'],
+    'NORM.INV': ['number', 'probability, mean, standard_dev', 'Returns the inverse of the normal cumulative distribution'],
+    'NORM.S.DIST': ['number', 'z, cumulative', 'Returns the standard normal cumulative distribution'],
+    'NORM.S.INV': ['number', 'probability', 'Returns the inverse of the standard normal cumulative distribution'],
+    'PEARSON': ['number', 'array1, array2', 'Returns the Pearson product moment correlation coefficient'],
+    'PERCENTILE.EXC': ['number', 'array, k', 'Returns the k-th percentile of values in a range, where k is in the range 0..1, exclusive'],
+    'PERCENTILE.INC': ['number', 'array, k', 'Returns the k-th percentile of values in a range'],
+    'PERCENTOF': ['number', 'data_subset, data_all', 'Sums the values in the subset and divides it by all the values'],
+    'PERCENTRANK.EXC': ['number', 'array, x, [significance]', 'Returns the rank of a value in a data set as a percentage (0..1, exclusive) of the data set'],
+    'PERCENTRANK.INC': ['number', 'array, x, [significance]', 'Returns the percentage rank of a value in a data set'],
+    'PERMUT': ['number', 'number, number_chosen', 'Returns the number of permutations for a given number of objects'],
+    'PERMUTATIONA': ['number', 'number, number_chosen', 'Returns the number of permutations for a given number of objects (with repetitions) that can be selected from the total objects'],
+    'PHI': ['number', 'x', 'Returns the value of the density function for a standard normal distribution'],
+    'POISSON.DIST': ['number', 'x, mean, cumulative', 'Returns the Poisson distribution'],
+    'PROB': ['number', 'x_range, prob_range, lower_limit, [upper_limit]', 'Returns the probability that values in a range are between two limits'],
+    'QUARTILE.EXC': ['number', 'array, quart', 'Returns the quartile of the data set, based on percentile values from 0..1, exclusive'],
+    'QUARTILE.INC': ['number', 'array, quart', 'Returns the quartile of a data set'],
+    'RANK.AVG': ['number', 'number, ref, [order]', 'Returns the rank of a number in a list of numbers'],
+    'RANK.EQ': ['number', 'number, ref, [order]', 'Returns the rank of a number in a list of numbers'],
+    'RSQ': ['number', "known_y's, known_x's", "Returns the square of the Pearson product moment correlation coefficient"],
+    'SKEW': ['number', 'number1, [number2], ...', 'Returns the skewness of a distribution'],
+    'SKEW.P': ['number', 'number1, [number2], ...', 'Returns the skewness of a distribution based on a population'],
+    'SLOPE': ['number', "known_y's, known_x's", 'Returns the slope of the linear regression line'],
+    'SMALL': ['number', 'array, k', 'Returns the k-th smallest value in a data set'],
+    'STANDARDIZE': ['number', 'x, mean, standard_dev', 'Returns a normalized value'],
+    'STDEV.P': ['number', 'number1, [number2], ...', 'Calculates standard deviation based on the entire population'],
+    'STDEV.S': ['number', 'number1, [number2], ...', 'Estimates standard deviation based on a sample'],
+    'STDEVA': ['number', 'value1, [value2], ...', 'Estimates standard deviation based on a sample, including numbers, text, and logical values'],
+    'STDEVPA': ['number', 'value1, [value2], ...', 'Calculates standard deviation based on the entire population, including numbers, text, and logical values'],
+    'STEYX': ['number', "known_y's, known_x's", 'Returns the standard error of the predicted y-value for each x in the regression'],
+    'T.DIST': ['number', 'x, deg_freedom, cumulative', "Returns the Percentage Points (probability) for the Student's t-distribution"],
+    'T.DIST.2T': ['number', 'x, deg_freedom', "Returns the two-tailed Student's t-distribution"],
+    'T.DIST.RT': ['number', 'x, deg_freedom', "Returns the right-tailed Student's t-distribution"],
+    'T.INV': ['number', 'probability, deg_freedom', "Returns the t-value of the Student's t-distribution as a function of the probability and the degrees of freedom"],
+    'T.INV.2T': ['number', 'probability, deg_freedom', "Returns the two-tailed inverse of the Student's t-distribution"],
+    'T.TEST': ['number', 'array1, array2, tails, type', "Returns the probability associated with a Student's t-test"],
+    'TREND': ['array', "known_y's, [known_x's], [new_x's], [const]", 'Returns values along a linear trend'],
+    'TRIMMEAN': ['number', 'array, percent', 'Returns the mean of the interior of a data set'],
+    'VAR.P': ['number', 'number1, [number2], ...', 'Calculates variance based on the entire population'],
+    'VAR.S': ['number', 'number1, [number2], ...', 'Estimates variance based on a sample'],
+    'VARA': ['number', 'value1, [value2], ...', 'Estimates variance based on a sample, including numbers, text, and logical values'],
+    'VARPA': ['number', 'value1, [value2], ...', 'Calculates variance based on the entire population, including numbers, text, and logical values'],
+    'WEIBULL.DIST': ['number', 'x, alpha, beta, cumulative', 'Returns the Weibull distribution'],
+    'Z.TEST': ['number', 'array, x, [sigma]', 'Returns the one-tailed probability-value of a z-test'],
+
+    // Compatibility
+    'BETADIST': ['number', 'x, alpha, beta, [A], [B]', 'Returns the beta cumulative distribution function'],
+    'BETAINV': ['number', 'probability, alpha, beta, [A], [B]', 'Returns the inverse of the cumulative distribution function for a specified beta distribution'],
+    'BINOMDIST': ['number', 'number_s, trials, probability_s, cumulative', 'Returns the individual term binomial distribution probability'],
+    'CHIDIST': ['number', 'x, deg_freedom', 'Returns the one-tailed probability of the chi-squared distribution'],
+    'CHIINV': ['number', 'probability, deg_freedom', 'Returns the inverse of the one-tailed probability of the chi-squared distribution'],
+    'CHITEST': ['number', 'actual_range, expected_range', 'Returns the test for independence'],
+    'CONFIDENCE': ['number', 'alpha, standard_dev, size', 'Returns the confidence interval for a population mean'],
+    'COVAR': ['number', 'array1, array2', 'Returns covariance, the average of the products of paired deviations'],
+    'CRITBINOM': ['number', 'trials, probability_s, alpha', 'Returns the smallest value for which the cumulative binomial distribution is less than or equal to a criterion value'],
+    'EXPONDIST': ['number', 'x, lambda, cumulative', 'Returns the exponential distribution'],
+    'FDIST': ['number', 'x, deg_freedom1, deg_freedom2', 'Returns the F probability distribution'],
+    'FINV': ['number', 'probability, deg_freedom1, deg_freedom2', 'Returns the inverse of the F probability distribution'],
+    'FTEST': ['number', 'array1, array2', 'Returns the result of an F-test'],
+    'GAMMADIST': ['number', 'x, alpha, beta, cumulative', 'Returns the gamma distribution'],
+    'GAMMAINV': ['number', 'probability, alpha, beta', 'Returns the inverse of the gamma cumulative distribution'],
+    'HYPGEOMDIST': ['number', 'sample_s, number_sample, population_s, number_pop', 'Returns the hypergeometric distribution'],
+    'LOGINV': ['number', 'probability, mean, standard_dev', 'Returns the inverse of the lognormal cumulative distribution function'],
+    'LOGNORMDIST': ['number', 'x, mean, standard_dev', 'Returns the cumulative lognormal distribution'],
+    'MODE': ['number', 'number1, [number2], ...', 'Returns the most common value in a data set'],
+    'NEGBINOMDIST': ['number', 'number_f, number_s, probability_s', 'Returns the negative binomial distribution'],
+    'NORMDIST': ['number', 'x, mean, standard_dev, cumulative', 'Returns the normal cumulative distribution'],
+    'NORMINV': ['number', 'probability, mean, standard_dev', 'Returns the inverse of the normal cumulative distribution'],
+    'NORMSDIST': ['number', 'z', 'Returns the standard normal cumulative distribution'],
+    'NORMSINV': ['number', 'probability', 'Returns the inverse of the standard normal cumulative distribution'],
+    'PERCENTILE': ['number', 'array, k', 'Returns the k-th percentile of values in a range'],
+    'PERCENTRANK': ['number', 'array, x, [significance]', 'Returns the percentage rank of a value in a data set'],
+    'POISSON': ['number', 'x, mean, cumulative', 'Returns the Poisson distribution'],
+    'QUARTILE': ['number', 'array, quart', 'Returns the quartile of a data set'],
+    'RANK': ['number', 'number, ref, [order]', 'Returns the rank of a number in a list of numbers'],
+    'STDEV': ['number', 'number1, [number2], ...', 'Estimates standard deviation based on a sample'],
+    'STDEVP': ['number', 'number1, [number2], ...', 'Calculates standard deviation based on the entire population'],
+    'TDIST': ['number', 'x, deg_freedom, tails', "Returns the Student's t-distribution"],
+    'TINV': ['number', 'probability, deg_freedom', "Returns the inverse of the Student's t-distribution"],
+    'TTEST': ['number', 'array1, array2, tails, type', "Returns the probability associated with a Student's t-test"],
+    'VAR': ['number', 'number1, [number2], ...', 'Estimates variance based on a sample'],
+    'VARP': ['number', 'number1, [number2], ...', 'Calculates variance based on the entire population'],
+    'WEIBULL': ['number', 'x, alpha, beta, cumulative', 'Returns the Weibull distribution'],
+    'ZTEST': ['number', 'array, x, [sigma]', 'Returns the one-tailed probability-value of a z-test'],
+
+    // Financial
+    'ACCRINT': ['number', 'issue, first_interest, settlement, rate, par, frequency, [basis], [calc_method]', 'Returns the accrued interest for a security that pays periodic interest'],
+    'ACCRINTM': ['number', 'issue, settlement, rate, par, [basis]', 'Returns the accrued interest for a security that pays interest at maturity'],
+    'AMORDEGRC': ['number', 'cost, date_purchased, first_period, salvage, period, rate, [basis]', 'Returns the depreciation for each accounting period by using a depreciation coefficient'],
+    'AMORLINC': ['number', 'cost, date_purchased, first_period, salvage, period, rate, [basis]', 'Returns the depreciation for each accounting period'],
+    'COUPDAYBS': ['number', 'settlement, maturity, frequency, [basis]', 'Returns the number of days from the beginning of the coupon period to the settlement date'],
+    'COUPDAYS': ['number', 'settlement, maturity, frequency, [basis]', 'Returns the number of days in the coupon period that contains the settlement date'],
+    'COUPDAYSNC': ['number', 'settlement, maturity, frequency, [basis]', 'Returns the number of days from the settlement date to the next coupon date'],
+    'COUPNCD': ['number', 'settlement, maturity, frequency, [basis]', 'Returns the next coupon date after the settlement date'],
+    'COUPNUM': ['number', 'settlement, maturity, frequency, [basis]', 'Returns the number of coupons payable between the settlement date and maturity date'],
+    'COUPPCD': ['number', 'settlement, maturity, frequency, [basis]', 'Returns the previous coupon date before the settlement date'],
+    'CUMIPMT': ['number', 'rate, nper, pv, start_period, end_period, type', 'Returns the cumulative interest paid between two periods'],
+    'CUMPRINC': ['number', 'rate, nper, pv, start_period, end_period, type', 'Returns the cumulative principal paid on a loan between two periods'],
+    'DB': ['number', 'cost, salvage, life, period, [month]', 'Returns the depreciation of an asset for a specified period by using the fixed-declining balance method'],
+    'DDB': ['number', 'cost, salvage, life, period, [factor]', 'Returns the depreciation of an asset for a specified period by using the double-declining balance method'],
+    'DISC': ['number', 'settlement, maturity, pr, redemption, [basis]', 'Returns the discount rate for a security'],
+    'DOLLARDE': ['number', 'fractional_dollar, fraction', 'Converts a dollar price, expressed as a fraction, into a dollar price, expressed as a decimal number'],
+    'DOLLARFR': ['number', 'decimal_dollar, fraction', 'Converts a dollar price, expressed as a decimal number, into a dollar price, expressed as a fraction'],
+    'DURATION': ['number', 'settlement, maturity, coupon, yld, frequency, [basis]', 'Returns the annual duration of a security with periodic interest payments'],
+    'EFFECT': ['number', 'nominal_rate, npery', 'Returns the effective annual interest rate'],
+    'FV': ['number', 'rate, nper, pmt, [pv], [type]', 'Returns the future value of an investment'],
+    'FVSCHEDULE': ['number', 'principal, schedule', 'Returns the future value of an initial principal after applying a series of compound interest rates'],
+    'INTRATE': ['number', 'settlement, maturity, investment, redemption, [basis]', 'Returns the interest rate for a fully invested security'],
+    'IPMT': ['number', 'rate, per, nper, pv, [fv], [type]', 'Returns the interest payment for an investment for a given period'],
+    'IRR': ['number', 'values, [guess]', 'Returns the internal rate of return for a series of cash flows'],
+    'ISPMT': ['number', 'rate, per, nper, pv', 'Calculates the interest paid during a specific period of an investment'],
+    'MDURATION': ['number', 'settlement, maturity, coupon, yld, frequency, [basis]', 'Returns the Macauley modified duration for a security with an assumed par value of $100'],
+    'MIRR': ['number', 'values, finance_rate, reinvest_rate', 'Returns the internal rate of return where positive and negative cash flows are financed at different rates'],
+    'NOMINAL': ['number', 'effect_rate, npery', 'Returns the annual nominal interest rate'],
+    'NPER': ['number', 'rate, pmt, pv, [fv], [type]', 'Returns the number of periods for an investment'],
+    'NPV': ['number', 'rate, value1, [value2], ...', 'Returns the net present value of an investment based on a series of periodic cash flows and a discount rate'],
+    'ODDFPRICE': ['number', 'settlement, maturity, issue, first_coupon, rate, yld, redemption, frequency, [basis]', 'Returns the price per $100 face value of a security with an odd first period'],
+    'ODDFYIELD': ['number', 'settlement, maturity, issue, first_coupon, rate, pr, redemption, frequency, [basis]', 'Returns the yield of a security with an odd first period'],
+    'ODDLPRICE': ['number', 'settlement, maturity, last_interest, rate, yld, redemption, frequency, [basis]', 'Returns the price per $100 face value of a security with an odd last period'],
+    'ODDLYIELD': ['number', 'settlement, maturity, last_interest, rate, pr, redemption, frequency, [basis]', 'Returns the yield of a security with an odd last period'],
+    'PDURATION': ['number', 'rate, pv, fv', 'Returns the number of periods required by an investment to reach a specified value'],
+    'PMT': ['number', 'rate, nper, pv, [fv], [type]', 'Returns the periodic payment for an annuity'],
+    'PPMT': ['number', 'rate, per, nper, pv, [fv], [type]', 'Returns the payment on the principal for an investment for a given period'],
+    'PRICE': ['number', 'settlement, maturity, rate, yld, redemption, frequency, [basis]', 'Returns the price per $100 face value of a security that pays periodic interest'],
+    'PRICEDISC': ['number', 'settlement, maturity, discount, redemption, [basis]', 'Returns the price per $100 face value of a discounted security'],
+    'PRICEMAT': ['number', 'settlement, maturity, issue, rate, yld, [basis]', 'Returns the price per $100 face value of a security that pays interest at maturity'],
+    'PV': ['number', 'rate, nper, pmt, [fv], [type]', 'Returns the present value of an investment'],
+    'RATE': ['number', 'nper, pmt, pv, [fv], [type], [guess]', 'Returns the interest rate per period of an annuity'],
+    'RECEIVED': ['number', 'settlement, maturity, investment, discount, [basis]', 'Returns the amount received at maturity for a fully invested security'],
+    'RRI': ['number', 'nper, pv, fv', 'Returns an equivalent interest rate for the growth of an investment'],
+    'SLN': ['number', 'cost, salvage, life', 'Returns the straight-line depreciation of an asset for one period'],
+    'SYD': ['number', 'cost, salvage, life, per', "Returns the sum-of-years' digits depreciation of an asset for a specified period"],
+    'TBILLEQ': ['number', 'settlement, maturity, discount', 'Returns the bond-equivalent yield for a Treasury bill'],
+    'TBILLPRICE': ['number', 'settlement, maturity, discount', 'Returns the price per $100 face value for a Treasury bill'],
+    'TBILLYIELD': ['number', 'settlement, maturity, pr', 'Returns the yield for a Treasury bill'],
+    'VDB': ['number', 'cost, salvage, life, start_period, end_period, [factor], [no_switch]', 'Returns the depreciation of an asset for a specified or partial period by using a declining balance method'],
+    'XIRR': ['number', 'values, dates, [guess]', 'Returns the internal rate of return for a schedule of cash flows that is not necessarily periodic'],
+    'XNPV': ['number', 'rate, values, dates', 'Returns the net present value for a schedule of cash flows that is not necessarily periodic'],
+    'YIELD': ['number', 'settlement, maturity, rate, pr, redemption, frequency, [basis]', 'Returns the yield on a security that pays periodic interest'],
+    'YIELDDISC': ['number', 'settlement, maturity, pr, redemption, [basis]', 'Returns the annual yield for a discounted security'],
+    'YIELDMAT': ['number', 'settlement, maturity, issue, rate, pr, [basis]', 'Returns the annual yield of a security that pays interest at maturity'],
+
+    // Database
+    'DAVERAGE': ['number', 'database, field, criteria', 'Returns the average of selected database entries'],
+    'DCOUNT': ['number', 'database, field, criteria', 'Counts the cells that contain numbers in a database'],
+    'DCOUNTA': ['number', 'database, field, criteria', 'Counts nonblank cells in a database'],
+    'DGET': ['any', 'database, field, criteria', 'Extracts from a database a single record that matches the specified criteria'],
+    'DMAX': ['number', 'database, field, criteria', 'Returns the maximum value from selected database entries'],
+    'DMIN': ['number', 'database, field, criteria', 'Returns the minimum value from selected database entries'],
+    'DPRODUCT': ['number', 'database, field, criteria', 'Multiplies the values in a particular field of records that match the criteria in a database'],
+    'DSTDEV': ['number', 'database, field, criteria', 'Estimates the standard deviation based on a sample of selected database entries'],
+    'DSTDEVP': ['number', 'database, field, criteria', 'Calculates the standard deviation based on the entire population of selected database entries'],
+    'DSUM': ['number', 'database, field, criteria', 'Adds the numbers in the field column of records in the database that match the criteria'],
+    'DVAR': ['number', 'database, field, criteria', 'Estimates variance based on a sample from selected database entries'],
+    'DVARP': ['number', 'database, field, criteria', 'Calculates variance based on the entire population of selected database entries'],
+
+    // Engineering
+    'BESSELI': ['number', 'x, n', 'Returns the modified Bessel function In(x)'],
+    'BESSELJ': ['number', 'x, n', 'Returns the Bessel function Jn(x)'],
+    'BESSELK': ['number', 'x, n', 'Returns the modified Bessel function Kn(x)'],
+    'BESSELY': ['number', 'x, n', 'Returns the Bessel function Yn(x)'],
+    'BIN2DEC': ['number', 'number', 'Converts a binary number to decimal'],
+    'BIN2HEX': ['text', 'number, [places]', 'Converts a binary number to hexadecimal'],
+    'BIN2OCT': ['text', 'number, [places]', 'Converts a binary number to octal'],
+    'BITAND': ['number', 'number1, number2', "Returns a 'Bitwise And' of two numbers"],
+    'BITLSHIFT': ['number', 'number, shift_amount', 'Returns a value number shifted left by shift_amount bits'],
+    'BITOR': ['number', 'number1, number2', 'Returns a bitwise OR of 2 numbers'],
+    'BITRSHIFT': ['number', 'number, shift_amount', 'Returns a value number shifted right by shift_amount bits'],
+    'BITXOR': ['number', 'number1, number2', "Returns a bitwise 'Exclusive Or' of two numbers"],
+    'COMPLEX': ['text', 'real_num, i_num, [suffix]', 'Converts real and imaginary coefficients into a complex number'],
+    'CONVERT': ['number', 'number, from_unit, to_unit', 'Converts a number from one measurement system to another'],
+    'DEC2BIN': ['text', 'number, [places]', 'Converts a decimal number to binary'],
+    'DEC2HEX': ['text', 'number, [places]', 'Converts a decimal number to hexadecimal'],
+    'DEC2OCT': ['text', 'number, [places]', 'Converts a decimal number to octal'],
+    'DELTA': ['number', 'number1, [number2]', 'Tests whether two values are equal'],
+    'ERF': ['number', 'lower_limit, [upper_limit]', 'Returns the error function'],
+    'ERF.PRECISE': ['number', 'x', 'Returns the error function'],
+    'ERFC': ['number', 'x', 'Returns the complementary error function'],
+    'ERFC.PRECISE': ['number', 'x', 'Returns the complementary ERF function integrated between x and infinity'],
+    'GESTEP': ['number', 'number, [step]', 'Tests whether a number is greater than a threshold value'],
+    'HEX2BIN': ['text', 'number, [places]', 'Converts a hexadecimal number to binary'],
+    'HEX2DEC': ['number', 'number', 'Converts a hexadecimal number to decimal'],
+    'HEX2OCT': ['text', 'number, [places]', 'Converts a hexadecimal number to octal'],
+    'IMABS': ['number', 'inumber', 'Returns the absolute value (modulus) of a complex number'],
+    'IMAGINARY': ['number', 'inumber', 'Returns the imaginary coefficient of a complex number'],
+    'IMARGUMENT': ['number', 'inumber', 'Returns the argument theta, an angle expressed in radians'],
+    'IMCONJUGATE': ['text', 'inumber', 'Returns the complex conjugate of a complex number'],
+    'IMCOS': ['text', 'inumber', 'Returns the cosine of a complex number'],
+    'IMCOSH': ['text', 'inumber', 'Returns the hyperbolic cosine of a complex number'],
+    'IMCOT': ['text', 'inumber', 'Returns the cotangent of a complex number'],
+    'IMCSC': ['text', 'inumber', 'Returns the cosecant of a complex number'],
+    'IMCSCH': ['text', 'inumber', 'Returns the hyperbolic cosecant of a complex number'],
+    'IMDIV': ['text', 'inumber1, inumber2', 'Returns the quotient of two complex numbers'],
+    'IMEXP': ['text', 'inumber', 'Returns the exponential of a complex number'],
+    'IMLN': ['text', 'inumber', 'Returns the natural logarithm of a complex number'],
+    'IMLOG10': ['text', 'inumber', 'Returns the base-10 logarithm of a complex number'],
+    'IMLOG2': ['text', 'inumber', 'Returns the base-2 logarithm of a complex number'],
+    'IMPOWER': ['text', 'inumber, number', 'Returns a complex number raised to an integer power'],
+    'IMPRODUCT': ['text', 'inumber1, [inumber2], ...', 'Returns the product of complex numbers'],
+    'IMREAL': ['number', 'inumber', 'Returns the real coefficient of a complex number'],
+    'IMSEC': ['text', 'inumber', 'Returns the secant of a complex number'],
+    'IMSECH': ['text', 'inumber', 'Returns the hyperbolic secant of a complex number'],
+    'IMSIN': ['text', 'inumber', 'Returns the sine of a complex number'],
+    'IMSINH': ['text', 'inumber', 'Returns the hyperbolic sine of a complex number'],
+    'IMSQRT': ['text', 'inumber', 'Returns the square root of a complex number'],
+    'IMSUB': ['text', 'inumber1, inumber2', 'Returns the difference between two complex numbers'],
+    'IMSUM': ['text', 'inumber1, [inumber2], ...', 'Returns the sum of complex numbers'],
+    'IMTAN': ['text', 'inumber', 'Returns the tangent of a complex number'],
+    'OCT2BIN': ['text', 'number, [places]', 'Converts an octal number to binary'],
+    'OCT2DEC': ['number', 'number', 'Converts an octal number to decimal'],
+    'OCT2HEX': ['text', 'number, [places]', 'Converts an octal number to hexadecimal'],
+
+    // Cube
+    'CUBEKPIMEMBER': ['text', 'connection, kpi_name, kpi_property, [caption]', 'Returns a key performance indicator (KPI) property and displays the KPI name in the cell'],
+    'CUBEMEMBER': ['text', 'connection, member_expression, [caption]', 'Returns a member or tuple from the cube'],
+    'CUBEMEMBERPROPERTY': ['any', 'connection, member_expression, property', 'Returns the value of a member property from the cube'],
+    'CUBERANKEDMEMBER': ['text', 'connection, set_expression, rank, [caption]', 'Returns the nth, or ranked, member in a set'],
+    'CUBESET': ['text', 'connection, set_expression, [caption], [sort_order], [sort_by]', 'Defines a calculated set of members or tuples by sending a set expression to the cube on the server'],
+    'CUBESETCOUNT': ['number', 'set', 'Returns the number of items in a set'],
+    'CUBEVALUE': ['any', 'connection, [member_expression1], ...', 'Returns an aggregated value from the cube'],
+
+    // Web and data types
+    'DETECTLANGUAGE': ['text', 'text', 'Identifies the language of the specified text'],
+    'ENCODEURL': ['text', 'text', 'Returns a URL-encoded string'],
+    'FIELDVALUE': ['any', 'value, field_name', 'Retrieves a field from a linked data type'],
+    'FILTERXML': ['any', 'xml, xpath', 'Returns specific data from the XML content by using the specified XPath'],
+    'STOCKHISTORY': ['array', 'stock, start_date, [end_date], [interval], [headers], [property1], ...', 'Retrieves historical data about a financial instrument'],
+    'TRANSLATE': ['text', 'text, [source_language], [target_language]', 'Translates text from one language to another'],
+    'WEBSERVICE': ['text', 'url', 'Returns data from a web service'],
+  };
+
+  private static signatures: Map<string, FunctionSignature> = new Map();
+
+  /**
+   * Look up the signature of a built-in function, or undefined for names the
+   * catalog does not know (user-defined functions, named LAMBDAs)
+   */
+  static get(funcName: string): FunctionSignature | undefined {
+    const name = funcName.toUpperCase();
+    const cached = this.signatures.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const entry = this.FUNCTIONS[name];
+    if (!entry) {
+      return undefined;
+    }
+
+    const signature = this.buildSignature(name, entry);
+    this.signatures.set(name, signature);
+    return signature;
+  }
+
+  /**
+   * All catalogued function names, sorted
+   */
+  static names(): string[] {
+    return Object.keys(this.FUNCTIONS).sort();
+  }
+
+  /**
+   * Resolve the argument at a position of a call with argCount arguments.
+   * Repeating arguments are numbered (criteria_range2, criteria2) and
+   * arguments after the repeating group, such as LET's calculation, are
+   * matched from the end of the call.
+   */
+  static argumentAt(funcName: string, index: number, argCount: number): FunctionArgument | undefined {
+    const signature = this.get(funcName);
+    if (!signature) {
+      return undefined;
+    }
+
+    const args = signature.arguments;
+    const groupStart = args.findIndex(arg => arg.repeating);
+    if (groupStart === -1) {
+      return args[index];
+    }
+    if (index < groupStart) {
+      return args[index];
+    }
+
+    const group = args.filter(arg => arg.repeating);
+    const trailing = args.slice(groupStart + group.length);
+
+    // Trailing arguments take whatever is left after the last whole group
+    let repeated = argCount - groupStart;
+    if (trailing.length > 0) {
+      const required = trailing.filter(arg => !arg.optional).length;
+      repeated = Math.max(0, Math.floor((argCount - groupStart - required) / group.length) * group.length);
+    }
+
+    const offset = index - groupStart;
+    if (offset >= repeated) {
+      return trailing[offset - repeated];
+    }
+
+    const member = group[offset % group.length];
+    const repeat = Math.floor(offset / group.length);
+    return {
+      name: `${member.name}${repeat + 1}`,
+      optional: repeat > 0 || member.optional,
+      repeating: true
+    };
+  }
+
+  /**
+   * Parse a catalog entry's argument list. "number1, [number2], ..." becomes a
+   * repeating "number" argument; the numbered first instance, if present,
+   * decides which members of the group are required.
+   */
+  private static buildSignature(name: string, entry: CatalogEntry): FunctionSignature {
+    const [returnType, argumentList, description, limit] = entry;
+    const items: string[] = argumentList.match(/\[[^\]]*\]|[^,\s][^,]*/g) || [];
+    const parsed = items.map(item => {
+      const optional = item.startsWith('[');
+      const names = (optional ? item.slice(1, -1) : item).split(',').map(part => part.trim());
+      return { names, optional };
+    });
+
+    const args: FunctionArgument[] = [];
+    const ellipsis = items.indexOf('...');
+
+    if (ellipsis === -1) {
+      parsed.forEach(item => item.names.forEach(argName => args.push({ name: argName, optional: item.optional })));
+    } else {
+      const repeatItem = parsed[ellipsis - 1];
+      const bases = repeatItem.names.map(argName => argName.replace(/\d+$/, ''));
+
+      // Walk back over the numbered first instance of the group (criteria_range1, criteria1)
+      let firstInstance = ellipsis - 1;
+      const isFirstInstance = (item: { names: string[] }) =>
+        item.names.every(argName => /1$/.test(argName) && bases.includes(argName.replace(/\d+$/, '')));
+      if (!isFirstInstance(repeatItem)) {
+        while (firstInstance > 0 && isFirstInstance(parsed[firstInstance - 1])) {
+          firstInstance--;
+        }
+      }
+
+      parsed.slice(0, firstInstance).forEach(item =>
+        item.names.forEach(argName => args.push({ name: argName, optional: item.optional })));
+
+      const instance = firstInstance < ellipsis - 1 ? parsed.slice(firstInstance, ellipsis - 1) : [repeatItem];
+      instance.forEach(item => item.names.forEach(argName =>
+        args.push({ name: argName.replace(/\d+$/, ''), optional: item.optional, repeating: true })));
+
+      parsed.slice(ellipsis + 1).forEach(item =>
+        item.names.forEach(argName => args.push({ name: argName, optional: item.optional })));
+    }
+
+    const required = args.filter(arg => !arg.optional).length;
+    const groupSize = args.filter(arg => arg.repeating).length;
+    let maxArgs = args.length;
+    if (groupSize > 0) {
+      const fixed = args.length - groupSize;
+      maxArgs = limit ?? fixed + Math.floor((this.MAX_ARGUMENTS - fixed) / groupSize) * groupSize;
+    }
+
+    return {
+      name,
+      description,
+      returnType,
+      syntax: `${name}(${argumentList})`,
+      arguments: args,
+      minArgs: required,
+      maxArgs
+    };
+  }
+}
@@ -15,6 +15,10 @@ export interface ShortcutConfig {
 
 export type ShortcutHandler = () => void | Promise<void>;
 
+// Called when the navigation history changes; moved is true when the
+// current location moved back or forward rather than a location being added
+export type HistoryListener = (moved: boolean) => void;
+
 export class KeyboardShortcutManager {
   private static shortcuts: Map<string, ShortcutHandler> = new Map();
   private static config: ShortcutConfig = {
@@ -31,6 +35,7 @@ export class KeyboardShortcutManager {
   private static navigationHistory: Array<{ sheet: string; address: string }> = [];
   private static currentHistoryIndex: number = -1;
   private static maxHistorySize: number = 100;
+  private static historyListeners: Set<HistoryListener> = new Set();
 
   /**
    * Initialize keyboard shortcuts
@@ -101,9 +106,15 @@ export class KeyboardShortcutManager {
   }
 
   /**
-   * Add location to navigation history
+   * Add location to navigation history. Revisiting the current location
+   * adds nothing.
    */
   static addToHistory(sheet: string, address: string): void {
+    const current = this.navigationHistory[this.currentHistoryIndex];
+    if (current && current.sheet === sheet && current.address === address) {
+      return;
+    }
+
     // Remove any history after current index
     this.navigationHistory = this.navigationHistory.slice(0, this.currentHistoryIndex + 1);
 
@@ -116,52 +127,62 @@ export class KeyboardShortcutManager {
     } else {
       this.currentHistoryIndex++;
     }
+
+    this.notifyHistoryListeners(false);
   }
 
   /**
    * Navigate back in history
    */
   static async navigateBack(context: Excel.RequestContext): Promise<boolean> {
-    if (this.currentHistoryIndex <= 0) {
-      return false;
-    }
-
-    this.currentHistoryIndex--;
-    const location = this.navigationHistory[this.currentHistoryIndex];
-
-    try {
-      const sheet = context.workbook.worksheets.getItem(location.sheet);
-      const range = sheet.getRange(location.address);
-      range.select();
-      await context.sync();
-      return true;
-    } catch (error) {
-      console.error('Error navigating back:', error);
-      return false;
-    }
+    return this.navigateTo(context, this.currentHistoryIndex - 1);
   }
 
   /**
    * Navigate forward in history
    */
   static async navigateForward(context: Excel.RequestContext): Promise<boolean> {
-    if (this.currentHistoryIndex >= this.navigationHistory.length - 1) {
+    return this.navigateTo(context, this.currentHistoryIndex + 1);
+  }
+
+  /**
+   * Select the location at a position in history and make it the current one
+   */
+  static async navigateTo(context: Excel.RequestContext, index: number): Promise<boolean> {
+    if (index < 0 || index >= this.navigationHistory.length || index === this.currentHistoryIndex) {
       return false;
     }
 
-    this.currentHistoryIndex++;
-    const location = this.navigationHistory[this.currentHistoryIndex];
+    const location = this.navigationHistory[index];
 
     try {
       const sheet = context.workbook.worksheets.getItem(location.sheet);
       const range = sheet.getRange(location.address);
       range.select();
       await context.sync();
-      return true;
     } catch (error) {
-      console.error('Error navigating forward:', error);
+      console.error('Error navigating history:', error);
       return false;
     }
+
+    this.currentHistoryIndex = index;
+    this.notifyHistoryListeners(true);
+    return true;
+  }
+
+  /**
+   * Listen for changes to the navigation history. Returns a function that
+   * stops listening.
+   */
+  static onHistoryChange(listener: HistoryListener): () => void {
+    this.historyListeners.add(listener);
+    return () => {
+      this.historyListeners.delete(listener);
+    };
+  }
+
+  private static notifyHistoryListeners(moved: boolean): void {
+    this.historyListeners.forEach(listener => listener(moved));
   }
 
   /**
@@ -177,6 +198,7 @@ export class KeyboardShortcutManager {
   static clearHistory(): void {
     this.navigationHistory = [];
     this.currentHistoryIndex = -1;
+    this.notifyHistoryListeners(false);
   }
 
   /**
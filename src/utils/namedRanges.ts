@@ -0,0 +1,99 @@
+/**
+ * Named Ranges - Load and resolve workbook and worksheet scoped names
+ */
+
+import { FormulaTokenizer } from './formulaTokenizer';
+
+export interface NamedRangeInfo {
+  name: string;
+  scope: string | null; // Worksheet name for sheet-scoped names, null for workbook scope
+  refersTo: string; // Formula the name stands for, e.g. =Inputs!$B$2 or =0.2
+  address: string | null; // Sheet!A1 when the name refers to a range, otherwise null
+  value: any; // Constant value for names that do not refer to a range
+}
+
+export class NamedRangeHelper {
+  /**
+   * Load every visible name in the workbook, including sheet-scoped names
+   */
+  static async loadNames(context: Excel.RequestContext): Promise<NamedRangeInfo[]> {
+    const properties = 'items/name,items/type,items/formula,items/value,items/visible';
+    const workbookNames = context.workbook.names;
+    workbookNames.load(properties);
+
+    const worksheets = context.workbook.worksheets;
+    worksheets.load('items/name');
+    await context.sync();
+
+    const sheetNames = worksheets.items.map(sheet => {
+      sheet.names.load(properties);
+      return { sheet: sheet.name, names: sheet.names };
+    });
+    await context.sync();
+
+    const names: NamedRangeInfo[] = [];
+    const add = (item: Excel.NamedItem, scope: string | null) => {
+      if (!item.visible) {
+        return;
+      }
+      const address = item.type === 'Range' ? this.referenceAddress(item.formula) : null;
+      names.push({
+        name: item.name,
+        scope,
+        refersTo: item.formula,
+        address,
+        value: address ? undefined : item.value
+      });
+    };
+
+    workbookNames.items.forEach(item => add(item, null));
+    for (const { sheet, names: collection } of sheetNames) {
+      collection.items.forEach(item => add(item, sheet));
+    }
+
+    return names;
+  }
+
+  /**
+   * Find a name as Excel would: a sheet-qualified name (Sheet1!Rate) looks only
+   * at that sheet, otherwise the current sheet's names shadow workbook names
+   */
+  static find(names: NamedRangeInfo[], reference: string, currentSheet: string): NamedRangeInfo | null {
+    const separator = reference.lastIndexOf('!');
+    const name = (separator >= 0 ? reference.substring(separator + 1) : reference).toUpperCase();
+    const sheet = separator >= 0 ? reference.substring(0, separator).replace(/^'|'$/g, '').replace(/''/g, "'") : null;
+
+    const matches = names.filter(n => n.name.toUpperCase() === name);
+
+    if (sheet) {
+      return matches.find(n => n.scope === sheet) || null;
+    }
+
+    return matches.find(n => n.scope === currentSheet) ||
+      matches.find(n => n.scope === null) ||
+      null;
+  }
+
+  /**
+   * Extract the address from a refersTo formula that is a single reference
+   */
+  private static referenceAddress(formula: string): string | null {
+    try {
+      const tokens = FormulaTokenizer.tokenize(formula);
+      if (tokens.length !== 1 || tokens[0].type !== 'reference') {
+        return null;
+      }
+
+      const reference = tokens[0].value;
+      const separator = reference.lastIndexOf('!');
+      if (separator < 0) {
+        return null;
+      }
+
+      const sheet = reference.substring(0, separator).replace(/^'|'$/g, '').replace(/''/g, "'");
+      return `${sheet}!${reference.substring(separator + 1).replace(/\$/g, '')}`;
+    } catch (error) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Range Batch - Loads many ranges in a single round trip to Excel instead
+ * of syncing once per range
+ */
+
+export interface RangeRequest {
+  sheet: string;
+  address: string;
+}
+
+export class RangeBatch {
+  // Ranges queued per sync, so a large sheet does not build one huge request
+  private static MAX_BATCH_SIZE = 1000;
+
+  /**
+   * Queue a load of the given properties for every item's range and read
+   * them with one sync per MAX_BATCH_SIZE ranges. Ranges come back in item
+   * order. If a batch fails, usually because of one bad address or sheet,
+   * each of its ranges is loaded on its own so the others are still read;
+   * those that cannot be loaded come back as null. Null objects, such as an
+   * empty intersection, are returned as they are for the caller to check
+   * with isNullObject.
+   */
+  static async load<T>(
+    context: Excel.RequestContext,
+    items: T[],
+    getRange: (item: T) => Excel.Range,
+    properties: string[]
+  ): Promise<(Excel.Range | null)[]> {
+    const ranges: (Excel.Range | null)[] = [];
+    for (let start = 0; start < items.length; start += this.MAX_BATCH_SIZE) {
+      ranges.push(...await this.loadBatch(context, items.slice(start, start + this.MAX_BATCH_SIZE), getRange, properties));
+    }
+    return ranges;
+  }
+
+  private static async loadBatch<T>(
+    context: Excel.RequestContext,
+    items: T[],
+    getRange: (item: T) => Excel.Range,
+    properties: string[]
+  ): Promise<(Excel.Range | null)[]> {
+    const queue = (item: T): Excel.Range => {
+      const range = getRange(item);
+      range.load(properties);
+      return range;
+    };
+
+    try {
+      const ranges = items.map(queue);
+      await context.sync();
+      return ranges;
+    } catch (error) {
+      // Fall back to one sync per range to find the ones that fail
+    }
+
+    const ranges: (Excel.Range | null)[] = [];
+    for (const item of items) {
+      try {
+        const range = queue(item);
+        await context.sync();
+        ranges.push(range);
+      } catch (error) {
+        ranges.push(null);
+      }
+    }
+    return ranges;
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Range Ref - A1 addresses as typed values, and the range algebra the tools
+ * share: intersection, union, containment, offset and resize
+ */
+
+import { ReferenceGrammar } from './referenceGrammar';
+
+export interface RangeRefAbsolute {
+  startRow: boolean;
+  startCol: boolean;
+  endRow: boolean;
+  endCol: boolean;
+}
+
+export interface RangeRef {
+  sheet: string | null; // Unquoted sheet name; null when the address has none
+  startRow: number; // 1-based and inclusive
+  startCol: number;
+  endRow: number;
+  endCol: number;
+  kind: 'cells' | 'columns' | 'rows'; // A1:B5, whole columns (A:C) or whole rows (1:3)
+  absolute: RangeRefAbsolute; // Which parts were written with "$"
+}
+
+export class RangeRefHelper {
+  static MAX_ROWS = 1048576;
+  static MAX_COLS = 16384;
+
+  private static CELL = /^(\$?)([A-Z]{1,3})(\$?)(\d+)$/i;
+  private static COLUMN = /^(\$?)([A-Z]{1,3})$/i;
+  private static ROW = /^(\$?)(\d+)$/;
+
+  private static RELATIVE: RangeRefAbsolute = { startRow: false, startCol: false, endRow: false, endCol: false };
+
+  /**
+   * Parse an A1 address such as B2, $A$1:C5, Sheet1!A:A or 'Q1 Data'!3:5.
+   * Corners may be given in any order. Returns null for anything else,
+   * including references to other workbooks and 3D references.
+   */
+  static parse(text: string): RangeRef | null {
+    const parts = ReferenceGrammar.split(text.trim());
+    if (parts.workbook !== null || parts.lastSheet !== null) {
+      return null;
+    }
+
+    const corners = parts.address.split(':');
+    if (corners.length > 2) {
+      return null;
+    }
+    const [first, last = first] = corners;
+
+    const cells = [first, last].map(corner => corner.match(this.CELL));
+    if (cells[0] && cells[1]) {
+      const [a, b] = cells as RegExpMatchArray[];
+      return this.build(parts.sheet, 'cells',
+        { index: parseInt(a[4], 10), absolute: !!a[3] }, { index: this.columnToNumber(a[2]), absolute: !!a[1] },
+        { index: parseInt(b[4], 10), absolute: !!b[3] }, { index: this.columnToNumber(b[2]), absolute: !!b[1] });
+    }
+
+    if (corners.length < 2) {
+      return null;
+    }
+
+    const columns = [first, last].map(corner => corner.match(this.COLUMN));
+    if (columns[0] && columns[1]) {
+      const [a, b] = columns as RegExpMatchArray[];
+      return this.build(parts.sheet, 'columns',
+        { index: 1, absolute: false }, { index: this.columnToNumber(a[2]), absolute: !!a[1] },
+        { index: this.MAX_ROWS, absolute: false }, { index: this.columnToNumber(b[2]), absolute: !!b[1] });
+    }
+
+    const rows = [first, last].map(corner => corner.match(this.ROW));
+    if (rows[0] && rows[1]) {
+      const [a, b] = rows as RegExpMatchArray[];
+      return this.build(parts.sheet, 'rows',
+        { index: parseInt(a[2], 10), absolute: !!a[1] }, { index: 1, absolute: false },
+        { index: parseInt(b[2], 10), absolute: !!b[1] }, { index: this.MAX_COLS, absolute: false });
+    }
+
+    return null;
+  }
+
+  /**
+   * Write a range as an A1 address, keeping its "$" flags. The sheet is
+   * included, quoted if needed, unless withSheet is false.
+   */
+  static format(ref: RangeRef, withSheet: boolean = true): string {
+    const dollar = (absolute: boolean) => absolute ? '$' : '';
+    const column = (index: number, absolute: boolean) => dollar(absolute) + this.numberToColumn(index);
+    const row = (index: number, absolute: boolean) => dollar(absolute) + index;
+    const { absolute } = ref;
+
+    let address: string;
+    if (ref.kind === 'columns') {
+      address = `${column(ref.startCol, absolute.startCol)}:${column(ref.endCol, absolute.endCol)}`;
+    } else if (ref.kind === 'rows') {
+      address = `${row(ref.startRow, absolute.startRow)}:${row(ref.endRow, absolute.endRow)}`;
+    } else {
+      const start = column(ref.startCol, absolute.startCol) + row(ref.startRow, absolute.startRow);
+      const end = column(ref.endCol, absolute.endCol) + row(ref.endRow, absolute.endRow);
+      address = this.isCell(ref) && start === end ? start : `${start}:${end}`;
+    }
+
+    return withSheet && ref.sheet ? `${ReferenceGrammar.quoteSheet(ref.sheet)}!${address}` : address;
+  }
+
+  /**
+   * A relative range from its corners, 1-based
+   */
+  static fromBounds(startRow: number, startCol: number, endRow: number, endCol: number, sheet: string | null = null): RangeRef {
+    return {
+      sheet,
+      startRow: Math.min(startRow, endRow),
+      startCol: Math.min(startCol, endCol),
+      endRow: Math.max(startRow, endRow),
+      endCol: Math.max(startCol, endCol),
+      kind: 'cells',
+      absolute: { ...this.RELATIVE }
+    };
+  }
+
+  /**
+   * A relative single cell, 1-based
+   */
+  static cell(row: number, col: number, sheet: string | null = null): RangeRef {
+    return this.fromBounds(row, col, row, col, sheet);
+  }
+
+  /**
+   * Address such as B3 of a 1-based row and column
+   */
+  static cellAddress(row: number, col: number): string {
+    return `${this.numberToColumn(col)}${row}`;
+  }
+
+  /**
+   * Row and column of an address's top-left cell; whole columns start at
+   * row 1 and whole rows at column A. Throws for text that is not an address.
+   */
+  static addressToCoords(address: string): { row: number; col: number } {
+    const ref = this.parse(address);
+    if (!ref) {
+      throw new Error(`Invalid cell address: ${address}`);
+    }
+    return { row: ref.startRow, col: ref.startCol };
+  }
+
+  /**
+   * Convert column letters to a number (A=1, B=2, ..., AA=27)
+   */
+  static columnToNumber(column: string): number {
+    let num = 0;
+    for (const char of column.toUpperCase()) {
+      num = num * 26 + (char.charCodeAt(0) - 64);
+    }
+    return num;
+  }
+
+  /**
+   * Convert a column number to letters (1=A, 2=B, ..., 27=AA)
+   */
+  static numberToColumn(num: number): string {
+    let column = '';
+    while (num > 0) {
+      const remainder = (num - 1) % 26;
+      column = String.fromCharCode(65 + remainder) + column;
+      num = Math.floor((num - 1) / 26);
+    }
+    return column;
+  }
+
+  static rowCount(ref: RangeRef): number {
+    return ref.endRow - ref.startRow + 1;
+  }
+
+  static columnCount(ref: RangeRef): number {
+    return ref.endCol - ref.startCol + 1;
+  }
+
+  static cellCount(ref: RangeRef): number {
+    return this.rowCount(ref) * this.columnCount(ref);
+  }
+
+  static isCell(ref: RangeRef): boolean {
+    return ref.kind === 'cells' && ref.startRow === ref.endRow && ref.startCol === ref.endCol;
+  }
+
+  /**
+   * Whether two ranges can be on the same sheet. A range without a sheet
+   * is taken to be on whichever sheet the other one is.
+   */
+  static sameSheet(a: RangeRef, b: RangeRef): boolean {
+    return !a.sheet || !b.sheet || a.sheet.toUpperCase() === b.sheet.toUpperCase();
+  }
+
+  /**
+   * Whether every cell of inner is also in outer
+   */
+  static contains(outer: RangeRef, inner: RangeRef): boolean {
+    return this.sameSheet(outer, inner) &&
+      inner.startRow >= outer.startRow && inner.endRow <= outer.endRow &&
+      inner.startCol >= outer.startCol && inner.endCol <= outer.endCol;
+  }
+
+  /**
+   * Whether a cell or range address lies inside a range address; false
+   * when either is not an address
+   */
+  static isInRange(rangeAddress: string, address: string): boolean {
+    const outer = this.parse(rangeAddress);
+    const inner = this.parse(address);
+    return !!outer && !!inner && this.contains(outer, inner);
+  }
+
+  /**
+   * The cells two ranges share, like Excel's intersection operator, or null
+   * when they do not overlap
+   */
+  static intersect(a: RangeRef, b: RangeRef): RangeRef | null {
+    if (!this.sameSheet(a, b)) {
+      return null;
+    }
+
+    const startRow = Math.max(a.startRow, b.startRow);
+    const startCol = Math.max(a.startCol, b.startCol);
+    const endRow = Math.min(a.endRow, b.endRow);
+    const endCol = Math.min(a.endCol, b.endCol);
+    if (startRow > endRow || startCol > endCol) {
+      return null;
+    }
+
+    const kind = a.kind === b.kind && a.kind !== 'cells' ? a.kind : 'cells';
+    return { ...this.fromBounds(startRow, startCol, endRow, endCol, a.sheet || b.sheet), kind };
+  }
+
+  /**
+   * The smallest single range covering both, like Range.getBoundingRect,
+   * or null when they are on different sheets
+   */
+  static union(a: RangeRef, b: RangeRef): RangeRef | null {
+    if (!this.sameSheet(a, b)) {
+      return null;
+    }
+
+    const kind = a.kind === b.kind && a.kind !== 'cells' ? a.kind : 'cells';
+    return {
+      ...this.fromBounds(
+        Math.min(a.startRow, b.startRow),
+        Math.min(a.startCol, b.startCol),
+        Math.max(a.endRow, b.endRow),
+        Math.max(a.endCol, b.endCol),
+        a.sheet || b.sheet
+      ),
+      kind
+    };
+  }
+
+  /**
+   * Move a range like OFFSET does. Returns null when it would leave the
+   * sheet; whole columns cannot move down and whole rows cannot move right.
+   */
+  static offset(ref: RangeRef, rows: number, cols: number): RangeRef | null {
+    if ((ref.kind === 'columns' && rows !== 0) || (ref.kind === 'rows' && cols !== 0)) {
+      return null;
+    }
+    return this.withBounds(ref, ref.startRow + rows, ref.startCol + cols, ref.endRow + rows, ref.endCol + cols);
+  }
+
+  /**
+   * Give a range a new height and width, keeping its top-left cell.
+   * Returns null for sizes below one or ranges that would leave the sheet.
+   */
+  static resize(ref: RangeRef, rows: number, cols: number): RangeRef | null {
+    if (rows < 1 || cols < 1) {
+      return null;
+    }
+    return this.withBounds(ref, ref.startRow, ref.startCol, ref.startRow + rows - 1, ref.startCol + cols - 1);
+  }
+
+  /**
+   * The cell at a 1-based row and column inside a range, as INDEX picks it,
+   * or null when the position falls outside the range
+   */
+  static cellAt(ref: RangeRef, row: number, col: number): RangeRef | null {
+    const cellRow = ref.startRow + row - 1;
+    const cellCol = ref.startCol + col - 1;
+    if (row < 1 || col < 1 || cellRow > ref.endRow || cellCol > ref.endCol) {
+      return null;
+    }
+    return this.cell(cellRow, cellCol, ref.sheet);
+  }
+
+  /**
+   * Every cell address of a range, row by row
+   */
+  static cellAddresses(ref: RangeRef): string[] {
+    const addresses: string[] = [];
+    for (let row = ref.startRow; row <= ref.endRow; row++) {
+      for (let col = ref.startCol; col <= ref.endCol; col++) {
+        addresses.push(this.cellAddress(row, col));
+      }
+    }
+    return addresses;
+  }
+
+  private static build(
+    sheet: string | null,
+    kind: RangeRef['kind'],
+    startRow: { index: number; absolute: boolean },
+    startCol: { index: number; absolute: boolean },
+    endRow: { index: number; absolute: boolean },
+    endCol: { index: number; absolute: boolean }
+  ): RangeRef | null {
+    // Corners may be written in any order, e.g. B5:A1
+    const [top, bottom] = startRow.index <= endRow.index ? [startRow, endRow] : [endRow, startRow];
+    const [left, right] = startCol.index <= endCol.index ? [startCol, endCol] : [endCol, startCol];
+    if (top.index < 1 || bottom.index > this.MAX_ROWS || left.index < 1 || right.index > this.MAX_COLS) {
+      return null;
+    }
+
+    return {
+      sheet,
+      startRow: top.index,
+      startCol: left.index,
+      endRow: bottom.index,
+      endCol: right.index,
+      kind,
+      absolute: { startRow: top.absolute, startCol: left.absolute, endRow: bottom.absolute, endCol: right.absolute }
+    };
+  }
+
+  /**
+   * Move a range's corners, keeping its sheet and "$" flags. Whole columns
+   * and rows stay whole only while they still span the sheet.
+   */
+  private static withBounds(ref: RangeRef, startRow: number, startCol: number, endRow: number, endCol: number): RangeRef | null {
+    if (startRow < 1 || startCol < 1 || endRow > this.MAX_ROWS || endCol > this.MAX_COLS) {
+      return null;
+    }
+
+    const whole = (ref.kind === 'columns' && startRow === 1 && endRow === this.MAX_ROWS) ||
+      (ref.kind === 'rows' && startCol === 1 && endCol === this.MAX_COLS);
+    return { ...ref, startRow, startCol, endRow, endCol, kind: whole ? ref.kind : 'cells' };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Reference Grammar - The sheet prefix of a reference, shared by everything
+ * that reads references: quoted sheet names, external workbooks and 3D
+ * sheet spans such as Jan:Dec!B5
+ */
+
+export interface ReferenceParts {
+  path: string | null; // Folder of an external workbook, e.g. C:\Reports\
+  workbook: string | null; // External workbook without brackets, e.g. Budget v3.xlsx, or a link number such as 1
+  sheet: string | null; // First or only sheet, unquoted; null when the reference has no sheet
+  lastSheet: string | null; // For 3D references: the last sheet of the span
+  address: string; // What follows the "!": a cell, range or name
+}
+
+export class ReferenceGrammar {
+  // Sheet names that can go unquoted: letters, digits, "_" and ".", not starting with a digit
+  private static UNQUOTED_SHEET = '[\\p{L}_\\\\][\\p{L}\\p{N}_.]*';
+
+  /**
+   * Sheet prefix at the start of text, up to and including the "!":
+   * 'P&L 2024'!, '[Budget v3.xlsx]Inputs'!, 'C:\Reports\[Q1.xlsx]Data'!,
+   * [1]Sheet1!, Sheet1! or Jan:Dec!. Quoted names escape apostrophes by
+   * doubling them.
+   */
+  static SHEET_PREFIX = new RegExp(
+    `^(?:'(?:[^']|'')+'|(?:\\[[^\\]]+\\])?${ReferenceGrammar.UNQUOTED_SHEET}(?::${ReferenceGrammar.UNQUOTED_SHEET})?)!`,
+    'u'
+  );
+
+  // Sheet names that would read as a cell reference, or a boolean, without quotes
+  private static CELL_LIKE = /^(?:[A-Z]{1,3}\d+|R\d*C\d*|TRUE|FALSE)$/i;
+
+  /**
+   * Split a reference into its workbook, sheets and address. Sheet!A1 put
+   * together from a loaded sheet name, which is never quoted, is read too.
+   */
+  static split(reference: string): ReferenceParts {
+    const match = reference.match(this.SHEET_PREFIX);
+    if (!match) {
+      const bang = reference.lastIndexOf('!');
+      return bang > 0
+        ? { path: null, workbook: null, sheet: reference.substring(0, bang), lastSheet: null, address: reference.substring(bang + 1) }
+        : { path: null, workbook: null, sheet: null, lastSheet: null, address: reference };
+    }
+
+    let prefix = match[0].slice(0, -1);
+    if (prefix.startsWith("'")) {
+      prefix = prefix.slice(1, -1).replace(/''/g, "'");
+    }
+
+    // Sheet names cannot contain brackets or colons, so the last "]" ends the
+    // workbook and a ":" after it separates the sheets of a 3D span
+    const bracket = prefix.lastIndexOf(']');
+    const book = bracket >= 0 ? prefix.substring(0, bracket) : null;
+    const [sheet, lastSheet] = prefix.substring(bracket + 1).split(':');
+    const open = book ? book.lastIndexOf('[') : -1;
+
+    return {
+      path: book && open > 0 ? book.substring(0, open) : null,
+      workbook: book ? book.substring(open + 1) : null,
+      sheet,
+      lastSheet: lastSheet ?? null,
+      address: reference.substring(match[0].length)
+    };
+  }
+
+  /**
+   * Write a sheet prefix, quoting it when the names need it
+   */
+  static formatPrefix(parts: Omit<ReferenceParts, 'address'>): string {
+    if (!parts.sheet) {
+      return '';
+    }
+
+    const sheets = parts.lastSheet ? [parts.sheet, parts.lastSheet] : [parts.sheet];
+    const book = parts.workbook ? `${parts.path || ''}[${parts.workbook}]` : '';
+    const unquoted = !parts.path &&
+      (!parts.workbook || /^[\p{L}\p{N}_.]+$/u.test(parts.workbook)) &&
+      sheets.every(sheet => this.canGoUnquoted(sheet));
+    const text = book + sheets.join(':');
+    return unquoted ? `${text}!` : `'${text.replace(/'/g, "''")}'!`;
+  }
+
+  /**
+   * Quote a sheet name if Excel requires it, e.g. for 'Q1 Data'!
+   */
+  static quoteSheet(sheet: string): string {
+    return this.canGoUnquoted(sheet) ? sheet : `'${sheet.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Split a list of areas such as 'Q1 Data'!A1:B2,'Q1 Data'!D1:E2 at the
+   * commas outside quoted sheet names
+   */
+  static splitAreas(list: string): string[] {
+    const areas: string[] = [];
+    let start = 0;
+    let quoted = false;
+    for (let i = 0; i < list.length; i++) {
+      if (list[i] === "'") {
+        quoted = !quoted; // An escaped '' toggles twice
+      } else if (list[i] === ',' && !quoted) {
+        areas.push(list.substring(start, i));
+        start = i + 1;
+      }
+    }
+    areas.push(list.substring(start));
+    return areas;
+  }
+
+  /**
+   * A reference into another workbook, which cannot be loaded from here
+   */
+  static isExternal(reference: string): boolean {
+    return this.split(reference).workbook !== null;
+  }
+
+  /**
+   * A reference to the same cells on a span of sheets, such as Jan:Dec!B5
+   */
+  static is3D(reference: string): boolean {
+    return this.split(reference).lastSheet !== null;
+  }
+
+  /**
+   * The sheets a 3D span covers, in tab order. Either end may be given
+   * first; names are matched without regard to case.
+   */
+  static sheetsInSpan(sheet: string, lastSheet: string, sheets: string[]): string[] {
+    const names = sheets.map(name => name.toUpperCase());
+    const first = names.indexOf(sheet.toUpperCase());
+    const last = names.indexOf(lastSheet.toUpperCase());
+    if (first < 0 || last < 0) {
+      return [];
+    }
+    return sheets.slice(Math.min(first, last), Math.max(first, last) + 1);
+  }
+
+  private static canGoUnquoted(sheet: string): boolean {
+    return new RegExp(`^${this.UNQUOTED_SHEET}$`, 'u').test(sheet) && !this.CELL_LIKE.test(sheet);
+  }
+}
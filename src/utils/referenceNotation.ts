@@ -0,0 +1,160 @@
+/**
+ * Reference Notation - Converts references and formulas between A1 and R1C1
+ * notation, relative to the cell that holds the formula
+ */
+
+import { FormulaTokenizer, ReferenceStyle } from './formulaTokenizer';
+import { RangeRefHelper } from './rangeRef';
+
+export class ReferenceNotation {
+
+  private static A1_PART = /^(\$?)([A-Z]{1,3})?(\$?)(\d+)?$/i;
+  private static R1C1_PART = /^(R(\[-?\d+\]|\d+)?)?(C(\[-?\d+\]|\d+)?)?$/i;
+
+  /**
+   * Convert an A1 formula to R1C1 as seen from the host cell. Copies of the
+   * same formula have identical R1C1 text.
+   */
+  static toR1C1(formula: string, hostCell: string): string {
+    return this.convert(formula, hostCell, 'A1');
+  }
+
+  /**
+   * Convert an R1C1 formula (Range.formulasR1C1) to A1 as seen from the host cell
+   */
+  static toA1(formula: string, hostCell: string): string {
+    return this.convert(formula, hostCell, 'R1C1');
+  }
+
+  /**
+   * Convert an A1 reference such as Sheet1!$A1:B$2 to R1C1. Table
+   * references and anything else that is not an A1 reference are returned
+   * unchanged.
+   */
+  static referenceToR1C1(reference: string, hostCell: string): string {
+    const host = this.hostPosition(hostCell);
+    const { prefix, parts, spill } = this.splitReference(reference);
+
+    const converted: string[] = [];
+    for (const part of parts) {
+      const match = part.match(this.A1_PART);
+      if (!match || (!match[2] && !match[4])) {
+        return reference;
+      }
+
+      // In a whole-row part such as $3 the first "$" belongs to the row
+      const [, colAbsolute, column, rowAbsolute, row] = match;
+      const rowIsAbsolute = !!rowAbsolute || (!column && !!colAbsolute);
+      const rowText = row ? this.r1c1Part('R', parseInt(row, 10), rowIsAbsolute, host.row) : '';
+      const colText = column ? this.r1c1Part('C', RangeRefHelper.columnToNumber(column), !!colAbsolute, host.col) : '';
+      converted.push(rowText + colText);
+    }
+
+    // A:A and 3:3 are written as a single column or row in R1C1
+    const isWholeLine = !converted.some(part => /^R.*C/i.test(part));
+    if (isWholeLine && converted.length === 2 && converted[0] === converted[1]) {
+      converted.pop();
+    }
+
+    return prefix + converted.join(':') + spill;
+  }
+
+  /**
+   * Convert an R1C1 reference such as R[-1]C2:R[1]C2 to A1. References that
+   * fall off the sheet become #REF!.
+   */
+  static referenceToA1(reference: string, hostCell: string): string {
+    const host = this.hostPosition(hostCell);
+    const { prefix, parts, spill } = this.splitReference(reference);
+
+    const converted: string[] = [];
+    for (const part of parts) {
+      const match = part.match(this.R1C1_PART);
+      if (!match || (!match[1] && !match[3])) {
+        return reference;
+      }
+
+      const [, rowPart, rowSpec, colPart, colSpec] = match;
+      const row = rowPart ? this.a1Position(rowSpec, host.row) : null;
+      const col = colPart ? this.a1Position(colSpec, host.col) : null;
+      if ((row && (row.index < 1 || row.index > RangeRefHelper.MAX_ROWS)) ||
+          (col && (col.index < 1 || col.index > RangeRefHelper.MAX_COLS))) {
+        return '#REF!';
+      }
+
+      const colText = col ? `${col.absolute ? '$' : ''}${RangeRefHelper.numberToColumn(col.index)}` : '';
+      const rowText = row ? `${row.absolute ? '$' : ''}${row.index}` : '';
+      converted.push(colText + rowText);
+    }
+
+    // R3 and C2 are whole rows and columns: 3:3 and B:B in A1
+    const isWholeLine = converted.length === 1 && !(/[A-Z]/i.test(converted[0]) && /\d/.test(converted[0]));
+    if (isWholeLine) {
+      converted.push(converted[0]);
+    }
+
+    return prefix + converted.join(':') + spill;
+  }
+
+  /**
+   * Re-render every cell reference of a formula in the other notation;
+   * everything between references is copied as written
+   */
+  private static convert(formula: string, hostCell: string, from: ReferenceStyle): string {
+    if (!FormulaTokenizer.isFormula(formula)) {
+      return formula;
+    }
+
+    let result = '';
+    let pos = 0;
+    for (const token of FormulaTokenizer.tokenize(formula, { referenceStyle: from })) {
+      result += formula.substring(pos, token.start);
+      const original = formula.substring(token.start, token.end);
+      if (token.type === 'reference') {
+        result += from === 'A1' ? this.referenceToR1C1(original, hostCell) : this.referenceToA1(original, hostCell);
+      } else {
+        result += original;
+      }
+      pos = token.end;
+    }
+
+    return result + formula.substring(pos);
+  }
+
+  private static splitReference(reference: string): { prefix: string; parts: string[]; spill: string } {
+    // The reference itself never contains "!", so the last one ends the sheet prefix
+    const bang = reference.lastIndexOf('!');
+    const prefix = reference.substring(0, bang + 1);
+    let body = reference.substring(bang + 1);
+    const spill = body.endsWith('#') ? '#' : '';
+    if (spill) {
+      body = body.slice(0, -1);
+    }
+    return { prefix, parts: body.split(':'), spill };
+  }
+
+  private static hostPosition(hostCell: string): { row: number; col: number } {
+    return RangeRefHelper.addressToCoords(hostCell);
+  }
+
+  /**
+   * R5 / R[-2] / R for an absolute index, an offset, or the host's own row
+   */
+  private static r1c1Part(letter: string, index: number, absolute: boolean, hostIndex: number): string {
+    if (absolute) {
+      return `${letter}${index}`;
+    }
+    const offset = index - hostIndex;
+    return offset === 0 ? letter : `${letter}[${offset}]`;
+  }
+
+  private static a1Position(spec: string | undefined, hostIndex: number): { index: number; absolute: boolean } {
+    if (!spec) {
+      return { index: hostIndex, absolute: false };
+    }
+    if (spec.startsWith('[')) {
+      return { index: hostIndex + parseInt(spec.slice(1, -1), 10), absolute: false };
+    }
+    return { index: parseInt(spec, 10), absolute: true };
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Structured References - Parse and resolve Excel table references such as
+ * Sales[Amount], [@Qty] and Sales[[#Totals],[Amount]]
+ */
+
+import { RangeRefHelper } from './rangeRef';
+
+export interface StructuredReference {
+  table: string | null; // null when the table name is implied by the host cell
+  specifiers: string[]; // #All, #Data, #Headers, #Totals, #This Row
+  firstColumn: string | null; // null when the reference covers every column
+  lastColumn: string | null;
+}
+
+export interface TableInfo {
+  name: string;
+  sheet: string;
+  startRow: number; // 1-based, first row of the whole table including headers
+  endRow: number; // 1-based, last row including the totals row
+  startCol: number; // 1-based
+  columns: string[];
+  hasHeaders: boolean;
+  hasTotals: boolean;
+}
+
+export class StructuredReferenceHelper {
+  private static SPECIFIERS = ['#All', '#Data', '#Headers', '#Totals', '#This Row'];
+
+  // R1C1 references put relative offsets in brackets: R[-1]C[2], C[1]:C[3]
+  private static R1C1_REFERENCE = /^(?:R(?:\[-?\d+\]|\d+)?)?(?:C(?:\[-?\d+\]|\d+)?)?(?::(?:R(?:\[-?\d+\]|\d+)?)?(?:C(?:\[-?\d+\]|\d+)?)?)?#?$/i;
+
+  /**
+   * Check whether a reference uses structured (table) syntax
+   */
+  static isStructuredReference(reference: string): boolean {
+    // A bracket without a sheet separator; [Book]Sheet!A1 is an external reference
+    return reference.includes('[') && !reference.includes('!') && !this.R1C1_REFERENCE.test(reference);
+  }
+
+  /**
+   * Parse structured reference text into its parts
+   */
+  static parse(text: string): StructuredReference | null {
+    const open = text.indexOf('[');
+    if (open < 0 || !text.endsWith(']')) {
+      return null;
+    }
+
+    const table = open > 0 ? text.substring(0, open) : null;
+    let inner = text.substring(open + 1, text.length - 1).trim();
+    const specifiers: string[] = [];
+
+    // [@Col] and [@[Col Name]] are shorthand for [[#This Row],[Col]]
+    if (inner.startsWith('@')) {
+      specifiers.push('#This Row');
+      inner = inner.substring(1).trim();
+      if (!inner) {
+        return { table, specifiers, firstColumn: null, lastColumn: null };
+      }
+      if (!inner.startsWith('[')) {
+        inner = `[${inner}]`;
+      }
+    }
+
+    if (!inner.startsWith('[')) {
+      // Single unbracketed item: either a specifier or a column name
+      const specifier = this.matchSpecifier(inner);
+      if (specifier) {
+        return { table, specifiers: [specifier], firstColumn: null, lastColumn: null };
+      }
+      const column = this.unescapeColumn(inner);
+      return { table, specifiers, firstColumn: column, lastColumn: column };
+    }
+
+    let firstColumn: string | null = null;
+    let lastColumn: string | null = null;
+
+    for (const item of this.splitItems(inner)) {
+      const specifier = this.matchSpecifier(item);
+      if (specifier) {
+        specifiers.push(specifier);
+        continue;
+      }
+
+      // Column range: [Col1]:[Col3]
+      const parts = this.splitColumnRange(item);
+      firstColumn = this.unescapeColumn(parts[0]);
+      lastColumn = this.unescapeColumn(parts[1] ?? parts[0]);
+    }
+
+    return { table, specifiers, firstColumn, lastColumn };
+  }
+
+  /**
+   * Load the name, location and columns of every table in the workbook in a
+   * single round trip
+   */
+  static async loadTables(context: Excel.RequestContext): Promise<TableInfo[]> {
+    const tables = context.workbook.tables;
+    tables.load('items/name,items/showHeaders,items/showTotals');
+    await context.sync();
+
+    const loaded = tables.items.map(table => {
+      const range = table.getRange();
+      range.load(['address', 'rowIndex', 'columnIndex', 'rowCount']);
+      table.columns.load('items/name');
+      table.worksheet.load('name');
+      return { table, range };
+    });
+    await context.sync();
+
+    return loaded.map(({ table, range }) => ({
+      name: table.name,
+      sheet: table.worksheet.name,
+      startRow: range.rowIndex + 1,
+      endRow: range.rowIndex + range.rowCount,
+      startCol: range.columnIndex + 1,
+      columns: table.columns.items.map(column => column.name),
+      hasHeaders: table.showHeaders,
+      hasTotals: table.showTotals
+    }));
+  }
+
+  /**
+   * Find the table that contains a cell
+   */
+  static findTableAt(tables: TableInfo[], sheet: string, row: number, col: number): TableInfo | null {
+    return tables.find(t =>
+      t.sheet === sheet &&
+      row >= t.startRow && row <= t.endRow &&
+      col >= t.startCol && col < t.startCol + t.columns.length
+    ) || null;
+  }
+
+  /**
+   * Resolve a structured reference to a Sheet!A1 address. The host cell is
+   * needed for implicit table names and for #This Row.
+   */
+  static resolve(
+    reference: string,
+    tables: TableInfo[],
+    host?: { sheet: string; row: number; col: number }
+  ): string | null {
+    const parsed = this.parse(reference);
+    if (!parsed) {
+      return null;
+    }
+
+    const table = parsed.table
+      ? tables.find(t => t.name.toUpperCase() === parsed.table!.toUpperCase())
+      : host ? this.findTableAt(tables, host.sheet, host.row, host.col) : null;
+    if (!table) {
+      return null;
+    }
+
+    // Columns
+    let startCol = table.startCol;
+    let endCol = table.startCol + table.columns.length - 1;
+    if (parsed.firstColumn) {
+      const first = this.findColumn(table, parsed.firstColumn);
+      const last = this.findColumn(table, parsed.lastColumn || parsed.firstColumn);
+      if (first < 0 || last < 0) {
+        return null;
+      }
+      startCol = table.startCol + Math.min(first, last);
+      endCol = table.startCol + Math.max(first, last);
+    }
+
+    // Rows
+    const headerRow = table.hasHeaders ? table.startRow : null;
+    const totalsRow = table.hasTotals ? table.endRow : null;
+    const dataStart = table.startRow + (table.hasHeaders ? 1 : 0);
+    const dataEnd = table.endRow - (table.hasTotals ? 1 : 0);
+
+    const specifiers = parsed.specifiers.length > 0 ? parsed.specifiers : ['#Data'];
+    let startRow = Infinity;
+    let endRow = -Infinity;
+    const include = (from: number | null, to: number | null) => {
+      if (from === null || to === null) return;
+      startRow = Math.min(startRow, from);
+      endRow = Math.max(endRow, to);
+    };
+
+    for (const specifier of specifiers) {
+      switch (specifier) {
+        case '#All':
+          include(table.startRow, table.endRow);
+          break;
+        case '#Data':
+          include(dataStart, dataEnd);
+          break;
+        case '#Headers':
+          include(headerRow, headerRow);
+          break;
+        case '#Totals':
+          include(totalsRow, totalsRow);
+          break;
+        case '#This Row':
+          if (host && host.row >= dataStart && host.row <= dataEnd) {
+            include(host.row, host.row);
+          }
+          break;
+      }
+    }
+
+    if (startRow > endRow) {
+      return null;
+    }
+
+    return `${table.sheet}!${RangeRefHelper.format(RangeRefHelper.fromBounds(startRow, startCol, endRow, endCol), false)}`;
+  }
+
+  private static matchSpecifier(item: string): string | null {
+    const text = item.replace(/^\[|\]$/g, '').trim().toUpperCase();
+    return this.SPECIFIERS.find(s => s.toUpperCase() === text) || null;
+  }
+
+  /**
+   * Split "[a],[b]:[c]" into top-level comma separated items
+   */
+  private static splitItems(inner: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (let i = 0; i < inner.length; i++) {
+      const char = inner[i];
+      if (char === "'" && i + 1 < inner.length) {
+        // Escape character: keep it with the escaped character
+        current += char + inner[++i];
+        continue;
+      }
+      if (char === '[') depth++;
+      if (char === ']') depth--;
+      if (char === ',' && depth === 0) {
+        items.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim()) {
+      items.push(current.trim());
+    }
+
+    return items;
+  }
+
+  private static splitColumnRange(item: string): string[] {
+    const match = item.match(/^(\[.*?[^']\]|\[\]):(\[.*\])$/);
+    return match ? [match[1], match[2]] : [item];
+  }
+
+  /**
+   * Strip brackets and the ' escape character from a column name
+   */
+  private static unescapeColumn(column: string): string {
+    let text = column.trim();
+    if (text.startsWith('[') && text.endsWith(']')) {
+      text = text.substring(1, text.length - 1);
+    }
+    return text.replace(/'(.)/g, '$1').trim();
+  }
+
+  private static findColumn(table: TableInfo, column: string): number {
+    const upper = column.toUpperCase();
+    return table.columns.findIndex(c => c.toUpperCase() === upper);
+  }
+}
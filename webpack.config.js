@@ -5,6 +5,7 @@ const CopyWebpackPlugin = require('copy-webpack-plugin');
 module.exports = {
   entry: {
     taskpane: './src/taskpane/taskpane.tsx',
+    dialog: './src/dialog/dialog.tsx',
     commands: './src/commands/commands.ts'
   },
   output: {
@@ -34,6 +35,11 @@ module.exports = {
       filename: 'taskpane.html',
       chunks: ['taskpane']
     }),
+    new HtmlWebpackPlugin({
+      template: './src/dialog/dialog.html',
+      filename: 'dialog.html',
+      chunks: ['dialog']
+    }),
     new HtmlWebpackPlugin({
       template: './src/commands/commands.html',
       filename: 'commands.html',